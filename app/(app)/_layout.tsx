@@ -1,5 +1,5 @@
 import { Tabs } from "expo-router";
-import { Dumbbell, Home, Settings } from "lucide-react-native";
+import { Calendar, Dumbbell, Home, Settings, Users } from "lucide-react-native";
 
 export default function AppLayout() {
   return (
@@ -34,6 +34,22 @@ export default function AppLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          title: "Calendar",
+          tabBarIcon: ({ color, size }) => (
+            <Calendar color={color} size={size} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="clients"
+        options={{
+          title: "Clients",
+          tabBarIcon: ({ color, size }) => <Users color={color} size={size} />,
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -43,6 +59,10 @@ export default function AppLayout() {
           ),
         }}
       />
+      {/* Reached from the dashboard's Today card */}
+      <Tabs.Screen name="today" options={{ href: null }} />
+      {/* Reached by long-pressing the Settings title */}
+      <Tabs.Screen name="debug" options={{ href: null }} />
     </Tabs>
   );
 }
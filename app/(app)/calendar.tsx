@@ -0,0 +1,649 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import {
+  ArrowLeftRight,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  X,
+} from "lucide-react-native";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Chip,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { DraggableWorkout } from "@/components/calendar/DraggableWorkout";
+import { ShiftProgramModal } from "@/components/calendar/ShiftProgramModal";
+import { SyncStatusBanner } from "@/components/offline/SyncStatusBanner";
+import { useCalendar } from "@/hooks/useCalendar";
+import { useDropTargets } from "@/hooks/useDropTargets";
+import { useShiftProgram } from "@/hooks/useProgramSchedule";
+import {
+  addDays,
+  addMonths,
+  type CalendarWorkout,
+  groupByDate,
+  isSameMonth,
+  monthGrid,
+  planMove,
+  planShift,
+  planSwap,
+  type ScheduleChange,
+  weekDays,
+} from "@/lib/schedule/calendar";
+
+type ViewMode = "week" | "month";
+
+// One colour per program so mixed calendars stay readable
+const PROGRAM_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ef4444",
+  "#06b6d4",
+];
+
+const todayKey = () => new Date().toISOString().split("T")[0];
+
+const formatDay = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { programId } = useLocalSearchParams<{ programId?: string }>();
+  const {
+    programs,
+    workouts,
+    moveNotes,
+    isLoading,
+    error,
+    refetch,
+    reschedule,
+  } = useCalendar();
+  const { register, measure, targetAt } = useDropTargets();
+  const shiftProgram = useShiftProgram();
+
+  const [programFilter, setProgramFilter] = useState<string | null>(
+    programId ?? null,
+  );
+  const [mode, setMode] = useState<ViewMode>("week");
+  const [anchor, setAnchor] = useState(todayKey);
+  const [selectedDay, setSelectedDay] = useState(todayKey);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [swapFrom, setSwapFrom] = useState<string | null>(null);
+  const [showShift, setShowShift] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Opening the calendar from a program focuses it
+  useEffect(() => {
+    if (programId) setProgramFilter(programId);
+  }, [programId]);
+
+  const programsById = useMemo(
+    () => new Map(programs.map((program) => [program.id, program])),
+    [programs],
+  );
+
+  const colorFor = (id: string) => {
+    const index = programs.findIndex((program) => program.id === id);
+    return PROGRAM_COLORS[Math.max(index, 0) % PROGRAM_COLORS.length];
+  };
+
+  const visibleWorkouts = useMemo(
+    () =>
+      programFilter
+        ? workouts.filter((workout) => workout.program_id === programFilter)
+        : workouts,
+    [workouts, programFilter],
+  );
+
+  const byDate = useMemo(() => groupByDate(visibleWorkouts), [visibleWorkouts]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const applyChanges = async (changes: ScheduleChange[]) => {
+    if (changes.length === 0) return;
+    setIsSaving(true);
+    const result = await reschedule(changes);
+    setIsSaving(false);
+    if (!result.success) {
+      Alert.alert("Error", result.error ?? "Failed to reschedule");
+    }
+  };
+
+  const handleDrop = (workout: CalendarWorkout, x: number, y: number) => {
+    const dateKey = targetAt(x, y);
+    if (dateKey) applyChanges(planMove(workout, dateKey));
+  };
+
+  const handleDayPress = (dateKey: string) => {
+    if (swapFrom) {
+      const first = swapFrom;
+      setSwapFrom(null);
+      applyChanges(planSwap(visibleWorkouts, first, dateKey));
+      return;
+    }
+    setSelectedDay(dateKey);
+  };
+
+  // Goes through the program so its end date follows the shift
+  const handleShift = async (id: string, days: number) => {
+    try {
+      await shiftProgram.mutateAsync({
+        programId: id,
+        fromDate: selectedDay,
+        days,
+      });
+      setShowShift(false);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to shift program";
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const shiftCount = (id: string) =>
+    planShift(
+      workouts.filter((workout) => workout.program_id === id),
+      selectedDay,
+      1,
+    ).length;
+
+  const step = (direction: 1 | -1) => {
+    const next =
+      mode === "week"
+        ? addDays(anchor, 7 * direction)
+        : addMonths(anchor, direction);
+    setAnchor(next);
+    setSelectedDay(next);
+  };
+
+  const goToToday = () => {
+    setAnchor(todayKey());
+    setSelectedDay(todayKey());
+  };
+
+  const days = weekDays(anchor);
+  const periodLabel =
+    mode === "week"
+      ? `${formatDay(days[0], { month: "short", day: "numeric" })} – ${formatDay(
+          days[6],
+          { month: "short", day: "numeric", year: "numeric" },
+        )}`
+      : formatDay(anchor, { month: "long", year: "numeric" });
+
+  const renderWorkout = (workout: CalendarWorkout) => {
+    const program = programsById.get(workout.program_id);
+    return (
+      <DraggableWorkout
+        key={workout.id}
+        title={workout.title}
+        subtitle={
+          programFilter
+            ? undefined
+            : [program?.name, program?.client_name].filter(Boolean).join(" · ")
+        }
+        note={moveNotes.get(workout.id)}
+        completed={!!workout.completed}
+        color={colorFor(workout.program_id)}
+        onPress={() =>
+          router.push(`/programs/${workout.program_id}/workout/${workout.id}`)
+        }
+        onDragStart={() => {
+          measure();
+          setDraggingId(workout.id);
+        }}
+        onDrop={(x, y) => handleDrop(workout, x, y)}
+        onDragEnd={() => setDraggingId(null)}
+      />
+    );
+  };
+
+  const holdsDragged = (dateKey: string) =>
+    !!draggingId &&
+    (byDate.get(dateKey) ?? []).some((workout) => workout.id === draggingId);
+
+  const renderDayHeader = (dateKey: string) => (
+    <View style={styles.dayHeader}>
+      <Text
+        variant="titleSmall"
+        style={[
+          styles.dayLabel,
+          dateKey === todayKey() && { color: theme.colors.primary },
+        ]}
+      >
+        {formatDay(dateKey, {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+        })}
+      </Text>
+      <TouchableOpacity
+        onPress={() => setSwapFrom(swapFrom === dateKey ? null : dateKey)}
+        style={styles.iconButton}
+        accessibilityLabel="Swap this day with another"
+      >
+        <ArrowLeftRight
+          size={16}
+          color={
+            swapFrom === dateKey
+              ? theme.colors.primary
+              : theme.colors.onSurfaceVariant
+          }
+        />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderWeek = () =>
+    days.map((dateKey) => (
+      <TouchableOpacity
+        key={dateKey}
+        ref={register(dateKey)}
+        activeOpacity={swapFrom ? 0.6 : 1}
+        onPress={() => handleDayPress(dateKey)}
+        style={[
+          styles.dayRow,
+          {
+            borderColor:
+              swapFrom === dateKey
+                ? theme.colors.primary
+                : theme.colors.outlineVariant,
+          },
+          holdsDragged(dateKey) && styles.raised,
+        ]}
+      >
+        {renderDayHeader(dateKey)}
+        {(byDate.get(dateKey) ?? []).map(renderWorkout)}
+        {!byDate.has(dateKey) && (
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            Rest
+          </Text>
+        )}
+      </TouchableOpacity>
+    ));
+
+  const renderMonth = () => (
+    <>
+      <View style={styles.weekdayRow}>
+        {days.map((dateKey) => (
+          <Text
+            key={dateKey}
+            variant="labelSmall"
+            style={[styles.weekday, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {formatDay(dateKey, { weekday: "narrow" })}
+          </Text>
+        ))}
+      </View>
+      {monthGrid(anchor).map((week) => (
+        <View key={week[0]} style={styles.gridRow}>
+          {week.map((dateKey) => {
+            const count = byDate.get(dateKey)?.length ?? 0;
+            const isSelected = dateKey === selectedDay;
+            return (
+              <TouchableOpacity
+                key={dateKey}
+                ref={register(dateKey)}
+                onPress={() => handleDayPress(dateKey)}
+                style={[
+                  styles.gridCell,
+                  {
+                    borderColor:
+                      swapFrom === dateKey
+                        ? theme.colors.primary
+                        : theme.colors.outlineVariant,
+                  },
+                  isSelected && {
+                    backgroundColor: theme.colors.primaryContainer,
+                  },
+                  !isSameMonth(dateKey, anchor) && styles.outsideMonth,
+                ]}
+              >
+                <Text
+                  variant="bodySmall"
+                  style={
+                    dateKey === todayKey()
+                      ? { color: theme.colors.primary, fontWeight: "bold" }
+                      : undefined
+                  }
+                >
+                  {Number(dateKey.slice(8))}
+                </Text>
+                {count > 0 && (
+                  <View
+                    style={[
+                      styles.countBadge,
+                      { backgroundColor: theme.colors.primary },
+                    ]}
+                  >
+                    <Text variant="labelSmall" style={styles.countText}>
+                      {count}
+                    </Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+
+      {/* Selected day; drag its workouts up onto the grid */}
+      <View
+        style={[
+          styles.dayRow,
+          styles.selectedDay,
+          { borderColor: theme.colors.outlineVariant },
+          holdsDragged(selectedDay) && styles.raised,
+        ]}
+      >
+        {renderDayHeader(selectedDay)}
+        {(byDate.get(selectedDay) ?? []).map(renderWorkout)}
+        {!byDate.has(selectedDay) && (
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            Nothing scheduled
+          </Text>
+        )}
+      </View>
+    </>
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.headerText}>
+            <Text variant="headlineMedium" style={styles.headerTitle}>
+              Calendar
+            </Text>
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Hold a workout to drag it to another day
+            </Text>
+          </View>
+          {(isSaving || shiftProgram.isPending) && (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          )}
+          <TouchableOpacity
+            onPress={() => setShowShift(true)}
+            style={styles.iconButton}
+            accessibilityLabel="Shift program"
+          >
+            <CalendarClock size={22} color={theme.colors.onSurface} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <SyncStatusBanner />
+
+      {swapFrom && (
+        <View
+          style={[
+            styles.swapBanner,
+            { backgroundColor: theme.colors.primaryContainer },
+          ]}
+        >
+          <Text
+            variant="bodySmall"
+            style={[
+              styles.swapText,
+              { color: theme.colors.onPrimaryContainer },
+            ]}
+          >
+            Tap a day to swap with{" "}
+            {formatDay(swapFrom, { weekday: "short", day: "numeric" })}
+          </Text>
+          <TouchableOpacity onPress={() => setSwapFrom(null)}>
+            <X size={18} color={theme.colors.onPrimaryContainer} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        scrollEnabled={!draggingId}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        {programs.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filters}
+          >
+            <Chip
+              selected={!programFilter}
+              onPress={() => setProgramFilter(null)}
+              compact
+            >
+              All programs
+            </Chip>
+            {programs.map((program) => (
+              <Chip
+                key={program.id}
+                selected={programFilter === program.id}
+                onPress={() => setProgramFilter(program.id)}
+                compact
+              >
+                {program.name}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+
+        <SegmentedButtons
+          value={mode}
+          onValueChange={(value) => setMode(value as ViewMode)}
+          buttons={[
+            { value: "week", label: "Week" },
+            { value: "month", label: "Month" },
+          ]}
+          style={styles.modeToggle}
+        />
+
+        <View style={styles.periodNav}>
+          <TouchableOpacity onPress={() => step(-1)} style={styles.iconButton}>
+            <ChevronLeft size={22} color={theme.colors.onSurface} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={goToToday}>
+            <Text variant="titleMedium" style={styles.periodLabel}>
+              {periodLabel}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => step(1)} style={styles.iconButton}>
+            <ChevronRight size={22} color={theme.colors.onSurface} />
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : error ? (
+          <Text
+            variant="bodyMedium"
+            style={[styles.message, { color: theme.colors.error }]}
+          >
+            {error}
+          </Text>
+        ) : mode === "week" ? (
+          renderWeek()
+        ) : (
+          renderMonth()
+        )}
+      </ScrollView>
+
+      <ShiftProgramModal
+        visible={showShift}
+        programs={
+          programFilter
+            ? programs.filter((program) => program.id === programFilter)
+            : programs
+        }
+        programId={programFilter}
+        fromDate={selectedDay}
+        countFor={shiftCount}
+        isSaving={shiftProgram.isPending}
+        onDismiss={() => setShowShift(false)}
+        onConfirm={handleShift}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontWeight: "bold",
+  },
+  iconButton: {
+    padding: 4,
+  },
+  swapBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+  },
+  swapText: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  filters: {
+    gap: 6,
+    paddingBottom: 12,
+  },
+  modeToggle: {
+    marginBottom: 12,
+  },
+  periodNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  periodLabel: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  message: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  dayRow: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+  },
+  raised: {
+    zIndex: 10,
+    elevation: 10,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  dayLabel: {
+    fontWeight: "600",
+  },
+  weekdayRow: {
+    flexDirection: "row",
+    marginBottom: 4,
+  },
+  weekday: {
+    flex: 1,
+    textAlign: "center",
+  },
+  gridRow: {
+    flexDirection: "row",
+  },
+  gridCell: {
+    flex: 1,
+    aspectRatio: 1,
+    borderWidth: StyleSheet.hairlineWidth,
+    alignItems: "center",
+    paddingTop: 4,
+  },
+  outsideMonth: {
+    opacity: 0.4,
+  },
+  countBadge: {
+    marginTop: 4,
+    minWidth: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: "center",
+  },
+  countText: {
+    color: "#ffffff",
+  },
+  selectedDay: {
+    marginTop: 12,
+  },
+});
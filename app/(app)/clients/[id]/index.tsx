@@ -0,0 +1,511 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  Check,
+  Circle,
+  Edit2,
+  FileText,
+  ShieldAlert,
+  Trash2,
+  TrendingUp,
+  Users,
+} from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  IconButton,
+  ProgressBar,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { EditClientModal } from "@/components/clients/EditClientModal";
+import { useClassRoster } from "@/hooks/useClassRoster";
+import { useClientOverview } from "@/hooks/useClientOverview";
+import {
+  useClient,
+  useClientRestrictions,
+  useDeleteClient,
+} from "@/hooks/useClients";
+import { formatAdherence } from "@/lib/clients/adherence";
+import { memberName } from "@/lib/clients/classRoster";
+import {
+  activeRestrictions,
+  restrictionTitle,
+} from "@/lib/clients/restrictions";
+import {
+  formatMetricValue,
+  PROFILE_METRICS,
+  profileFromEntity,
+} from "@/lib/clients/strengthProfile";
+
+const formatDate = (value?: string | null) => {
+  if (!value) return "";
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export default function ClientDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { data: client, isLoading: clientLoading, error } = useClient(id);
+  const { restrictions } = useClientRestrictions(id);
+  const {
+    programs,
+    overall,
+    recentWorkouts,
+    isLoading: overviewLoading,
+    refetch,
+  } = useClientOverview(id);
+  const isClass = client?.type === "CLASS";
+  const { data: members = [] } = useClassRoster(isClass ? id : "");
+  const deleteClient = useDeleteClient();
+  const [showEdit, setShowEdit] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const profile = useMemo(
+    () => (client ? profileFromEntity(client) : null),
+    [client],
+  );
+  const currentRestrictions = activeRestrictions(restrictions);
+  const profileMetrics = PROFILE_METRICS.filter(
+    ({ metric }) => profile?.[metric] != null,
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const handleDelete = () => {
+    if (!client) return;
+    Alert.alert(
+      `Delete ${client.type === "CLASS" ? "Class" : "Client"}`,
+      `Delete ${client.name}? Their programs will no longer be listed.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteClient.mutateAsync(client.id);
+              router.back();
+            } catch (err: unknown) {
+              const errorMessage =
+                err instanceof Error ? err.message : "Failed to delete client";
+              console.error("[ClientDetail] Error deleting client:", err);
+              Alert.alert("Error", errorMessage);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (clientLoading) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+      >
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !client) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+          >
+            <ArrowLeft size={24} color={theme.colors.onSurface} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.loadingContainer}>
+          <Text variant="headlineSmall" style={styles.errorTitle}>
+            Client Not Found
+          </Text>
+          <Text variant="bodyMedium" style={styles.mutedText}>
+            {error instanceof Error
+              ? error.message
+              : "This client may have been deleted."}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <Text variant="titleLarge" style={styles.headerTitle} numberOfLines={1}>
+          {client.name}
+        </Text>
+        <IconButton
+          icon={() => <Edit2 size={20} color={theme.colors.onSurface} />}
+          onPress={() => setShowEdit(true)}
+          size={20}
+        />
+        <IconButton
+          icon={() => <Trash2 size={20} color={theme.colors.error} />}
+          onPress={handleDelete}
+          disabled={deleteClient.isPending}
+          size={20}
+        />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        {/* Profile */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.cardContent}>
+            <View style={styles.rowBetween}>
+              <Chip compact mode="flat">
+                {client.type === "CLASS" ? "Class" : "Client"}
+              </Chip>
+              <Text variant="bodySmall" style={styles.mutedText}>
+                Since {new Date(client.created_at).getFullYear()}
+              </Text>
+            </View>
+
+            {isClass ? (
+              <Text variant="bodyMedium" style={styles.mutedText}>
+                {members.length > 0
+                  ? `${members.length} member${members.length === 1 ? "" : "s"}: ${members.map(memberName).join(", ")}`
+                  : "No members on the roster yet."}
+              </Text>
+            ) : profileMetrics.length > 0 ? (
+              <View style={styles.metricGrid}>
+                {profileMetrics.map(({ metric, label }) => (
+                  <View key={metric} style={styles.metric}>
+                    <Text variant="labelSmall" style={styles.mutedText}>
+                      {label}
+                    </Text>
+                    <Text variant="titleMedium" style={styles.metricValue}>
+                      {formatMetricValue(metric, profile?.[metric] as number)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <Text variant="bodyMedium" style={styles.mutedText}>
+                No profile metrics recorded yet.
+              </Text>
+            )}
+
+            {currentRestrictions.length > 0 && (
+              <View style={styles.restrictionRow}>
+                <ShieldAlert size={16} color={theme.colors.error} />
+                <Text
+                  variant="bodySmall"
+                  style={[styles.flex, { color: theme.colors.error }]}
+                >
+                  {currentRestrictions.map(restrictionTitle).join(", ")}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.profileActions}>
+              {isClass ? (
+                <Button
+                  mode="contained-tonal"
+                  compact
+                  onPress={() => router.push(`/(app)/clients/${id}/roster`)}
+                  icon={() => <Users size={16} color={theme.colors.primary} />}
+                  style={styles.flex}
+                >
+                  Roster
+                </Button>
+              ) : (
+                <Button
+                  mode="contained-tonal"
+                  compact
+                  onPress={() => router.push(`/(app)/clients/${id}/profile`)}
+                  icon={() => (
+                    <TrendingUp size={16} color={theme.colors.primary} />
+                  )}
+                  style={styles.flex}
+                >
+                  Profile
+                </Button>
+              )}
+              <Button
+                mode="contained-tonal"
+                compact
+                onPress={() => router.push(`/(app)/clients/${id}/restrictions`)}
+                icon={() => (
+                  <ShieldAlert size={16} color={theme.colors.primary} />
+                )}
+                style={styles.flex}
+              >
+                Restrictions
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Adherence */}
+        <Card style={styles.card}>
+          <Card.Title title="Adherence" />
+          <Card.Content style={styles.cardContent}>
+            <Text variant="headlineSmall" style={styles.metricValue}>
+              {overall.rate === null
+                ? "—"
+                : `${Math.round(overall.rate * 100)}%`}
+            </Text>
+            <Text variant="bodySmall" style={styles.mutedText}>
+              {overall.due > 0
+                ? `${overall.completedDue} of ${overall.due} workouts due so far completed`
+                : "No workouts due yet"}
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Programs */}
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Programs
+        </Text>
+        {overviewLoading ? (
+          <ActivityIndicator style={styles.sectionLoading} />
+        ) : programs.length === 0 ? (
+          <Card style={styles.card}>
+            <Card.Content style={styles.emptyContent}>
+              <FileText size={32} color={theme.colors.outline} />
+              <Text variant="bodyMedium" style={styles.mutedText}>
+                No programs for {client.name} yet.
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          programs.map((program) => (
+            <TouchableOpacity
+              key={program.id}
+              onPress={() => router.push(`/(app)/programs/${program.id}`)}
+              activeOpacity={0.7}
+            >
+              <Card style={styles.card} mode="outlined">
+                <Card.Content style={styles.cardContent}>
+                  <View style={styles.rowBetween}>
+                    <Text
+                      variant="titleMedium"
+                      style={[styles.flex, styles.metricValue]}
+                      numberOfLines={1}
+                    >
+                      {program.name}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.mutedText}>
+                      {program.adherence.completed}/{program.adherence.total}{" "}
+                      done
+                    </Text>
+                  </View>
+                  <ProgressBar
+                    progress={program.adherence.rate ?? 0}
+                    color={theme.colors.primary}
+                    style={styles.progress}
+                  />
+                  <Text variant="bodySmall" style={styles.mutedText}>
+                    {formatAdherence(program.adherence)}
+                  </Text>
+                </Card.Content>
+              </Card>
+            </TouchableOpacity>
+          ))
+        )}
+
+        {/* Recent Workouts */}
+        {recentWorkouts.length > 0 && (
+          <>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Recent Workouts
+            </Text>
+            <Card style={styles.card}>
+              <Card.Content>
+                {recentWorkouts.map((workout) => (
+                  <TouchableOpacity
+                    key={workout.id}
+                    onPress={() =>
+                      router.push(
+                        `/programs/${workout.program_id}/workout/${workout.id}`,
+                      )
+                    }
+                    style={styles.workoutRow}
+                  >
+                    {workout.completed ? (
+                      <Check size={18} color={theme.colors.primary} />
+                    ) : (
+                      <Circle size={18} color={theme.colors.outline} />
+                    )}
+                    <View style={styles.flex}>
+                      <Text variant="bodyMedium" numberOfLines={1}>
+                        {workout.title || "Workout"}
+                      </Text>
+                      {workout.program_name && (
+                        <Text
+                          variant="bodySmall"
+                          numberOfLines={1}
+                          style={styles.mutedText}
+                        >
+                          {workout.program_name}
+                        </Text>
+                      )}
+                    </View>
+                    <Text variant="bodySmall" style={styles.mutedText}>
+                      {formatDate(workout.scheduled_date)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </Card.Content>
+            </Card>
+          </>
+        )}
+      </ScrollView>
+
+      <EditClientModal
+        visible={showEdit}
+        client={client}
+        onClose={() => setShowEdit(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    gap: 12,
+  },
+  errorTitle: {
+    fontWeight: "bold",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  cardContent: {
+    gap: 8,
+  },
+  rowBetween: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  mutedText: {
+    opacity: 0.7,
+  },
+  metricGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    rowGap: 8,
+  },
+  metric: {
+    width: "50%",
+  },
+  metricValue: {
+    fontWeight: "600",
+  },
+  restrictionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  profileActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionLoading: {
+    marginVertical: 16,
+  },
+  emptyContent: {
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  progress: {
+    height: 6,
+    borderRadius: 3,
+  },
+  workoutRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+});
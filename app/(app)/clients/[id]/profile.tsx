@@ -0,0 +1,409 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft, ShieldAlert } from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  HelperText,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  useClient,
+  useMetricHistory,
+  useSaveStrengthProfile,
+} from "@/hooks/useClients";
+import {
+  formatMetricValue,
+  formatMileTime,
+  type MetricHistoryEntry,
+  PROFILE_METRICS,
+  type ProfileMetric,
+  parseMileTime,
+  profileFromEntity,
+  type StrengthProfile,
+} from "@/lib/clients/strengthProfile";
+
+const HISTORY_LIMIT = 5;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const toText = (metric: ProfileMetric, value: number | null) => {
+  if (value === null) return "";
+  return metric === "mile_time" ? formatMileTime(value) : String(value);
+};
+
+// Returns undefined when the text can't be read as the metric
+function parseMetric(
+  metric: ProfileMetric,
+  text: string,
+): number | null | undefined {
+  if (!text.trim()) return null;
+  if (metric === "mile_time") return parseMileTime(text) ?? undefined;
+
+  const value = Number(text.replace(",", "."));
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  const definition = PROFILE_METRICS.find((item) => item.metric === metric);
+  return definition?.integer ? Math.round(value) : value;
+}
+
+function ProfileForm({
+  clientId,
+  profile,
+}: {
+  clientId: string;
+  profile: StrengthProfile;
+}) {
+  const theme = useTheme();
+  const saveProfile = useSaveStrengthProfile(clientId);
+  const [texts, setTexts] = useState<Record<ProfileMetric, string>>(() => {
+    const initial = {} as Record<ProfileMetric, string>;
+    for (const { metric } of PROFILE_METRICS) {
+      initial[metric] = toText(metric, profile[metric]);
+    }
+    return initial;
+  });
+
+  const parsed = useMemo(() => {
+    const values = { ...profile };
+    const invalid: ProfileMetric[] = [];
+    for (const { metric } of PROFILE_METRICS) {
+      const value = parseMetric(metric, texts[metric]);
+      if (value === undefined) invalid.push(metric);
+      else values[metric] = value;
+    }
+    return { values, invalid };
+  }, [texts, profile]);
+
+  const isDirty = PROFILE_METRICS.some(
+    ({ metric }) => parsed.values[metric] !== profile[metric],
+  );
+
+  const handleSave = async () => {
+    try {
+      await saveProfile.mutateAsync({ previous: profile, next: parsed.values });
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save profile";
+      console.error("[ClientProfile] Error saving profile:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const renderField = (metric: ProfileMetric) => {
+    const definition = PROFILE_METRICS.find((item) => item.metric === metric);
+    if (!definition) return null;
+    const invalid = parsed.invalid.includes(metric);
+
+    return (
+      <View key={metric} style={styles.field}>
+        <TextInput
+          label={`${definition.label} (${definition.unit})`}
+          value={texts[metric]}
+          onChangeText={(text) =>
+            setTexts((prev) => ({ ...prev, [metric]: text }))
+          }
+          keyboardType={
+            metric === "mile_time" ? "numbers-and-punctuation" : "decimal-pad"
+          }
+          mode="outlined"
+          dense
+          error={invalid}
+        />
+        {invalid && (
+          <HelperText type="error" visible>
+            {metric === "mile_time"
+              ? "Enter a time like 7:30"
+              : "Enter a positive number"}
+          </HelperText>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Card style={styles.card}>
+        <Card.Title title="Strength" />
+        <Card.Content>
+          {PROFILE_METRICS.filter((item) => item.isLift).map((item) =>
+            renderField(item.metric),
+          )}
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            Used to turn percentage loads like "5x3 @ 80%" into weights.
+          </Text>
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.card}>
+        <Card.Title title="Conditioning & Body" />
+        <Card.Content>
+          {PROFILE_METRICS.filter((item) => !item.isLift).map((item) =>
+            renderField(item.metric),
+          )}
+        </Card.Content>
+      </Card>
+
+      <Button
+        mode="contained"
+        onPress={handleSave}
+        loading={saveProfile.isPending}
+        disabled={
+          saveProfile.isPending || !isDirty || parsed.invalid.length > 0
+        }
+        style={styles.saveButton}
+      >
+        Save Profile
+      </Button>
+    </>
+  );
+}
+
+function MetricHistory({ entries }: { entries: MetricHistoryEntry[] }) {
+  const theme = useTheme();
+
+  const byMetric = PROFILE_METRICS.map((definition) => ({
+    definition,
+    // Newest first, as listed
+    entries: entries.filter((entry) => entry.metric === definition.metric),
+  })).filter((group) => group.entries.length > 0);
+
+  if (byMetric.length === 0) {
+    return (
+      <Text
+        variant="bodyMedium"
+        style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+      >
+        No history yet. Saved changes are recorded here.
+      </Text>
+    );
+  }
+
+  return (
+    <>
+      {byMetric.map(({ definition, entries: metricEntries }) => (
+        <View key={definition.metric} style={styles.historyGroup}>
+          <Text variant="titleSmall" style={styles.historyTitle}>
+            {definition.label}
+          </Text>
+          {metricEntries.slice(0, HISTORY_LIMIT).map((entry, index) => {
+            const previous = metricEntries[index + 1];
+            const change = previous ? entry.value - previous.value : null;
+            return (
+              <View key={entry.id} style={styles.historyRow}>
+                <Text variant="bodyMedium">
+                  {formatMetricValue(entry.metric, entry.value)}
+                </Text>
+                {/* Mile time changes read better as the times themselves */}
+                {change !== null &&
+                  change !== 0 &&
+                  entry.metric !== "mile_time" && (
+                    <Text
+                      variant="bodySmall"
+                      style={{ color: theme.colors.onSurfaceVariant }}
+                    >
+                      {change > 0 ? "+" : ""}
+                      {Number(change.toFixed(1))}
+                    </Text>
+                  )}
+                <Text
+                  variant="bodySmall"
+                  style={[
+                    styles.historyDate,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                >
+                  {formatDate(entry.recorded_at)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </>
+  );
+}
+
+export default function ClientProfileScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { data: client, isLoading, error } = useClient(id);
+  const { data: history = [] } = useMetricHistory(id);
+
+  const profile = useMemo(
+    () => (client ? profileFromEntity(client) : null),
+    [client],
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text variant="titleLarge" style={styles.headerTitle}>
+            Profile
+          </Text>
+          {client && (
+            <Text
+              variant="bodySmall"
+              numberOfLines={1}
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              {client.name}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : error || !client || !profile ? (
+        <View style={styles.loadingContainer}>
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            {error instanceof Error ? error.message : "Client not found"}
+          </Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          style={styles.content}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Button
+              mode="contained-tonal"
+              onPress={() =>
+                router.push(`/(app)/clients/${client.id}/restrictions`)
+              }
+              icon={() => (
+                <ShieldAlert size={18} color={theme.colors.primary} />
+              )}
+              style={styles.restrictionsButton}
+            >
+              Injuries & Restrictions
+            </Button>
+
+            <ProfileForm
+              // Start over from the saved values after each save
+              key={client.updated_at}
+              clientId={client.id}
+              profile={profile}
+            />
+
+            <Card style={styles.card}>
+              <Card.Title title="History" />
+              <Card.Content>
+                <MetricHistory entries={history} />
+              </Card.Content>
+            </Card>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  headerTitle: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  field: {
+    marginBottom: 8,
+  },
+  saveButton: {
+    marginBottom: 16,
+  },
+  restrictionsButton: {
+    marginBottom: 16,
+  },
+  emptyText: {
+    opacity: 0.7,
+    textAlign: "center",
+  },
+  historyGroup: {
+    marginBottom: 12,
+  },
+  historyTitle: {
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+    paddingVertical: 2,
+  },
+  historyDate: {
+    marginLeft: "auto",
+  },
+});
@@ -0,0 +1,318 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft, Plus, ShieldAlert } from "lucide-react-native";
+import { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { RestrictionModal } from "@/components/clients/RestrictionModal";
+import {
+  useClient,
+  useClientRestrictions,
+  useSaveRestrictions,
+} from "@/hooks/useClients";
+import {
+  activeRestrictions,
+  type ClientRestriction,
+  newRestriction,
+  restrictionTitle,
+  SEVERITY_LABELS,
+} from "@/lib/clients/restrictions";
+import { toDateKey } from "@/lib/generation/programSlots";
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function ClientRestrictionsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { data: client } = useClient(id);
+  const { restrictions, isLoading } = useClientRestrictions(id);
+  const saveRestrictions = useSaveRestrictions(id);
+  const [editing, setEditing] = useState<{
+    restriction: ClientRestriction;
+    isNew: boolean;
+  } | null>(null);
+
+  const todayKey = toDateKey(new Date().toISOString()) ?? "";
+  const activeIds = new Set(
+    activeRestrictions(restrictions).map((item) => item.id),
+  );
+  // Current restrictions first, then past ones, newest first within each
+  const sorted = [...restrictions].sort((a, b) => {
+    const byActive = Number(activeIds.has(b.id)) - Number(activeIds.has(a.id));
+    return byActive || (b.start_date ?? "").localeCompare(a.start_date ?? "");
+  });
+
+  const save = async (next: ClientRestriction[]) => {
+    try {
+      await saveRestrictions.mutateAsync(next);
+      setEditing(null);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save restrictions";
+      console.error("[ClientRestrictions] Error saving restrictions:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const handleSave = (restriction: ClientRestriction) =>
+    save(
+      editing?.isNew
+        ? [...restrictions, restriction]
+        : restrictions.map((item) =>
+            item.id === restriction.id ? restriction : item,
+          ),
+    );
+
+  const handleDelete = (restriction: ClientRestriction) => {
+    Alert.alert(
+      "Delete Restriction",
+      `Remove ${restrictionTitle(restriction).toLowerCase()} from this profile?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () =>
+            save(restrictions.filter((item) => item.id !== restriction.id)),
+        },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text variant="titleLarge" style={styles.headerTitle}>
+            Injuries & Restrictions
+          </Text>
+          {client && (
+            <Text
+              variant="bodySmall"
+              numberOfLines={1}
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              {client.name}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text
+            variant="bodySmall"
+            style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Current restrictions are sent with every generation and enhancement,
+            and workouts with movements to avoid are flagged.
+          </Text>
+
+          {sorted.length === 0 ? (
+            <Card style={styles.card}>
+              <Card.Content style={styles.emptyContent}>
+                <ShieldAlert size={40} color={theme.colors.outline} />
+                <Text
+                  variant="bodyMedium"
+                  style={[
+                    styles.emptyText,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                >
+                  No injuries or restrictions recorded.
+                </Text>
+              </Card.Content>
+            </Card>
+          ) : (
+            sorted.map((restriction) => {
+              const isActive = activeIds.has(restriction.id);
+              return (
+                <TouchableOpacity
+                  key={restriction.id}
+                  onPress={() => setEditing({ restriction, isNew: false })}
+                  activeOpacity={0.7}
+                >
+                  <Card
+                    style={[styles.card, !isActive && styles.inactiveCard]}
+                    mode="outlined"
+                  >
+                    <Card.Content style={styles.cardContent}>
+                      <View style={styles.cardHeader}>
+                        <Text variant="titleMedium" style={styles.cardTitle}>
+                          {restrictionTitle(restriction)}
+                        </Text>
+                        <Chip
+                          compact
+                          mode="flat"
+                          style={
+                            restriction.severity === "severe"
+                              ? { backgroundColor: theme.colors.errorContainer }
+                              : undefined
+                          }
+                        >
+                          {SEVERITY_LABELS[restriction.severity]}
+                        </Chip>
+                      </View>
+                      {restriction.description ? (
+                        <Text variant="bodyMedium">
+                          {restriction.description}
+                        </Text>
+                      ) : null}
+                      <Text
+                        variant="bodySmall"
+                        style={{ color: theme.colors.onSurfaceVariant }}
+                      >
+                        {restriction.start_date
+                          ? `Since ${formatDate(restriction.start_date)}`
+                          : "No start date"}
+                        {restriction.end_date
+                          ? ` • ${restriction.end_date < todayKey ? "Ended" : "Until"} ${formatDate(restriction.end_date)}`
+                          : " • Ongoing"}
+                      </Text>
+                      {restriction.avoid_movements.length > 0 && (
+                        <View style={styles.avoidRow}>
+                          {restriction.avoid_movements.map((movement) => (
+                            <Chip key={movement} compact mode="outlined">
+                              {movement}
+                            </Chip>
+                          ))}
+                        </View>
+                      )}
+                    </Card.Content>
+                  </Card>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <Button
+            mode="contained"
+            onPress={() =>
+              setEditing({ restriction: newRestriction(), isNew: true })
+            }
+            icon={() => <Plus size={18} color={theme.colors.onPrimary} />}
+            style={styles.addButton}
+          >
+            Add Restriction
+          </Button>
+        </ScrollView>
+      )}
+
+      <RestrictionModal
+        visible={!!editing}
+        restriction={editing?.restriction ?? null}
+        isNew={editing?.isNew ?? false}
+        isSaving={saveRestrictions.isPending}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  headerTitle: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  cardContent: {
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  avoidRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  emptyContent: {
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 16,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  addButton: {
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,324 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft, Plus, Trash2, UserPlus, Users } from "lucide-react-native";
+import { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  IconButton,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { AddClientModal } from "@/components/dashboard/AddClientModal";
+import {
+  type ClassMember,
+  useAddClassMember,
+  useClassRoster,
+  useRemoveClassMember,
+  useUpdateClassMember,
+} from "@/hooks/useClassRoster";
+import { useClient, useClients } from "@/hooks/useClients";
+import { memberName } from "@/lib/clients/classRoster";
+import { SCALING_TIERS, type ScalingTier } from "@/lib/workouts/scalingTiers";
+
+// New members start in the middle tier until the coach knows better
+const DEFAULT_TIER: ScalingTier = "intermediate";
+
+export default function ClassRosterScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { data: classEntity } = useClient(id);
+  const { data: clients = [] } = useClients();
+  const { data: members = [], isLoading } = useClassRoster(id);
+  const addMember = useAddClassMember(id);
+  const updateMember = useUpdateClassMember(id);
+  const removeMember = useRemoveClassMember(id);
+  const [showAddClient, setShowAddClient] = useState(false);
+
+  const memberIds = new Set(members.map((member) => member.member_id));
+  const available = clients
+    .filter((client) => client.type === "CLIENT" && !memberIds.has(client.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleAdd = async (memberId: string) => {
+    try {
+      await addMember.mutateAsync({ memberId, defaultTier: DEFAULT_TIER });
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to add member";
+      console.error("[ClassRoster] Error adding member:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const handleTierChange = async (member: ClassMember, tier: ScalingTier) => {
+    try {
+      await updateMember.mutateAsync({ id: member.id, defaultTier: tier });
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to update tier";
+      console.error("[ClassRoster] Error updating tier:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const handleRemove = (member: ClassMember) => {
+    Alert.alert(
+      "Remove Member",
+      `Remove ${memberName(member)} from this class? Their results are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await removeMember.mutateAsync(member.id);
+            } catch (err: unknown) {
+              const errorMessage =
+                err instanceof Error ? err.message : "Failed to remove member";
+              console.error("[ClassRoster] Error removing member:", err);
+              Alert.alert("Error", errorMessage);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text variant="titleLarge" style={styles.headerTitle}>
+            Roster
+          </Text>
+          {classEntity && (
+            <Text
+              variant="bodySmall"
+              numberOfLines={1}
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              {classEntity.name} • {members.length} member
+              {members.length === 1 ? "" : "s"}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text
+            variant="bodySmall"
+            style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Each member's tier is preselected when you record their result in a
+            class session.
+          </Text>
+
+          {members.length === 0 ? (
+            <Card style={styles.card}>
+              <Card.Content style={styles.emptyContent}>
+                <Users size={40} color={theme.colors.outline} />
+                <Text
+                  variant="bodyMedium"
+                  style={[
+                    styles.emptyText,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                >
+                  No members yet. Add clients below.
+                </Text>
+              </Card.Content>
+            </Card>
+          ) : (
+            members.map((member) => (
+              <Card key={member.id} style={styles.card} mode="outlined">
+                <Card.Content style={styles.cardContent}>
+                  <View style={styles.cardHeader}>
+                    <TouchableOpacity
+                      style={styles.memberName}
+                      onPress={() =>
+                        router.push(`/(app)/clients/${member.member_id}`)
+                      }
+                    >
+                      <Text variant="titleMedium" style={styles.cardTitle}>
+                        {memberName(member)}
+                      </Text>
+                    </TouchableOpacity>
+                    <IconButton
+                      icon={() => (
+                        <Trash2 size={18} color={theme.colors.error} />
+                      )}
+                      onPress={() => handleRemove(member)}
+                      size={18}
+                    />
+                  </View>
+                  <SegmentedButtons
+                    value={member.default_tier}
+                    onValueChange={(value) =>
+                      handleTierChange(member, value as ScalingTier)
+                    }
+                    buttons={SCALING_TIERS.map(({ tier, label }) => ({
+                      value: tier,
+                      label,
+                    }))}
+                    density="small"
+                  />
+                </Card.Content>
+              </Card>
+            ))
+          )}
+
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Add Members
+          </Text>
+          {available.length > 0 ? (
+            <Card style={styles.card}>
+              <Card.Content>
+                {available.map((client) => (
+                  <View key={client.id} style={styles.availableRow}>
+                    <Text variant="bodyLarge" style={styles.memberName}>
+                      {client.name}
+                    </Text>
+                    <IconButton
+                      icon={() => (
+                        <UserPlus size={18} color={theme.colors.primary} />
+                      )}
+                      onPress={() => handleAdd(client.id)}
+                      disabled={addMember.isPending}
+                      size={18}
+                    />
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          ) : (
+            <Text
+              variant="bodySmall"
+              style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+            >
+              Every client is already on this roster.
+            </Text>
+          )}
+
+          <Button
+            mode="contained"
+            onPress={() => setShowAddClient(true)}
+            icon={() => <Plus size={18} color={theme.colors.onPrimary} />}
+            style={styles.addButton}
+          >
+            New Client
+          </Button>
+        </ScrollView>
+      )}
+
+      <AddClientModal
+        visible={showAddClient}
+        onClose={() => setShowAddClient(false)}
+        onSuccess={(entity) => {
+          if (entity.type === "CLIENT") handleAdd(entity.id);
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  headerTitle: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  cardContent: {
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    fontWeight: "600",
+  },
+  memberName: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  availableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  emptyContent: {
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 16,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  addButton: {
+    marginTop: 4,
+  },
+});
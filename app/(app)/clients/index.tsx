@@ -0,0 +1,248 @@
+import { useRouter } from "expo-router";
+import { Plus, Users } from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Searchbar,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { AddClientModal } from "@/components/dashboard/AddClientModal";
+import { ClientCard } from "@/components/dashboard/ClientCard";
+import { useClients } from "@/hooks/useClients";
+import { usePrograms } from "@/hooks/usePrograms";
+import type { EntityType } from "@/lib/validations/program.schema";
+
+type TypeFilter = "ALL" | EntityType;
+
+export default function ClientsScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { data: clients, isLoading, refetch } = useClients();
+  const { data: programs } = usePrograms();
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("ALL");
+  const [showAddClient, setShowAddClient] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const filteredClients = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (clients ?? [])
+      .filter((client) => typeFilter === "ALL" || client.type === typeFilter)
+      .filter((client) => !query || client.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((client) => ({
+        ...client,
+        program_count: (programs ?? []).filter(
+          (program) => program.entity_id === client.id,
+        ).length,
+      }));
+  }, [clients, programs, search, typeFilter]);
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <View style={styles.headerContent}>
+          <View>
+            <Text variant="headlineMedium" style={styles.headerTitle}>
+              Clients
+            </Text>
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              {clients?.length || 0} clients and classes
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => setShowAddClient(true)}>
+            <View
+              style={[
+                styles.addButton,
+                { backgroundColor: theme.colors.primary },
+              ]}
+            >
+              <Plus size={20} color="#ffffff" />
+            </View>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        <View style={styles.content}>
+          <Searchbar
+            placeholder="Search by name"
+            value={search}
+            onChangeText={setSearch}
+            style={styles.searchbar}
+          />
+          <SegmentedButtons
+            value={typeFilter}
+            onValueChange={(value) => setTypeFilter(value as TypeFilter)}
+            buttons={[
+              { value: "ALL", label: "All" },
+              { value: "CLIENT", label: "Clients" },
+              { value: "CLASS", label: "Classes" },
+            ]}
+            style={styles.filter}
+          />
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={theme.colors.primary} />
+            </View>
+          ) : filteredClients.length > 0 ? (
+            filteredClients.map((client) => (
+              <ClientCard
+                key={client.id}
+                client={client}
+                onPress={() => router.push(`/(app)/clients/${client.id}`)}
+              />
+            ))
+          ) : clients && clients.length > 0 ? (
+            <Text
+              variant="bodyMedium"
+              style={[
+                styles.noMatches,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              No clients match your search.
+            </Text>
+          ) : (
+            <Card style={styles.card}>
+              <Card.Content style={styles.emptyStateContent}>
+                <Users size={64} color={theme.colors.outline} />
+                <Text variant="titleLarge" style={styles.emptyStateTitle}>
+                  No Clients Yet
+                </Text>
+                <Text
+                  variant="bodyMedium"
+                  style={[
+                    styles.emptyStateDescription,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                >
+                  Add the people and classes you coach to start building
+                  programs for them.
+                </Text>
+                <Button
+                  mode="contained"
+                  onPress={() => setShowAddClient(true)}
+                  icon={({ size, color }) => <Plus size={size} color={color} />}
+                  style={styles.createButton}
+                >
+                  Add Your First Client
+                </Button>
+              </Card.Content>
+            </Card>
+          )}
+        </View>
+      </ScrollView>
+
+      <AddClientModal
+        visible={showAddClient}
+        onClose={() => setShowAddClient(false)}
+        onSuccess={(entity) => router.push(`/(app)/clients/${entity.id}`)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerTitle: {
+    fontWeight: "bold",
+  },
+  addButton: {
+    padding: 12,
+    borderRadius: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+  },
+  content: {
+    paddingVertical: 16,
+  },
+  searchbar: {
+    marginBottom: 12,
+  },
+  filter: {
+    marginBottom: 16,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  noMatches: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  card: {
+    marginTop: 16,
+    backgroundColor: "white",
+  },
+  emptyStateContent: {
+    padding: 32,
+    alignItems: "center",
+  },
+  emptyStateTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  emptyStateDescription: {
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  createButton: {
+    width: "100%",
+  },
+});
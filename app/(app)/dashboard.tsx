@@ -1,5 +1,11 @@
 import { useRouter } from "expo-router";
-import { FileText, Sparkles, Users } from "lucide-react-native";
+import {
+  CalendarCheck,
+  CalendarDays,
+  FileText,
+  Sparkles,
+  Users,
+} from "lucide-react-native";
 import { useState } from "react";
 import {
   RefreshControl,
@@ -184,6 +190,59 @@ export default function DashboardScreen() {
               </Card.Content>
             </Card>
           </View>
+
+          {/* Opens the Today agenda */}
+          <TouchableOpacity onPress={() => router.push("/(app)/today")}>
+            <View style={[styles.statsContainer, styles.statsRow]}>
+              <Card style={[styles.card, styles.statCard]}>
+                <Card.Content>
+                  <View style={styles.statHeader}>
+                    <Text
+                      variant="labelMedium"
+                      style={{ color: theme.colors.onSurfaceVariant }}
+                    >
+                      Today
+                    </Text>
+                    <View
+                      style={[
+                        styles.miniIcon,
+                        { backgroundColor: theme.colors.tertiaryContainer },
+                      ]}
+                    >
+                      <CalendarCheck size={16} color={theme.colors.tertiary} />
+                    </View>
+                  </View>
+                  <Text variant="headlineMedium" style={styles.statValue}>
+                    {stats.activeWorkouts}
+                  </Text>
+                </Card.Content>
+              </Card>
+
+              <Card style={[styles.card, styles.statCard]}>
+                <Card.Content>
+                  <View style={styles.statHeader}>
+                    <Text
+                      variant="labelMedium"
+                      style={{ color: theme.colors.onSurfaceVariant }}
+                    >
+                      Next 7 Days
+                    </Text>
+                    <View
+                      style={[
+                        styles.miniIcon,
+                        { backgroundColor: theme.colors.primaryContainer },
+                      ]}
+                    >
+                      <CalendarDays size={16} color={theme.colors.primary} />
+                    </View>
+                  </View>
+                  <Text variant="headlineMedium" style={styles.statValue}>
+                    {stats.upcomingWorkouts}
+                  </Text>
+                </Card.Content>
+              </Card>
+            </View>
+          </TouchableOpacity>
         </View>
 
         {/* Recent Programs */}
@@ -262,7 +321,11 @@ export default function DashboardScreen() {
             </View>
           ) : recentClients.length > 0 ? (
             recentClients.map((client) => (
-              <ClientCard key={client.id} client={client} />
+              <ClientCard
+                key={client.id}
+                client={client}
+                onPress={() => router.push(`/(app)/clients/${client.id}`)}
+              />
             ))
           ) : (
             <Card style={styles.card}>
@@ -361,6 +424,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 12,
   },
+  statsRow: {
+    marginTop: 12,
+  },
   statCard: {
     flex: 1,
   },
@@ -0,0 +1,269 @@
+import { useRouter } from "expo-router";
+import { ArrowLeft } from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Share,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Card, Chip, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useNetworkLog } from "@/hooks/useNetworkLog";
+import {
+  clearNetworkLog,
+  exportNetworkLog,
+  type NetworkLogEntry,
+  type NetworkLogKind,
+} from "@/lib/debug/networkLog";
+
+const kindLabels: Record<NetworkLogKind, string> = {
+  request: "REQ",
+  response: "RES",
+  error: "ERR",
+  sse: "SSE",
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+// Host is the same for every entry; the path is what tells them apart
+const toPath = (url: string) => url.replace(/^[a-z]+:\/\/[^/]+/i, "");
+
+export default function DebugScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const entries = useNetworkLog();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const newestFirst = useMemo(() => [...entries].reverse(), [entries]);
+
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        title: "HalteresAI network log",
+        message: exportNetworkLog(),
+      });
+    } catch (err) {
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Failed to export log",
+      );
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert("Clear Log", "Remove all recorded requests?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: () => {
+          setExpandedId(null);
+          clearNetworkLog();
+        },
+      },
+    ]);
+  };
+
+  const kindColor = (entry: NetworkLogEntry) => {
+    if (entry.kind === "error" || (entry.status ?? 0) >= 400) {
+      return theme.colors.error;
+    }
+    if (entry.kind === "sse") return theme.colors.tertiary;
+    return theme.colors.primary;
+  };
+
+  const renderEntry = ({ item }: { item: NetworkLogEntry }) => {
+    const isExpanded = expandedId === item.id;
+    return (
+      <Card
+        mode="outlined"
+        style={styles.entryCard}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+      >
+        <Card.Content>
+          <View style={styles.entryHeader}>
+            <Text
+              variant="labelMedium"
+              style={[styles.kind, { color: kindColor(item) }]}
+            >
+              {kindLabels[item.kind]}
+            </Text>
+            <Text variant="bodyMedium" style={styles.path} numberOfLines={1}>
+              {item.method} {toPath(item.url)}
+            </Text>
+            <Text variant="bodySmall" style={styles.muted}>
+              {formatTime(item.timestamp)}
+            </Text>
+          </View>
+
+          <Text variant="bodySmall" style={styles.muted}>
+            {[
+              item.status !== undefined && `Status ${item.status}`,
+              item.durationMs !== undefined && `${item.durationMs}ms`,
+              item.eventId && `Event ${item.eventId}`,
+              item.message,
+            ]
+              .filter(Boolean)
+              .join(" • ")}
+          </Text>
+
+          {isExpanded && item.detail !== undefined && (
+            <Text
+              variant="bodySmall"
+              selectable
+              style={[
+                styles.detail,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+            >
+              {JSON.stringify(item.detail, null, 2)}
+            </Text>
+          )}
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <Text variant="headlineSmall" style={styles.headerTitle}>
+          Network Log
+        </Text>
+        <Chip compact>{entries.length}</Chip>
+      </View>
+
+      <View style={styles.actions}>
+        <Button
+          mode="contained"
+          icon="share-variant"
+          onPress={handleExport}
+          disabled={entries.length === 0}
+          style={styles.actionButton}
+        >
+          Export
+        </Button>
+        <Button
+          mode="outlined"
+          onPress={handleClear}
+          disabled={entries.length === 0}
+          style={styles.actionButton}
+        >
+          Clear
+        </Button>
+      </View>
+
+      <FlatList
+        data={newestFirst}
+        keyExtractor={(item) => String(item.id)}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Text variant="bodyLarge" style={styles.emptyText}>
+              No requests recorded
+            </Text>
+            <Text variant="bodySmall" style={styles.emptySubtext}>
+              API calls and generation streams show up here, with tokens and
+              client details redacted
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+    marginLeft: -4,
+  },
+  headerTitle: {
+    fontWeight: "bold",
+    flex: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+  },
+  entryCard: {
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 2,
+  },
+  kind: {
+    fontWeight: "bold",
+    width: 32,
+  },
+  path: {
+    flex: 1,
+    fontWeight: "500",
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  detail: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    fontFamily: "monospace",
+  },
+  centered: {
+    padding: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    opacity: 0.7,
+    textAlign: "center",
+  },
+  emptySubtext: {
+    opacity: 0.5,
+    textAlign: "center",
+    marginTop: 4,
+  },
+});
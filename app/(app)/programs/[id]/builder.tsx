@@ -1,4 +1,9 @@
 import {
+  checkGenerationQuota,
+  useGenerationQuota,
+} from "@/hooks/useGenerationQuota";
+import {
+  type GenerationResult,
   type ProgramFormData,
   useProgramGeneration,
 } from "@/hooks/useProgramGeneration";
@@ -13,6 +18,7 @@ import {
   gymEquipmentPresets,
   gymTypes,
 } from "@/lib/constants/programConfig";
+import { formatSlots } from "@/lib/generation/programSlots";
 import { supabase } from "@/lib/supabase/client";
 import { Stack, router, useLocalSearchParams } from "expo-router";
 import { useEffect, useState } from "react";
@@ -46,8 +52,10 @@ export default function ProgramBuilderScreen() {
     error: generationError,
     duration,
     generateProgram,
+    generateMissingWorkouts,
     cancel,
   } = useProgramGeneration(id);
+  const { data: generationQuota, refetch: refetchQuota } = useGenerationQuota();
 
   const [activeTab, setActiveTab] = useState<TabValue>("config");
 
@@ -203,6 +211,39 @@ export default function ProgramBuilderScreen() {
     return null;
   };
 
+  const handleGenerationResult = async (result: GenerationResult) => {
+    refetchQuota();
+    if (result.success) {
+      await refetchWorkouts();
+      Alert.alert("Success", `Generated ${result.workoutsCreated} workouts`);
+      router.back();
+      return;
+    }
+
+    // Keep what was saved and offer to fill only the gaps
+    const missingSlots = result.missingSlots;
+    if (result.outcome === "partial" && missingSlots?.length) {
+      await refetchWorkouts();
+      Alert.alert(
+        "Partially Generated",
+        `${result.workoutsCreated} workouts were saved.\n\nMissing: ${formatSlots(missingSlots)}`,
+        [
+          { text: "Keep Partial", style: "cancel" },
+          {
+            text: `Generate Missing (${missingSlots.length})`,
+            onPress: async () => {
+              const retryResult = await generateMissingWorkouts(
+                formData as ProgramFormData,
+                missingSlots,
+              );
+              await handleGenerationResult(retryResult);
+            },
+          },
+        ],
+      );
+    }
+  };
+
   const handleGenerate = async () => {
     const validationError = validateForm();
     if (validationError) {
@@ -210,6 +251,12 @@ export default function ProgramBuilderScreen() {
       return;
     }
 
+    const quotaCheck = checkGenerationQuota(generationQuota);
+    if (!quotaCheck.allowed) {
+      Alert.alert("No Generations Remaining", quotaCheck.message);
+      return;
+    }
+
     const isRegeneration = workouts && workouts.length > 0;
 
     if (isRegeneration) {
@@ -226,14 +273,7 @@ export default function ProgramBuilderScreen() {
                 formData as ProgramFormData,
                 true,
               );
-              if (result.success) {
-                await refetchWorkouts();
-                Alert.alert(
-                  "Success",
-                  `Generated ${result.workoutsCreated} workouts`,
-                );
-                router.back();
-              }
+              await handleGenerationResult(result);
             },
           },
         ],
@@ -241,11 +281,7 @@ export default function ProgramBuilderScreen() {
     } else {
       updateFormData("equipment", selectedEquipment);
       const result = await generateProgram(formData as ProgramFormData, false);
-      if (result.success) {
-        await refetchWorkouts();
-        Alert.alert("Success", `Generated ${result.workoutsCreated} workouts`);
-        router.back();
-      }
+      await handleGenerationResult(result);
     }
   };
 
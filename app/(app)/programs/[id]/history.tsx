@@ -0,0 +1,299 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft } from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { VersionDiff } from "@/components/programs/VersionDiff";
+import {
+  type ProgramVersion,
+  useProgramVersions,
+  useRestoreProgramVersion,
+} from "@/hooks/useProgramVersions";
+import { diffProgramVersions } from "@/lib/generation/programVersions";
+
+const sourceLabels: Record<ProgramVersion["source"], string> = {
+  generation: "Generated",
+  baseline: "Before history",
+  restore: "Before restore",
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function ProgramHistoryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const theme = useTheme();
+  const { data: versions, isLoading, error, refetch } = useProgramVersions(id);
+  const restoreVersion = useRestoreProgramVersion(id);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  // Compare up to two versions; selecting a third drops the oldest pick
+  const toggleSelected = (versionId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(versionId)
+        ? prev.filter((selected) => selected !== versionId)
+        : [...prev, versionId].slice(-2),
+    );
+  };
+
+  const comparison = useMemo(() => {
+    if (!versions || selectedIds.length !== 2) return null;
+    const [base, target] = versions
+      .filter((version) => selectedIds.includes(version.id))
+      .sort((a, b) => a.version_number - b.version_number);
+    if (!base || !target) return null;
+    return { base, target, diff: diffProgramVersions(base, target) };
+  }, [versions, selectedIds]);
+
+  const handleRestore = (version: ProgramVersion) => {
+    Alert.alert(
+      `Restore Version ${version.version_number}`,
+      `The program's settings and workouts will be replaced with this version (${version.workout_count} workouts). Completed workouts and logged results are kept, and the current state is saved to history first.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: () => {
+            restoreVersion.mutate(version, {
+              onSuccess: () => {
+                setSelectedIds([]);
+                Alert.alert(
+                  "Restored",
+                  `Version ${version.version_number} restored`,
+                );
+              },
+              onError: (err) => {
+                Alert.alert(
+                  "Error",
+                  err instanceof Error
+                    ? err.message
+                    : "Failed to restore version",
+                );
+              },
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <Text variant="headlineSmall" style={styles.headerTitle}>
+          Generation History
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        {isLoading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" />
+          </View>
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={{ color: theme.colors.error }}>
+              {error instanceof Error
+                ? error.message
+                : "Failed to load history"}
+            </Text>
+          </View>
+        ) : !versions || versions.length === 0 ? (
+          <View style={styles.centered}>
+            <Text variant="bodyLarge" style={styles.emptyText}>
+              No versions yet
+            </Text>
+            <Text variant="bodySmall" style={styles.emptySubtext}>
+              A version is saved each time this program is generated
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text variant="bodySmall" style={styles.hint}>
+              Select two versions to compare them
+            </Text>
+
+            {comparison && (
+              <VersionDiff
+                baseLabel={`v${comparison.base.version_number}`}
+                targetLabel={`v${comparison.target.version_number}`}
+                diff={comparison.diff}
+              />
+            )}
+
+            {versions.map((version, index) => {
+              const isSelected = selectedIds.includes(version.id);
+              return (
+                <Card
+                  key={version.id}
+                  mode="outlined"
+                  onPress={() => toggleSelected(version.id)}
+                  style={[
+                    styles.versionCard,
+                    isSelected && {
+                      borderColor: theme.colors.primary,
+                      borderWidth: 2,
+                    },
+                  ]}
+                >
+                  <Card.Content>
+                    <View style={styles.versionHeader}>
+                      <Text variant="titleMedium" style={styles.versionTitle}>
+                        Version {version.version_number}
+                      </Text>
+                      <Chip compact>{sourceLabels[version.source]}</Chip>
+                    </View>
+                    <Text variant="bodySmall" style={styles.versionMeta}>
+                      {formatTimestamp(version.created_at)} •{" "}
+                      {version.workout_count} workout
+                      {version.workout_count !== 1 ? "s" : ""}
+                      {index === 0 ? " • Latest" : ""}
+                    </Text>
+                    <View style={styles.versionActions}>
+                      <Button
+                        mode="text"
+                        compact
+                        onPress={() => toggleSelected(version.id)}
+                      >
+                        {isSelected ? "Deselect" : "Compare"}
+                      </Button>
+                      <Button
+                        mode="outlined"
+                        compact
+                        onPress={() => handleRestore(version)}
+                        disabled={restoreVersion.isPending}
+                        loading={
+                          restoreVersion.isPending &&
+                          restoreVersion.variables?.id === version.id
+                        }
+                      >
+                        Restore
+                      </Button>
+                    </View>
+                  </Card.Content>
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+    marginLeft: -4,
+  },
+  headerTitle: {
+    fontWeight: "bold",
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  centered: {
+    padding: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    opacity: 0.7,
+    textAlign: "center",
+  },
+  emptySubtext: {
+    opacity: 0.5,
+    textAlign: "center",
+    marginTop: 4,
+  },
+  hint: {
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  versionCard: {
+    marginBottom: 12,
+  },
+  versionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  versionTitle: {
+    fontWeight: "600",
+  },
+  versionMeta: {
+    marginTop: 4,
+    opacity: 0.7,
+  },
+  versionActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+});
@@ -1,5 +1,5 @@
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { ArrowLeft } from "lucide-react-native";
+import { ArrowLeft, CalendarDays, History } from "lucide-react-native";
 import { StyleSheet, TouchableOpacity, View } from "react-native";
 import { Text, useTheme } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -28,6 +28,20 @@ export default function ProgramDetailScreen() {
         <Text variant="headlineSmall" style={styles.headerTitle}>
           Program Builder
         </Text>
+        <TouchableOpacity
+          onPress={() => router.push(`/(app)/calendar?programId=${id}`)}
+          style={styles.calendarButton}
+          accessibilityLabel="Program calendar"
+        >
+          <CalendarDays size={22} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => router.push(`/programs/${id}/history`)}
+          style={styles.historyButton}
+          accessibilityLabel="Generation history"
+        >
+          <History size={22} color={theme.colors.onSurface} />
+        </TouchableOpacity>
       </View>
 
       {/* AI Program Writer */}
@@ -56,4 +70,12 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     flex: 1,
   },
+  calendarButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  historyButton: {
+    padding: 4,
+    marginRight: -4,
+  },
 });
@@ -3,13 +3,16 @@ import {
   ArrowLeft,
   Calendar,
   Check,
+  ClipboardList,
   Edit2,
   Share2,
   Sparkles,
+  Timer,
   Trash2,
+  Users,
   X,
 } from "lucide-react-native";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Alert,
   ScrollView,
@@ -25,15 +28,51 @@ import {
   Chip,
   Divider,
   IconButton,
+  SegmentedButtons,
   Text,
   TextInput,
   useTheme,
 } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+import { SyncStatusBanner } from "@/components/offline/SyncStatusBanner";
 import { EnhanceWorkoutModal } from "@/components/workouts/EnhanceWorkoutModal";
+import { LoadClientPicker } from "@/components/workouts/LoadClientPicker";
+import { RestrictionFlags } from "@/components/workouts/RestrictionFlags";
+import { StructuredWorkoutView } from "@/components/workouts/StructuredWorkoutView";
+import { useClientRestrictions, useClients } from "@/hooks/useClients";
+import { usePerformanceLog } from "@/hooks/usePerformanceLog";
 import { useProgramDataMobile } from "@/hooks/useProgramDataMobile";
+import { useProgramWorkoutsMobile } from "@/hooks/useProgramWorkoutsMobile";
 import { useWorkout } from "@/hooks/useWorkout";
+import {
+  useDeleteWorkoutResult,
+  useWorkoutResults,
+  type WorkoutResult,
+} from "@/hooks/useWorkoutResults";
+import {
+  findRestrictedMovements,
+  restrictionRequestFields,
+} from "@/lib/clients/restrictions";
+import { profileFromEntity } from "@/lib/clients/strengthProfile";
+import { toDateKey } from "@/lib/generation/programSlots";
+import {
+  buildProgramCalendar,
+  shareCalendarFile,
+} from "@/lib/schedule/icsExport";
+import { resolvePercentLoad } from "@/lib/workouts/loadCalculator";
+import { summarizeMovementLog } from "@/lib/workouts/performanceLog";
+import { SCALING_TIER_LABELS } from "@/lib/workouts/scalingTiers";
+import {
+  isStructured,
+  type MovementChanges,
+  type MovementLine,
+  parseWorkout,
+  serializeWorkout,
+  updateMovement,
+  workoutFormatLabel,
+} from "@/lib/workouts/workoutParser";
+import { formatWorkoutResult } from "@/lib/workouts/workoutResults";
 
 type EnhancedWorkout = {
   title: string;
@@ -58,14 +97,64 @@ export default function WorkoutDetailScreen() {
     deleteWorkout,
     enhanceWorkout,
     saveEnhancement,
+    cachedAt,
   } = useWorkout(workoutId);
 
   const { program } = useProgramDataMobile(programId);
+  const { workouts: programWorkouts } = useProgramWorkoutsMobile(programId);
+  const { data: results = [] } = useWorkoutResults(workoutId);
+  const { data: performanceLog = [] } = usePerformanceLog(workoutId);
+  const deleteResult = useDeleteWorkoutResult(workoutId);
+  const { data: clients = [] } = useClients();
+  const { restrictions } = useClientRestrictions(program?.entity_id ?? "");
 
   // Edit mode state
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState("");
   const [editBody, setEditBody] = useState("");
+  const [editMode, setEditMode] = useState<"structured" | "text">("text");
+
+  const parsedBody = useMemo(
+    () => parseWorkout(workout?.body ?? ""),
+    [workout?.body],
+  );
+  const parsedEditBody = useMemo(() => parseWorkout(editBody), [editBody]);
+
+  // Percentage loads are shown as weights for one client: the program's own
+  // client unless another is picked (class programs start with none)
+  const [loadClientId, setLoadClientId] = useState<string | null>(null);
+  const individualClients = clients.filter(
+    (client) => client.type === "CLIENT",
+  );
+  const isClassProgram = clients.some(
+    (client) => client.id === program?.entity_id && client.type === "CLASS",
+  );
+  const programClientId = individualClients.some(
+    (client) => client.id === program?.entity_id,
+  )
+    ? (program?.entity_id ?? null)
+    : null;
+  const loadClient = individualClients.find(
+    (client) => client.id === (loadClientId ?? programClientId),
+  );
+  const loadProfile = useMemo(
+    () => (loadClient ? profileFromEntity(loadClient) : null),
+    [loadClient],
+  );
+  const restrictionFlags = useMemo(
+    () =>
+      findRestrictedMovements(
+        workout?.body ?? "",
+        restrictions,
+        workout?.scheduled_date,
+      ),
+    [workout?.body, workout?.scheduled_date, restrictions],
+  );
+  const hasPercentLoads = parsedBody.sections.some((section) =>
+    section.lines.some(
+      (line) => line.kind === "movement" && line.load?.type === "percent",
+    ),
+  );
 
   // Enhance mode state
   const [showEnhanceModal, setShowEnhanceModal] = useState(false);
@@ -93,6 +182,7 @@ export default function WorkoutDetailScreen() {
   const handleStartEdit = () => {
     setEditTitle(workout?.title || "");
     setEditBody(workout?.body || "");
+    setEditMode(isStructured(parsedBody) ? "structured" : "text");
     setIsEditing(true);
   };
 
@@ -102,6 +192,19 @@ export default function WorkoutDetailScreen() {
     setEditBody("");
   };
 
+  // Structured edits rewrite just the changed line, so the body stays text
+  const handleChangeMovement = (
+    sectionIndex: number,
+    lineIndex: number,
+    changes: MovementChanges,
+  ) => {
+    setEditBody(
+      serializeWorkout(
+        updateMovement(parsedEditBody, sectionIndex, lineIndex, changes),
+      ),
+    );
+  };
+
   const handleSaveEdit = async () => {
     if (!editTitle.trim()) {
       Alert.alert("Error", "Title is required");
@@ -156,8 +259,8 @@ export default function WorkoutDetailScreen() {
     );
   };
 
-  // Share handler
-  const handleShare = async () => {
+  // Share handlers
+  const shareWorkout = async () => {
     if (!workout) return;
 
     try {
@@ -171,12 +274,55 @@ export default function WorkoutDetailScreen() {
     }
   };
 
+  // The whole program as an .ics calendar; re-sharing after a reschedule
+  // updates the events already imported
+  const shareProgramCalendar = async () => {
+    if (!program) return;
+
+    try {
+      const calendar = buildProgramCalendar({
+        programName: program.name,
+        workouts: programWorkouts,
+        durationMinutes:
+          program.session_details?.duration ??
+          program.session_details?.duration_minutes,
+      });
+      await shareCalendarFile(program.name, calendar);
+    } catch (err) {
+      console.error("Error sharing calendar:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Failed to export calendar",
+      );
+    }
+  };
+
+  const handleShare = () => {
+    if (!workout) return;
+    if (!program || programWorkouts.length === 0) {
+      shareWorkout();
+      return;
+    }
+
+    Alert.alert("Share", undefined, [
+      { text: "This Workout", onPress: shareWorkout },
+      { text: "Program Calendar (.ics)", onPress: shareProgramCalendar },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
   // Enhance handlers
   const handleEnhance = async (instructions: string) => {
     if (!workout || !program) return;
 
     setIsEnhancing(true);
 
+    // Restrictions in effect on the workout's day, or today if unscheduled
+    const workoutDate = toDateKey(workout.scheduled_date);
+    const workoutRange = workoutDate
+      ? { startDate: workoutDate, endDate: workoutDate }
+      : undefined;
+
     // Extract equipment as string array
     const equipmentArray = (program.gym_details?.equipment || [])
       .map((item) => (typeof item === "string" ? item : String(item)))
@@ -187,7 +333,7 @@ export default function WorkoutDetailScreen() {
       instructions,
       methodology: program.training_methodology || "",
       gymEquipment: equipmentArray.length > 0 ? equipmentArray : ["Bodyweight"],
-      injuries: program.reference_input ? [program.reference_input] : undefined,
+      ...restrictionRequestFields(restrictions, workoutRange),
     });
     setIsEnhancing(false);
 
@@ -217,6 +363,20 @@ export default function WorkoutDetailScreen() {
     setEnhancedWorkout(null);
   };
 
+  const handleDeleteResult = (result: WorkoutResult) => {
+    Alert.alert("Delete Result", `Delete ${formatWorkoutResult(result)}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () =>
+          deleteResult.mutate(result.id, {
+            onError: (err) => Alert.alert("Error", err.message),
+          }),
+      },
+    ]);
+  };
+
   if (loading) {
     return (
       <SafeAreaView
@@ -296,6 +456,8 @@ export default function WorkoutDetailScreen() {
         </View>
       </View>
 
+      <SyncStatusBanner cachedAt={cachedAt} />
+
       <ScrollView
         style={styles.content}
         contentContainerStyle={styles.scrollContent}
@@ -322,6 +484,8 @@ export default function WorkoutDetailScreen() {
           </Card>
         )}
 
+        {!isEditing && <RestrictionFlags flags={restrictionFlags} />}
+
         {/* Main Content Card */}
         <Card style={styles.mainCard}>
           <Card.Content>
@@ -334,15 +498,35 @@ export default function WorkoutDetailScreen() {
                   mode="outlined"
                   style={styles.input}
                 />
-                <TextInput
-                  label="Workout Details"
-                  value={editBody}
-                  onChangeText={setEditBody}
-                  mode="outlined"
-                  multiline
-                  numberOfLines={15}
-                  style={[styles.input, styles.bodyInput]}
-                />
+                {isStructured(parsedEditBody) && (
+                  <SegmentedButtons
+                    value={editMode}
+                    onValueChange={(value) =>
+                      setEditMode(value as "structured" | "text")
+                    }
+                    buttons={[
+                      { value: "structured", label: "Sets & Loads" },
+                      { value: "text", label: "Text" },
+                    ]}
+                    style={styles.input}
+                  />
+                )}
+                {editMode === "structured" && isStructured(parsedEditBody) ? (
+                  <StructuredWorkoutView
+                    workout={parsedEditBody}
+                    onChangeMovement={handleChangeMovement}
+                  />
+                ) : (
+                  <TextInput
+                    label="Workout Details"
+                    value={editBody}
+                    onChangeText={setEditBody}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={15}
+                    style={[styles.input, styles.bodyInput]}
+                  />
+                )}
               </>
             ) : (
               <>
@@ -379,14 +563,114 @@ export default function WorkoutDetailScreen() {
 
                 <Divider style={styles.divider} />
 
-                <Text variant="bodyLarge" style={styles.body} selectable>
-                  {workout.body}
-                </Text>
+                {isStructured(parsedBody) ? (
+                  <>
+                    {hasPercentLoads && (
+                      <LoadClientPicker
+                        clients={individualClients}
+                        selectedId={loadClient?.id ?? null}
+                        onSelect={setLoadClientId}
+                      />
+                    )}
+                    <StructuredWorkoutView
+                      workout={parsedBody}
+                      resolveLoad={
+                        loadProfile
+                          ? (line: MovementLine) =>
+                              resolvePercentLoad(line, loadProfile)
+                          : undefined
+                      }
+                    />
+                  </>
+                ) : (
+                  <Text variant="bodyLarge" style={styles.body} selectable>
+                    {workout.body}
+                  </Text>
+                )}
               </>
             )}
           </Card.Content>
         </Card>
 
+        {/* Logged Performance */}
+        {!isEditing && performanceLog.length > 0 && (
+          <Card style={styles.mainCard}>
+            <Card.Title title="Performance" />
+            <Card.Content>
+              {performanceLog.map((log, index) => (
+                <View key={`${index}-${log.movement}`} style={styles.resultRow}>
+                  <Text variant="bodyMedium" style={styles.resultScore}>
+                    {log.movement}
+                  </Text>
+                  <Text
+                    variant="bodySmall"
+                    style={[
+                      styles.resultInfo,
+                      styles.logSummary,
+                      { color: theme.colors.onSurfaceVariant },
+                    ]}
+                  >
+                    {summarizeMovementLog(log) || log.notes}
+                  </Text>
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Timer Results */}
+        {!isEditing && results.length > 0 && (
+          <Card style={styles.mainCard}>
+            <Card.Title title="Results" />
+            <Card.Content>
+              {results.map((result) => (
+                <TouchableOpacity
+                  key={result.id}
+                  onLongPress={() => handleDeleteResult(result)}
+                  style={styles.resultRow}
+                >
+                  <View style={styles.resultInfo}>
+                    <Text variant="bodyLarge" style={styles.resultScore}>
+                      {formatWorkoutResult(result)}
+                    </Text>
+                    {result.entity_id && (
+                      <Text
+                        variant="bodySmall"
+                        style={{ color: theme.colors.onSurfaceVariant }}
+                      >
+                        {clients.find(
+                          (client) => client.id === result.entity_id,
+                        )?.name ?? "Member"}
+                        {result.tier
+                          ? ` • ${SCALING_TIER_LABELS[result.tier]}`
+                          : ""}
+                      </Text>
+                    )}
+                    {result.notes && (
+                      <Text
+                        variant="bodySmall"
+                        style={{ color: theme.colors.onSurfaceVariant }}
+                      >
+                        {result.notes}
+                      </Text>
+                    )}
+                  </View>
+                  <Text
+                    variant="bodySmall"
+                    style={{ color: theme.colors.onSurfaceVariant }}
+                  >
+                    {workoutFormatLabel(result.format)} •{" "}
+                    {new Date(result.recorded_at).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Action Buttons */}
         {isEditing ? (
           <View style={styles.editActions}>
@@ -411,6 +695,50 @@ export default function WorkoutDetailScreen() {
           </View>
         ) : (
           <>
+            {/* Timer Button */}
+            <Button
+              mode="contained-tonal"
+              onPress={() =>
+                router.push(
+                  `/programs/${programId}/workout/${workout.id}/timer`,
+                )
+              }
+              style={styles.enhanceButton}
+              icon={() => <Timer size={18} color={theme.colors.primary} />}
+            >
+              Start Timer
+            </Button>
+
+            {/* Class Session Button */}
+            {isClassProgram && (
+              <Button
+                mode="contained-tonal"
+                onPress={() =>
+                  router.push(
+                    `/programs/${programId}/workout/${workout.id}/session`,
+                  )
+                }
+                style={styles.enhanceButton}
+                icon={() => <Users size={18} color={theme.colors.primary} />}
+              >
+                Class Session
+              </Button>
+            )}
+
+            {/* Log Button */}
+            <Button
+              mode="contained-tonal"
+              onPress={() =>
+                router.push(`/programs/${programId}/workout/${workout.id}/log`)
+              }
+              style={styles.enhanceButton}
+              icon={() => (
+                <ClipboardList size={18} color={theme.colors.primary} />
+              )}
+            >
+              {performanceLog.length > 0 ? "Edit Log" : "Log Performance"}
+            </Button>
+
             {/* Enhance Button */}
             <Button
               mode="contained-tonal"
@@ -571,6 +899,22 @@ const styles = StyleSheet.create({
   bodyInput: {
     minHeight: 300,
   },
+  resultRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+    gap: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultScore: {
+    fontWeight: "600",
+  },
+  logSummary: {
+    textAlign: "right",
+  },
   editActions: {
     flexDirection: "row",
     gap: 12,
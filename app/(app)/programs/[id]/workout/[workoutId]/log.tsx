@@ -0,0 +1,205 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft } from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ActivityIndicator, Button, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { MovementLogCard } from "@/components/workouts/MovementLogCard";
+import { useClient } from "@/hooks/useClients";
+import {
+  type MovementLog,
+  usePerformanceLog,
+  useSavePerformanceLog,
+} from "@/hooks/usePerformanceLog";
+import { useProgramDataMobile } from "@/hooks/useProgramDataMobile";
+import { useWorkout } from "@/hooks/useWorkout";
+import { profileFromEntity } from "@/lib/clients/strengthProfile";
+import { resolvePercentLoad } from "@/lib/workouts/loadCalculator";
+import { draftFromWorkout } from "@/lib/workouts/performanceLog";
+import { parseWorkout } from "@/lib/workouts/workoutParser";
+
+export default function PerformanceLogScreen() {
+  const { id: programId, workoutId } = useLocalSearchParams<{
+    id: string;
+    workoutId: string;
+  }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const {
+    workout,
+    loading: workoutLoading,
+    toggleComplete,
+  } = useWorkout(workoutId);
+  const { program } = useProgramDataMobile(programId);
+  const { data: client, isLoading: clientLoading } = useClient(
+    program?.entity_id ?? "",
+  );
+  const { data: existingLog, isLoading: logLoading } =
+    usePerformanceLog(workoutId);
+  const saveLog = useSavePerformanceLog({
+    workoutId,
+    programId: programId ?? null,
+    entityId: program?.entity_id ?? null,
+  });
+
+  // An existing log is edited in place; otherwise start from the
+  // prescription, with percentages worked out from the client's 1RMs
+  const initialLog = useMemo(() => {
+    if (existingLog && existingLog.length > 0) return existingLog;
+    const profile = client ? profileFromEntity(client) : null;
+    return draftFromWorkout(
+      parseWorkout(workout?.body ?? ""),
+      "kg",
+      profile
+        ? (line) => resolvePercentLoad(line, profile)?.load ?? null
+        : undefined,
+    );
+  }, [existingLog, workout?.body, client]);
+  const [editedLog, setEditedLog] = useState<MovementLog[] | null>(null);
+  const logs = editedLog ?? initialLog;
+
+  const updateLog = (index: number, next: MovementLog) =>
+    setEditedLog(logs.map((log, i) => (i === index ? next : log)));
+
+  const handleSave = async () => {
+    try {
+      await saveLog.mutateAsync(logs);
+      // Logging what was done also marks the workout as done
+      if (workout && !workout.completed) await toggleComplete();
+      router.back();
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save log";
+      console.error("[PerformanceLog] Error saving log:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const loading =
+    workoutLoading || logLoading || (!!program?.entity_id && clientLoading);
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text variant="titleLarge" style={styles.headerTitle}>
+            Log Performance
+          </Text>
+          {workout && (
+            <Text
+              variant="bodySmall"
+              numberOfLines={1}
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              {workout.title}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          style={styles.content}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {logs.length === 0 ? (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                No movements with sets or reps were found in this workout.
+              </Text>
+            ) : (
+              logs.map((log, index) => (
+                <MovementLogCard
+                  key={`${index}-${log.movement}`}
+                  log={log}
+                  onChange={(next) => updateLog(index, next)}
+                />
+              ))
+            )}
+
+            <Button
+              mode="contained"
+              onPress={handleSave}
+              loading={saveLog.isPending}
+              disabled={saveLog.isPending || logs.length === 0}
+              style={styles.saveButton}
+            >
+              {workout?.completed ? "Save Log" : "Save & Mark Complete"}
+            </Button>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  headerTitle: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyText: {
+    opacity: 0.7,
+    textAlign: "center",
+    marginVertical: 24,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
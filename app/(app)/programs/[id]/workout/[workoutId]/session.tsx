@@ -0,0 +1,411 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft, Timer, Users } from "lucide-react-native";
+import { useMemo } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Divider,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { MemberResultEntry } from "@/components/workouts/MemberResultEntry";
+import { StructuredWorkoutView } from "@/components/workouts/StructuredWorkoutView";
+import { useClassRoster } from "@/hooks/useClassRoster";
+import { useProgramDataMobile } from "@/hooks/useProgramDataMobile";
+import { useWorkout } from "@/hooks/useWorkout";
+import {
+  useDeleteWorkoutResult,
+  useSaveWorkoutResult,
+  useWorkoutResults,
+  type WorkoutResult,
+} from "@/hooks/useWorkoutResults";
+import { memberName } from "@/lib/clients/classRoster";
+import {
+  parseScaling,
+  SCALING_TIERS,
+  type ScalingTier,
+  withoutScaling,
+} from "@/lib/workouts/scalingTiers";
+import {
+  isStructured,
+  parseWorkout,
+  serializeWorkout,
+  workoutFormatLabel,
+} from "@/lib/workouts/workoutParser";
+import {
+  compareResults,
+  formatWorkoutResult,
+  parseScore,
+} from "@/lib/workouts/workoutResults";
+import {
+  blockSeconds,
+  defaultTimerConfig,
+  timerConfigFromWorkout,
+} from "@/lib/workouts/workoutTimer";
+
+// The coach's view of a class workout at the whiteboard: the workout in large
+// type with each scaling tier spelled out, and the roster for calling out
+// scores as members finish.
+export default function ClassSessionScreen() {
+  const { id: programId, workoutId } = useLocalSearchParams<{
+    id: string;
+    workoutId: string;
+  }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { workout, loading } = useWorkout(workoutId);
+  const { program } = useProgramDataMobile(programId);
+  const { data: members = [], isLoading: rosterLoading } = useClassRoster(
+    program?.entity_id ?? "",
+  );
+  const { data: results = [] } = useWorkoutResults(workoutId);
+  const saveResult = useSaveWorkoutResult(workoutId);
+  const deleteResult = useDeleteWorkoutResult(workoutId);
+
+  const parsed = useMemo(
+    () => parseWorkout(workout?.body ?? ""),
+    [workout?.body],
+  );
+  const mainWorkout = useMemo(() => withoutScaling(parsed), [parsed]);
+  const scaling = useMemo(() => parseScaling(parsed), [parsed]);
+  const timerConfig =
+    timerConfigFromWorkout(mainWorkout) ?? defaultTimerConfig("for_time");
+
+  // Results are listed newest first, so the first per member is their latest
+  const memberResults = new Map<string, WorkoutResult>();
+  for (const result of results) {
+    if (result.entity_id && !memberResults.has(result.entity_id)) {
+      memberResults.set(result.entity_id, result);
+    }
+  }
+  const leaderboard = SCALING_TIERS.map(({ tier, label }) => ({
+    tier,
+    label,
+    entries: members
+      .map((member) => ({
+        member,
+        result: memberResults.get(member.member_id),
+      }))
+      .filter(
+        (entry): entry is typeof entry & { result: WorkoutResult } =>
+          entry.result?.tier === tier,
+      )
+      .sort((a, b) => compareResults(a.result, b.result)),
+  })).filter((group) => group.entries.length > 0);
+
+  const handleSave = async (
+    memberId: string,
+    tier: ScalingTier,
+    text: string,
+  ): Promise<boolean> => {
+    const score = parseScore(
+      timerConfig.format,
+      text,
+      blockSeconds(timerConfig),
+    );
+    if (!score) {
+      Alert.alert(
+        "Invalid Score",
+        timerConfig.format === "for_time"
+          ? 'Enter a time like 12:34, or "cap".'
+          : timerConfig.format === "amrap"
+            ? "Enter rounds, or rounds + reps like 7+5."
+            : "Enter the rounds completed.",
+      );
+      return false;
+    }
+
+    try {
+      await saveResult.mutateAsync({
+        workout_id: workoutId,
+        program_id: programId ?? null,
+        entity_id: memberId,
+        tier,
+        format: timerConfig.format,
+        splits: [],
+        notes: null,
+        ...score,
+      });
+      return true;
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save result";
+      console.error("[ClassSession] Error saving result:", err);
+      Alert.alert("Error", errorMessage);
+      return false;
+    }
+  };
+
+  const handleClear = async (result: WorkoutResult) => {
+    try {
+      await deleteResult.mutateAsync(result.id);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to delete result";
+      console.error("[ClassSession] Error deleting result:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  if (loading || !workout) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+      >
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text variant="titleLarge" style={styles.headerTitle}>
+            Class Session
+          </Text>
+          <Text
+            variant="bodySmall"
+            numberOfLines={1}
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {program?.name ?? "Program"} • {members.length} member
+            {members.length === 1 ? "" : "s"}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Whiteboard */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.whiteboard}>
+            <Text variant="headlineMedium" style={styles.workoutTitle}>
+              {workout.title}
+            </Text>
+            {isStructured(mainWorkout) ? (
+              <StructuredWorkoutView workout={mainWorkout} />
+            ) : (
+              <Text variant="titleMedium" style={styles.bodyText}>
+                {serializeWorkout(mainWorkout).trim()}
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Scaling Tiers */}
+        <Card style={styles.card}>
+          <Card.Title title="Scaling" />
+          <Card.Content style={styles.tiers}>
+            {SCALING_TIERS.map(({ tier, label }) => (
+              <View key={tier} style={styles.tier}>
+                <Text variant="titleMedium" style={styles.tierLabel}>
+                  {label}
+                </Text>
+                <Text
+                  variant="bodyLarge"
+                  style={
+                    scaling[tier]?.length
+                      ? undefined
+                      : { color: theme.colors.onSurfaceVariant }
+                  }
+                >
+                  {scaling[tier]?.join("\n") ||
+                    (tier === "rx" ? "As written" : "Not written")}
+                </Text>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        {/* Roster Results */}
+        <Card style={styles.card}>
+          <Card.Title
+            title="Results"
+            subtitle={workoutFormatLabel(timerConfig.format)}
+          />
+          <Card.Content>
+            {rosterLoading ? (
+              <ActivityIndicator style={styles.rosterLoading} />
+            ) : members.length === 0 ? (
+              <View style={styles.emptyRoster}>
+                <Users size={32} color={theme.colors.outline} />
+                <Text
+                  variant="bodyMedium"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  No one is on this class's roster yet.
+                </Text>
+                {program?.entity_id && (
+                  <Button
+                    mode="text"
+                    onPress={() =>
+                      router.push(`/(app)/clients/${program.entity_id}/roster`)
+                    }
+                  >
+                    Manage Roster
+                  </Button>
+                )}
+              </View>
+            ) : (
+              members.map((member, index) => (
+                <View key={member.id}>
+                  {index > 0 && <Divider />}
+                  <MemberResultEntry
+                    name={memberName(member)}
+                    defaultTier={member.default_tier}
+                    format={timerConfig.format}
+                    result={memberResults.get(member.member_id)}
+                    isSaving={saveResult.isPending}
+                    onSave={(tier, text) =>
+                      handleSave(member.member_id, tier, text)
+                    }
+                    onClear={handleClear}
+                  />
+                </View>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Leaderboard */}
+        {leaderboard.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Title title="Leaderboard" />
+            <Card.Content style={styles.tiers}>
+              {leaderboard.map((group) => (
+                <View key={group.tier} style={styles.tier}>
+                  <Text variant="titleMedium" style={styles.tierLabel}>
+                    {group.label}
+                  </Text>
+                  {group.entries.map(({ member, result }, index) => (
+                    <View key={member.id} style={styles.leaderRow}>
+                      <Text variant="bodyLarge" style={styles.rank}>
+                        {index + 1}
+                      </Text>
+                      <Text variant="bodyLarge" style={styles.leaderName}>
+                        {memberName(member)}
+                      </Text>
+                      <Text variant="bodyLarge" style={styles.tierLabel}>
+                        {formatWorkoutResult(result)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        <Button
+          mode="contained-tonal"
+          onPress={() =>
+            router.push(`/programs/${programId}/workout/${workoutId}/timer`)
+          }
+          icon={() => <Timer size={18} color={theme.colors.primary} />}
+        >
+          Start Timer
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  headerTitle: {
+    fontWeight: "600",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  whiteboard: {
+    gap: 12,
+  },
+  workoutTitle: {
+    fontWeight: "bold",
+  },
+  bodyText: {
+    lineHeight: 28,
+  },
+  tiers: {
+    gap: 16,
+  },
+  tier: {
+    gap: 4,
+  },
+  tierLabel: {
+    fontWeight: "bold",
+  },
+  rosterLoading: {
+    marginVertical: 16,
+  },
+  emptyRoster: {
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  leaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  rank: {
+    width: 24,
+    fontWeight: "600",
+  },
+  leaderName: {
+    flex: 1,
+  },
+});
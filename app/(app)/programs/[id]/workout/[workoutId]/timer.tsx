@@ -0,0 +1,532 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  Flag,
+  Pause,
+  Play,
+  Plus,
+  RotateCcw,
+} from "lucide-react-native";
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  Card,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useWorkout } from "@/hooks/useWorkout";
+import { useSaveWorkoutResult } from "@/hooks/useWorkoutResults";
+import { useWorkoutTimer } from "@/hooks/useWorkoutTimer";
+import { parseWorkout, workoutFormatLabel } from "@/lib/workouts/workoutParser";
+import {
+  defaultTimerConfig,
+  formatClock,
+  TIMER_FORMATS,
+  type TimerConfig,
+  type TimerFormat,
+  timerConfigFromWorkout,
+} from "@/lib/workouts/workoutTimer";
+
+const PHASE_LABELS = {
+  countdown: "Get Ready",
+  work: "Work",
+  rest: "Rest",
+  done: "Time",
+};
+
+// Numeric setting; an empty field reads as 0
+function SettingField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <TextInput
+      label={label}
+      value={value ? String(value) : ""}
+      onChangeText={(text) => onChange(Number(text.replace(/\D/g, "")) || 0)}
+      keyboardType="number-pad"
+      mode="outlined"
+      dense
+      style={styles.settingField}
+    />
+  );
+}
+
+export default function WorkoutTimerScreen() {
+  const { id: programId, workoutId } = useLocalSearchParams<{
+    id: string;
+    workoutId: string;
+  }>();
+  const router = useRouter();
+  const theme = useTheme();
+
+  const { workout } = useWorkout(workoutId);
+  const saveResult = useSaveWorkoutResult(workoutId);
+
+  // Pre-filled from the workout's first timed block until the coach edits it
+  const suggestedConfig = useMemo(
+    () => timerConfigFromWorkout(parseWorkout(workout?.body ?? "")),
+    [workout?.body],
+  );
+  const [editedConfig, setEditedConfig] = useState<TimerConfig | null>(null);
+  const config =
+    editedConfig ?? suggestedConfig ?? defaultTimerConfig("for_time");
+
+  const timer = useWorkoutTimer(config);
+  const { snapshot, status } = timer;
+
+  // Result form
+  const [extraReps, setExtraReps] = useState(0);
+  const [notes, setNotes] = useState("");
+
+  const updateConfig = (changes: Partial<TimerConfig>) =>
+    setEditedConfig({ ...config, ...changes });
+
+  const changeFormat = (format: string) =>
+    setEditedConfig(defaultTimerConfig(format as TimerFormat));
+
+  // For Time counts up; everything else shows time left in the phase.
+  // Before starting, the clock previews the first interval
+  const countsUp =
+    config.format === "for_time" && snapshot.phase !== "countdown";
+  const clock =
+    status === "idle"
+      ? formatClock(config.workSeconds * 1000, false)
+      : countsUp
+        ? formatClock(snapshot.workElapsedMs, false)
+        : formatClock(snapshot.remainingMs ?? 0, true);
+
+  const handleReset = () => {
+    if (status === "idle") return;
+    Alert.alert("Reset Timer", "Discard this run and start over?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Reset",
+        style: "destructive",
+        onPress: () => {
+          timer.reset();
+          setExtraReps(0);
+          setNotes("");
+        },
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const completedRounds =
+      snapshot.phase === "done"
+        ? config.rounds
+        : Math.max(0, snapshot.round - 1);
+
+    try {
+      await saveResult.mutateAsync({
+        workout_id: workoutId,
+        program_id: programId ?? null,
+        format: config.format,
+        duration_seconds: Math.round(snapshot.workElapsedMs / 1000),
+        rounds: config.format === "amrap" ? timer.rounds : completedRounds,
+        extra_reps: config.format === "amrap" ? extraReps : null,
+        splits: timer.splits.map((ms) => Math.round(ms / 1000)),
+        capped: config.format === "for_time" && snapshot.phase === "done",
+        notes: notes.trim() || null,
+      });
+      router.back();
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save result";
+      console.error("[WorkoutTimer] Error saving result:", err);
+      Alert.alert("Error", errorMessage);
+    }
+  };
+
+  const renderSettings = () => (
+    <Card>
+      <Card.Content style={styles.settings}>
+        <SegmentedButtons
+          value={config.format}
+          onValueChange={changeFormat}
+          buttons={TIMER_FORMATS.map((format) => ({
+            value: format,
+            label: workoutFormatLabel(format),
+          }))}
+          density="small"
+        />
+        <View style={styles.settingRow}>
+          {config.format === "emom" && (
+            <>
+              <SettingField
+                label="Interval (sec)"
+                value={config.workSeconds}
+                onChange={(workSeconds) => updateConfig({ workSeconds })}
+              />
+              <SettingField
+                label="Intervals"
+                value={config.rounds}
+                onChange={(rounds) => updateConfig({ rounds })}
+              />
+            </>
+          )}
+          {config.format === "amrap" && (
+            <SettingField
+              label="Minutes"
+              value={Math.round(config.workSeconds / 60)}
+              onChange={(minutes) =>
+                updateConfig({ workSeconds: minutes * 60 })
+              }
+            />
+          )}
+          {config.format === "for_time" && (
+            <SettingField
+              label="Time cap (min, blank for none)"
+              value={Math.round(config.workSeconds / 60)}
+              onChange={(minutes) =>
+                updateConfig({ workSeconds: minutes * 60 })
+              }
+            />
+          )}
+          {config.format === "tabata" && (
+            <>
+              <SettingField
+                label="Work (sec)"
+                value={config.workSeconds}
+                onChange={(workSeconds) => updateConfig({ workSeconds })}
+              />
+              <SettingField
+                label="Rest (sec)"
+                value={config.restSeconds}
+                onChange={(restSeconds) => updateConfig({ restSeconds })}
+              />
+              <SettingField
+                label="Rounds"
+                value={config.rounds}
+                onChange={(rounds) => updateConfig({ rounds })}
+              />
+            </>
+          )}
+        </View>
+        {suggestedConfig && !editedConfig && (
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            Set from the workout
+          </Text>
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  // For Time can run uncapped; the others need a length to count down
+  const canStart =
+    config.format === "for_time" ||
+    (config.workSeconds > 0 && config.rounds > 0);
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["top"]}
+    >
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <Text variant="titleLarge" style={styles.headerTitle} numberOfLines={1}>
+          {workout?.title ?? "Timer"}
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {status === "idle" && renderSettings()}
+
+        {/* Clock */}
+        <View
+          style={[
+            styles.clockContainer,
+            snapshot.phase === "rest" && {
+              backgroundColor: theme.colors.secondaryContainer,
+            },
+            snapshot.phase === "work" &&
+              status !== "idle" && {
+                backgroundColor: theme.colors.primaryContainer,
+              },
+          ]}
+        >
+          <Text variant="titleMedium" style={styles.phaseLabel}>
+            {status === "idle"
+              ? workoutFormatLabel(config.format)
+              : status === "finished"
+                ? "Finished"
+                : PHASE_LABELS[snapshot.phase]}
+          </Text>
+          <Text style={[styles.clock, { color: theme.colors.onSurface }]}>
+            {clock}
+          </Text>
+          {(config.format === "emom" || config.format === "tabata") && (
+            <Text variant="titleMedium">
+              Round {snapshot.round} / {config.rounds}
+            </Text>
+          )}
+          {config.format === "amrap" && status !== "idle" && (
+            <Text variant="titleMedium">
+              {timer.rounds} round{timer.rounds === 1 ? "" : "s"}
+            </Text>
+          )}
+          {config.format === "for_time" && config.workSeconds > 0 && (
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Cap {formatClock(config.workSeconds * 1000, false)}
+            </Text>
+          )}
+        </View>
+
+        {/* Controls */}
+        {status === "idle" && (
+          <Button
+            mode="contained"
+            onPress={timer.start}
+            disabled={!canStart}
+            style={styles.primaryButton}
+            contentStyle={styles.primaryButtonContent}
+            icon={() => <Play size={20} color={theme.colors.onPrimary} />}
+          >
+            Start
+          </Button>
+        )}
+
+        {(status === "running" || status === "paused") && (
+          <>
+            {config.format === "amrap" && snapshot.phase === "work" && (
+              <Button
+                mode="contained"
+                onPress={timer.addRound}
+                style={styles.primaryButton}
+                contentStyle={styles.primaryButtonContent}
+                icon={() => <Plus size={20} color={theme.colors.onPrimary} />}
+              >
+                Round
+              </Button>
+            )}
+            {config.format === "for_time" && snapshot.phase === "work" && (
+              <View style={styles.row}>
+                <Button
+                  mode="contained-tonal"
+                  onPress={timer.captureSplit}
+                  style={styles.rowButton}
+                  contentStyle={styles.primaryButtonContent}
+                >
+                  Split
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={timer.finish}
+                  style={styles.rowButton}
+                  contentStyle={styles.primaryButtonContent}
+                  icon={() => <Flag size={20} color={theme.colors.onPrimary} />}
+                >
+                  Finish
+                </Button>
+              </View>
+            )}
+            <View style={styles.row}>
+              <Button
+                mode="outlined"
+                onPress={status === "running" ? timer.pause : timer.resume}
+                style={styles.rowButton}
+                icon={() =>
+                  status === "running" ? (
+                    <Pause size={18} color={theme.colors.onSurface} />
+                  ) : (
+                    <Play size={18} color={theme.colors.onSurface} />
+                  )
+                }
+              >
+                {status === "running" ? "Pause" : "Resume"}
+              </Button>
+              <Button
+                mode="outlined"
+                onPress={handleReset}
+                style={styles.rowButton}
+                icon={() => (
+                  <RotateCcw size={18} color={theme.colors.onSurface} />
+                )}
+              >
+                Reset
+              </Button>
+            </View>
+            {/* EMOM and Tabata can end early; AMRAP ends on the clock */}
+            {config.format !== "amrap" && config.format !== "for_time" && (
+              <Button mode="text" onPress={timer.finish}>
+                End Early
+              </Button>
+            )}
+          </>
+        )}
+
+        {timer.splits.length > 0 && (
+          <Card>
+            <Card.Title title="Splits" />
+            <Card.Content>
+              {timer.splits.map((ms, index) => (
+                <View key={`${index}-${ms}`} style={styles.splitRow}>
+                  <Text variant="bodyMedium">Split {index + 1}</Text>
+                  <Text variant="bodyMedium">
+                    {formatClock(ms, false)}
+                    {index > 0 &&
+                      `  (+${formatClock(ms - timer.splits[index - 1], false)})`}
+                  </Text>
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Result */}
+        {status === "finished" && (
+          <Card>
+            <Card.Title title="Save Result" />
+            <Card.Content style={styles.settings}>
+              {config.format === "amrap" && (
+                <View style={styles.settingRow}>
+                  <SettingField
+                    label="Rounds"
+                    value={timer.rounds}
+                    onChange={timer.setRounds}
+                  />
+                  <SettingField
+                    label="Extra reps"
+                    value={extraReps}
+                    onChange={setExtraReps}
+                  />
+                </View>
+              )}
+              <TextInput
+                label="Notes"
+                value={notes}
+                onChangeText={setNotes}
+                mode="outlined"
+                multiline
+              />
+              <View style={styles.row}>
+                <Button
+                  mode="outlined"
+                  onPress={handleReset}
+                  style={styles.rowButton}
+                >
+                  Discard
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={handleSave}
+                  loading={saveResult.isPending}
+                  disabled={saveResult.isPending}
+                  style={styles.rowButton}
+                >
+                  Save
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  settings: {
+    gap: 12,
+  },
+  settingRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  settingField: {
+    flex: 1,
+  },
+  clockContainer: {
+    alignItems: "center",
+    paddingVertical: 32,
+    borderRadius: 16,
+    gap: 8,
+  },
+  phaseLabel: {
+    textTransform: "uppercase",
+    letterSpacing: 2,
+  },
+  clock: {
+    fontSize: 88,
+    fontWeight: "bold",
+    fontVariant: ["tabular-nums"],
+  },
+  primaryButton: {
+    borderRadius: 12,
+  },
+  primaryButtonContent: {
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  splitRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+});
@@ -25,6 +25,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { AddClientModal } from "@/components/dashboard/AddClientModal";
 import { useClients } from "@/hooks/useClients";
 import { useCreateProgram } from "@/hooks/usePrograms";
+import { redact } from "@/lib/debug/redact";
 import {
   type EntityType,
   type ProgramInput,
@@ -98,9 +99,9 @@ export default function CreateProgramScreen() {
   const onSubmit = async (data: ProgramInput) => {
     try {
       setIsLoading(true);
-      console.log("[CreateProgram] Submitting form data:", data);
+      console.log("[CreateProgram] Submitting form data:", redact(data));
       const result = await createProgram.mutateAsync(data);
-      console.log("[CreateProgram] Result:", result);
+      console.log("[CreateProgram] Result:", redact(result));
       Alert.alert("Success", "Program created successfully", [
         {
           text: "OK",
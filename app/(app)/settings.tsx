@@ -1,6 +1,8 @@
 import { router } from "expo-router";
 import { Text, TouchableOpacity, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { DemoModeCard } from "@/components/settings/DemoModeCard";
+import { GenerationQuotaCard } from "@/components/settings/GenerationQuotaCard";
 import { useAuth } from "@/hooks/useAuth";
 
 export default function SettingsScreen() {
@@ -15,12 +17,18 @@ export default function SettingsScreen() {
     <SafeAreaView className="flex-1 bg-background">
       <View className="flex-1 px-6">
         <View className="py-6">
-          <Text className="text-3xl font-bold text-foreground mb-2">
+          <Text
+            className="text-3xl font-bold text-foreground mb-2"
+            onLongPress={() => router.push("/(app)/debug")}
+          >
             Settings
           </Text>
         </View>
 
         <View className="space-y-4">
+          <GenerationQuotaCard />
+          <DemoModeCard />
+
           <View className="bg-muted p-4 rounded-lg">
             <Text className="text-foreground font-semibold mb-2">Account</Text>
             <Text className="text-muted-foreground">
@@ -0,0 +1,298 @@
+import { useRouter } from "expo-router";
+import { CalendarCheck, ChevronRight } from "lucide-react-native";
+import { useState } from "react";
+import {
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ActivityIndicator, Card, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { SyncStatusBanner } from "@/components/offline/SyncStatusBanner";
+import { AgendaWorkoutCard } from "@/components/today/AgendaWorkoutCard";
+import { useTodayAgenda } from "@/hooks/useTodayAgenda";
+import type { CalendarWorkout } from "@/lib/schedule/calendar";
+
+const formatDay = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+
+export default function TodayScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const {
+    today,
+    todayByEntity,
+    upcoming,
+    isLoading,
+    error,
+    refetch,
+    toggleComplete,
+    saveNotes,
+  } = useTodayAgenda();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const todayEntries = todayByEntity.flatMap((group) => group.entries);
+  const completedCount = todayEntries.filter(
+    (entry) => entry.workout.completed,
+  ).length;
+
+  const openWorkout = (workout: CalendarWorkout, screen = "") =>
+    router.push(
+      `/programs/${workout.program_id}/workout/${workout.id}${screen}`,
+    );
+
+  const handleToggleComplete = async (workout: CalendarWorkout) => {
+    const result = await toggleComplete(workout);
+    if (!result.success) {
+      Alert.alert("Error", result.error ?? "Failed to update workout");
+    }
+  };
+
+  const handleSaveNotes = async (workout: CalendarWorkout, notes: string) => {
+    const result = await saveNotes(workout, notes);
+    if (!result.success) {
+      Alert.alert("Error", result.error ?? "Failed to save notes");
+    }
+    return result.success;
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      {/* Header */}
+      <View
+        style={[styles.header, { borderColor: theme.colors.outlineVariant }]}
+      >
+        <Text variant="headlineMedium" style={styles.headerTitle}>
+          Today
+        </Text>
+        <Text
+          variant="bodyMedium"
+          style={{ color: theme.colors.onSurfaceVariant }}
+        >
+          {formatDay(today, { weekday: "long", month: "long", day: "numeric" })}
+          {todayEntries.length > 0 &&
+            ` · ${completedCount}/${todayEntries.length} done`}
+        </Text>
+      </View>
+
+      <SyncStatusBanner />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : error ? (
+          <Text
+            variant="bodyMedium"
+            style={[styles.message, { color: theme.colors.error }]}
+          >
+            {error}
+          </Text>
+        ) : (
+          <>
+            {/* Today, by client or class */}
+            {todayByEntity.length > 0 ? (
+              todayByEntity.map((group) => (
+                <View key={group.entityId ?? ""} style={styles.section}>
+                  <TouchableOpacity
+                    disabled={!group.entityId}
+                    onPress={() =>
+                      router.push(`/(app)/clients/${group.entityId}`)
+                    }
+                    style={styles.entityHeader}
+                  >
+                    <Text variant="titleMedium" style={styles.entityName}>
+                      {group.entityName}
+                    </Text>
+                    <Text
+                      variant="bodySmall"
+                      style={{ color: theme.colors.onSurfaceVariant }}
+                    >
+                      {group.entries.length} workout
+                      {group.entries.length !== 1 ? "s" : ""}
+                    </Text>
+                  </TouchableOpacity>
+                  {group.entries.map(({ workout, program }) => (
+                    <AgendaWorkoutCard
+                      key={workout.id}
+                      workout={workout}
+                      programName={program?.name}
+                      onPress={() => openWorkout(workout)}
+                      onToggleComplete={() => handleToggleComplete(workout)}
+                      onStartTimer={() => openWorkout(workout, "/timer")}
+                      onSaveNotes={(notes) => handleSaveNotes(workout, notes)}
+                    />
+                  ))}
+                </View>
+              ))
+            ) : (
+              <Card style={[styles.card, styles.section]}>
+                <Card.Content style={styles.emptyStateContent}>
+                  <CalendarCheck size={48} color={theme.colors.outline} />
+                  <Text
+                    variant="bodyMedium"
+                    style={[
+                      styles.emptyStateText,
+                      { color: theme.colors.onSurfaceVariant },
+                    ]}
+                  >
+                    Nothing scheduled today.
+                  </Text>
+                </Card.Content>
+              </Card>
+            )}
+
+            {/* Next 7 days */}
+            <View style={styles.section}>
+              <Text variant="titleLarge" style={styles.sectionTitle}>
+                Next 7 Days
+              </Text>
+              {upcoming.length > 0 ? (
+                upcoming.map((day) => (
+                  <Card key={day.date} style={[styles.card, styles.dayCard]}>
+                    <Card.Content>
+                      <Text variant="titleSmall" style={styles.dayLabel}>
+                        {formatDay(day.date, {
+                          weekday: "long",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </Text>
+                      {day.entries.map(({ workout, entityName }) => (
+                        <TouchableOpacity
+                          key={workout.id}
+                          onPress={() => openWorkout(workout)}
+                          style={styles.upcomingRow}
+                        >
+                          <View style={styles.upcomingText}>
+                            <Text variant="bodyMedium" numberOfLines={1}>
+                              {workout.title}
+                            </Text>
+                            <Text
+                              variant="bodySmall"
+                              style={{ color: theme.colors.onSurfaceVariant }}
+                            >
+                              {entityName}
+                            </Text>
+                          </View>
+                          <ChevronRight
+                            size={18}
+                            color={theme.colors.onSurfaceVariant}
+                          />
+                        </TouchableOpacity>
+                      ))}
+                    </Card.Content>
+                  </Card>
+                ))
+              ) : (
+                <Text
+                  variant="bodyMedium"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  Nothing scheduled this week.
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontWeight: "bold",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  message: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  entityHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  entityName: {
+    fontWeight: "600",
+  },
+  card: {
+    backgroundColor: "white",
+  },
+  dayCard: {
+    marginBottom: 8,
+  },
+  dayLabel: {
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  upcomingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  upcomingText: {
+    flex: 1,
+  },
+  emptyStateContent: {
+    padding: 24,
+    alignItems: "center",
+  },
+  emptyStateText: {
+    textAlign: "center",
+    marginTop: 12,
+  },
+});
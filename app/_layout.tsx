@@ -1,9 +1,12 @@
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { MD3DarkTheme, MD3LightTheme, PaperProvider } from "react-native-paper";
 import { AuthProvider } from "@/components/providers/AuthProvider";
 import { QueryProvider } from "@/components/providers/QueryProvider";
+import { loadDemoSettings } from "@/lib/demo/demoMode";
+import { startOutboxSync } from "@/lib/offline/outbox";
 
 // Custom theme matching brand colors
 const theme = {
@@ -44,6 +47,13 @@ const theme = {
 };
 
 export default function RootLayout() {
+  useEffect(() => {
+    loadDemoSettings();
+  }, []);
+
+  // Replays workout changes made while offline
+  useEffect(() => startOutboxSync(), []);
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <PaperProvider theme={theme}>
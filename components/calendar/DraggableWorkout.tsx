@@ -0,0 +1,138 @@
+import { Check } from "lucide-react-native";
+import { useMemo, useRef, useState } from "react";
+import { Animated, StyleSheet, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { Text, useTheme } from "react-native-paper";
+
+type DraggableWorkoutProps = {
+  title: string;
+  // Program or client name under the title
+  subtitle?: string;
+  note?: string;
+  completed?: boolean;
+  color: string;
+  onPress: () => void;
+  onDragStart: () => void;
+  // Window coordinates where it was let go
+  onDrop: (x: number, y: number) => void;
+  onDragEnd: () => void;
+};
+
+// A workout on the calendar: tap to open, long-press and drag to move it to
+// another day
+export function DraggableWorkout({
+  title,
+  subtitle,
+  note,
+  completed,
+  color,
+  onPress,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}: DraggableWorkoutProps) {
+  const theme = useTheme();
+  const translate = useRef(new Animated.ValueXY()).current;
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Gesture callbacks run on the JS thread; the calendar needs them there
+  const gesture = useMemo(() => {
+    const drag = Gesture.Pan()
+      .runOnJS(true)
+      .activateAfterLongPress(300)
+      .onStart(() => {
+        setIsDragging(true);
+        onDragStart();
+      })
+      .onUpdate((event) => {
+        translate.setValue({ x: event.translationX, y: event.translationY });
+      })
+      .onEnd((event) => {
+        onDrop(event.absoluteX, event.absoluteY);
+      })
+      .onFinalize(() => {
+        setIsDragging(false);
+        translate.setValue({ x: 0, y: 0 });
+        onDragEnd();
+      });
+    const tap = Gesture.Tap()
+      .runOnJS(true)
+      .onEnd((_event, success) => {
+        if (success) onPress();
+      });
+    return Gesture.Exclusive(drag, tap);
+  }, [translate, onDragStart, onDrop, onDragEnd, onPress]);
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View
+        style={[
+          styles.chip,
+          {
+            backgroundColor: theme.colors.surface,
+            borderLeftColor: color,
+            transform: translate.getTranslateTransform(),
+          },
+          completed && styles.completed,
+          isDragging && styles.dragging,
+        ]}
+      >
+        <View style={styles.titleRow}>
+          {completed && <Check size={14} color={theme.colors.tertiary} />}
+          <Text variant="bodyMedium" numberOfLines={1} style={styles.title}>
+            {title}
+          </Text>
+        </View>
+        {subtitle ? (
+          <Text
+            variant="bodySmall"
+            numberOfLines={1}
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {subtitle}
+          </Text>
+        ) : null}
+        {note ? (
+          <Text
+            variant="labelSmall"
+            numberOfLines={1}
+            style={{ color: theme.colors.primary }}
+          >
+            {note}
+          </Text>
+        ) : null}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginTop: 6,
+  },
+  completed: {
+    opacity: 0.6,
+  },
+  dragging: {
+    opacity: 0.9,
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+    zIndex: 10,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  title: {
+    flex: 1,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import {
+  Button,
+  Chip,
+  Modal,
+  Portal,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from "react-native-paper";
+
+type ShiftProgramModalProps = {
+  visible: boolean;
+  programs: { id: string; name: string }[];
+  // Preselected program, e.g. the one the calendar is filtered to
+  programId: string | null;
+  fromDate: string;
+  // Incomplete workouts of a program on or after fromDate
+  countFor: (programId: string) => number;
+  isSaving: boolean;
+  onDismiss: () => void;
+  onConfirm: (programId: string, days: number) => void;
+};
+
+const SHIFT_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "1 week" },
+  { value: "14", label: "2 weeks" },
+];
+
+const formatDateKey = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+export function ShiftProgramModal({
+  visible,
+  programs,
+  programId,
+  fromDate,
+  countFor,
+  isSaving,
+  onDismiss,
+  onConfirm,
+}: ShiftProgramModalProps) {
+  const theme = useTheme();
+  const [selectedId, setSelectedId] = useState<string | null>(programId);
+  const [days, setDays] = useState("7");
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedId(
+        programId ?? (programs.length === 1 ? programs[0].id : null),
+      );
+      setDays("7");
+    }
+  }, [visible, programId, programs]);
+
+  const count = selectedId ? countFor(selectedId) : 0;
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { backgroundColor: theme.colors.background },
+        ]}
+      >
+        <Text variant="headlineSmall" style={styles.title}>
+          Shift Program
+        </Text>
+        <Text
+          variant="bodyMedium"
+          style={[styles.description, { color: theme.colors.onSurfaceVariant }]}
+        >
+          Push every incomplete workout from {formatDateKey(fromDate)} onward
+          later, e.g. after a missed week.
+        </Text>
+
+        {programs.length > 1 && (
+          <View style={styles.programs}>
+            {programs.map((program) => (
+              <Chip
+                key={program.id}
+                selected={selectedId === program.id}
+                onPress={() => setSelectedId(program.id)}
+                compact
+              >
+                {program.name}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        <SegmentedButtons
+          value={days}
+          onValueChange={setDays}
+          buttons={SHIFT_OPTIONS}
+          style={styles.options}
+        />
+
+        <Text variant="bodySmall" style={styles.summary}>
+          {selectedId
+            ? `${count} workout${count === 1 ? "" : "s"} will move`
+            : "Pick a program to shift"}
+        </Text>
+
+        <View style={styles.buttonContainer}>
+          <Button mode="outlined" onPress={onDismiss} style={styles.button}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() => selectedId && onConfirm(selectedId, Number(days))}
+            loading={isSaving}
+            disabled={isSaving || !selectedId || count === 0}
+            style={styles.button}
+          >
+            Shift
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    padding: 24,
+    margin: 20,
+    borderRadius: 12,
+  },
+  title: {
+    marginBottom: 8,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  description: {
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  programs: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 16,
+  },
+  options: {
+    marginBottom: 12,
+  },
+  summary: {
+    textAlign: "center",
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,171 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { Alert, StyleSheet, View } from "react-native";
+import {
+  Button,
+  HelperText,
+  Modal,
+  Portal,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import type { z } from "zod";
+import { type Client, useUpdateClient } from "@/hooks/useClients";
+import {
+  type ClientInput,
+  clientSchema,
+  type EntityType,
+} from "@/lib/validations/program.schema";
+
+interface EditClientModalProps {
+  visible: boolean;
+  client: Client;
+  onClose: () => void;
+}
+
+export function EditClientModal({
+  visible,
+  client,
+  onClose,
+}: EditClientModalProps) {
+  const theme = useTheme();
+  const updateClient = useUpdateClient(client.id);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<z.input<typeof clientSchema>, unknown, ClientInput>({
+    resolver: zodResolver(clientSchema),
+    defaultValues: { name: client.name, type: client.type, notes: "" },
+  });
+
+  // Start from the saved values each time the modal opens
+  useEffect(() => {
+    if (visible) reset({ name: client.name, type: client.type, notes: "" });
+  }, [visible, client.name, client.type, reset]);
+
+  const entityType = watch("type") ?? "CLIENT";
+
+  const onSubmit = async (data: ClientInput) => {
+    try {
+      await updateClient.mutateAsync({ name: data.name, type: data.type });
+      onClose();
+    } catch (error: unknown) {
+      const message =
+        error instanceof Error ? error.message : "Failed to update";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onClose}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { backgroundColor: theme.colors.background },
+        ]}
+      >
+        <Text variant="headlineSmall" style={styles.title}>
+          Edit {entityType === "CLASS" ? "Class" : "Client"}
+        </Text>
+
+        <View style={styles.form}>
+          <SegmentedButtons
+            value={entityType}
+            onValueChange={(value) => setValue("type", value as EntityType)}
+            buttons={[
+              { value: "CLIENT", label: "Client", icon: "account" },
+              { value: "CLASS", label: "Class", icon: "account-group" },
+            ]}
+            style={styles.segmentedButtons}
+          />
+
+          <Controller
+            control={control}
+            name="name"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <View style={styles.inputContainer}>
+                <TextInput
+                  label={entityType === "CLIENT" ? "Client Name" : "Class Name"}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  error={!!errors.name}
+                  autoCapitalize="words"
+                  mode="outlined"
+                  style={styles.input}
+                />
+                <HelperText type="error" visible={!!errors.name}>
+                  {errors.name?.message}
+                </HelperText>
+              </View>
+            )}
+          />
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              disabled={updateClient.isPending}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit(onSubmit)}
+              loading={updateClient.isPending}
+              disabled={updateClient.isPending}
+              style={styles.button}
+            >
+              Save
+            </Button>
+          </View>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    padding: 24,
+    margin: 20,
+    borderRadius: 12,
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  form: {
+    gap: 4,
+  },
+  inputContainer: {
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  segmentedButtons: {
+    marginBottom: 12,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,301 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { ScrollView, StyleSheet, View } from "react-native";
+import {
+  Button,
+  Chip,
+  HelperText,
+  Modal,
+  Portal,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import {
+  BODY_AREA_LABELS,
+  type BodyArea,
+  type ClientRestriction,
+  restrictionFromForm,
+  restrictionToForm,
+} from "@/lib/clients/restrictions";
+import {
+  bodyAreaEnum,
+  type InjurySeverity,
+  type RestrictionFormInput,
+  restrictionFormSchema,
+} from "@/lib/validations/restriction.schema";
+
+interface RestrictionModalProps {
+  visible: boolean;
+  // The restriction being edited, or a new one
+  restriction: ClientRestriction | null;
+  isNew: boolean;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (restriction: ClientRestriction) => void;
+  onDelete?: (restriction: ClientRestriction) => void;
+}
+
+export function RestrictionModal({
+  visible,
+  restriction,
+  isNew,
+  isSaving,
+  onClose,
+  onSave,
+  onDelete,
+}: RestrictionModalProps) {
+  const theme = useTheme();
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<RestrictionFormInput>({
+    resolver: zodResolver(restrictionFormSchema),
+  });
+
+  // Load the restriction each time the modal opens
+  useEffect(() => {
+    if (visible && restriction) reset(restrictionToForm(restriction));
+  }, [visible, restriction, reset]);
+
+  const area = watch("area");
+  const side = watch("side");
+  const severity = watch("severity");
+
+  const onSubmit = (data: RestrictionFormInput) => {
+    if (!restriction) return;
+    onSave(restrictionFromForm(restriction.id, data));
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onClose}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { backgroundColor: theme.colors.background },
+        ]}
+      >
+        <ScrollView keyboardShouldPersistTaps="handled">
+          <Text variant="headlineSmall" style={styles.title}>
+            {isNew ? "Add Restriction" : "Edit Restriction"}
+          </Text>
+
+          <Text variant="labelLarge" style={styles.label}>
+            Body Area
+          </Text>
+          <View style={styles.chipRow}>
+            {bodyAreaEnum.options.map((option: BodyArea) => (
+              <Chip
+                key={option}
+                selected={area === option}
+                showSelectedOverlay
+                onPress={() => setValue("area", option)}
+                compact
+              >
+                {BODY_AREA_LABELS[option]}
+              </Chip>
+            ))}
+          </View>
+
+          <Text variant="labelLarge" style={styles.label}>
+            Side
+          </Text>
+          <SegmentedButtons
+            value={side ?? "none"}
+            onValueChange={(value) =>
+              setValue("side", value as RestrictionFormInput["side"])
+            }
+            buttons={[
+              { value: "none", label: "N/A" },
+              { value: "left", label: "Left" },
+              { value: "right", label: "Right" },
+              { value: "both", label: "Both" },
+            ]}
+            density="small"
+            style={styles.segmentedButtons}
+          />
+
+          <Text variant="labelLarge" style={styles.label}>
+            Severity
+          </Text>
+          <SegmentedButtons
+            value={severity ?? "mild"}
+            onValueChange={(value) =>
+              setValue("severity", value as InjurySeverity)
+            }
+            buttons={[
+              { value: "mild", label: "Mild" },
+              { value: "moderate", label: "Moderate" },
+              { value: "severe", label: "Severe" },
+            ]}
+            density="small"
+            style={styles.segmentedButtons}
+          />
+
+          <Controller
+            control={control}
+            name="description"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <TextInput
+                label="Description"
+                placeholder="e.g. Patellar tendinopathy, cleared for light squats"
+                value={value}
+                onChangeText={onChange}
+                onBlur={onBlur}
+                multiline
+                mode="outlined"
+                style={styles.input}
+              />
+            )}
+          />
+
+          <View style={styles.dateRow}>
+            <Controller
+              control={control}
+              name="start_date"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <View style={styles.dateField}>
+                  <TextInput
+                    label="Since"
+                    placeholder="YYYY-MM-DD"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    error={!!errors.start_date}
+                    mode="outlined"
+                    style={styles.input}
+                  />
+                  <HelperText type="error" visible={!!errors.start_date}>
+                    {errors.start_date?.message}
+                  </HelperText>
+                </View>
+              )}
+            />
+            <Controller
+              control={control}
+              name="end_date"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <View style={styles.dateField}>
+                  <TextInput
+                    label="Until"
+                    placeholder="Ongoing"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    error={!!errors.end_date}
+                    mode="outlined"
+                    style={styles.input}
+                  />
+                  <HelperText type="error" visible={!!errors.end_date}>
+                    {errors.end_date?.message}
+                  </HelperText>
+                </View>
+              )}
+            />
+          </View>
+
+          <Controller
+            control={control}
+            name="avoid_movements"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <View>
+                <TextInput
+                  label="Movements to Avoid"
+                  placeholder="Box jumps, pistol squats, lunges"
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  mode="outlined"
+                  style={styles.input}
+                />
+                <HelperText type="info" visible>
+                  Separate with commas. Workouts containing these are flagged.
+                </HelperText>
+              </View>
+            )}
+          />
+
+          <View style={styles.buttonContainer}>
+            {!isNew && onDelete && restriction && (
+              <Button
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={() => onDelete(restriction)}
+                disabled={isSaving}
+              >
+                Delete
+              </Button>
+            )}
+            <View style={styles.buttonSpacer} />
+            <Button mode="outlined" onPress={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit(onSubmit)}
+              loading={isSaving}
+              disabled={isSaving}
+            >
+              Save
+            </Button>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    padding: 24,
+    margin: 20,
+    borderRadius: 12,
+    maxHeight: "90%",
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  label: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 12,
+  },
+  segmentedButtons: {
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+  },
+  dateField: {
+    flex: 1,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+  },
+  buttonSpacer: {
+    flex: 1,
+  },
+});
@@ -1,4 +1,4 @@
-import { FileText, Mail } from "lucide-react-native";
+import { FileText, User, Users } from "lucide-react-native";
 import { StyleSheet, TouchableOpacity, View } from "react-native";
 import { Card, Text, useTheme } from "react-native-paper";
 import type { Client } from "@/hooks/useClients";
@@ -21,12 +21,16 @@ export function ClientCard({ client, onPress }: ClientCardProps) {
 
           <View style={styles.contentGap}>
             <View style={styles.row}>
-              <Mail size={14} color={theme.colors.onSurfaceVariant} />
+              {client.type === "CLASS" ? (
+                <Users size={14} color={theme.colors.onSurfaceVariant} />
+              ) : (
+                <User size={14} color={theme.colors.onSurfaceVariant} />
+              )}
               <Text
                 variant="bodySmall"
                 style={{ color: theme.colors.onSurfaceVariant }}
               >
-                {client.email}
+                {client.type === "CLASS" ? "Class" : "Client"}
               </Text>
             </View>
 
@@ -67,7 +67,9 @@ export function ProgramCard({ program }: ProgramCardProps) {
                   variant="bodySmall"
                   style={{ color: theme.colors.onSurfaceVariant }}
                 >
-                  {program.workout_count} workouts
+                  {program.completed_count !== undefined
+                    ? `${program.completed_count}/${program.workout_count} workouts done`
+                    : `${program.workout_count} workouts`}
                 </Text>
               </View>
             )}
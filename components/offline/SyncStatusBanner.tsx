@@ -0,0 +1,98 @@
+import { CloudOff, RefreshCw } from "lucide-react-native";
+import { StyleSheet, View } from "react-native";
+import { Button, Text, useTheme } from "react-native-paper";
+import { useOutbox } from "@/hooks/useOutbox";
+
+type SyncStatusBannerProps = {
+  // When the data on screen came from the offline cache
+  cachedAt?: string | null;
+};
+
+const formatCachedAt = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Offline / unsynced-changes notice shown above workout screens
+ * Renders nothing when online with an empty outbox.
+ */
+export function SyncStatusBanner({ cachedAt }: SyncStatusBannerProps) {
+  const theme = useTheme();
+  const { pending, issues, isFlushing, isOnline, sync, dismissIssues } =
+    useOutbox();
+
+  if (issues.length > 0) {
+    return (
+      <View
+        style={[
+          styles.banner,
+          { backgroundColor: theme.colors.errorContainer },
+        ]}
+      >
+        <Text
+          variant="bodySmall"
+          style={[styles.message, { color: theme.colors.onErrorContainer }]}
+        >
+          {issues.length} offline change{issues.length !== 1 ? "s" : ""}{" "}
+          couldn't be saved. {issues[0].message}.
+        </Text>
+        <Button compact mode="text" onPress={dismissIssues}>
+          Dismiss
+        </Button>
+      </View>
+    );
+  }
+
+  if (isOnline && pending.length === 0 && !cachedAt) return null;
+
+  const parts = [
+    isOnline ? null : "You're offline",
+    pending.length > 0
+      ? `${pending.length} change${pending.length !== 1 ? "s" : ""} waiting to sync`
+      : null,
+    cachedAt ? `Showing data from ${formatCachedAt(cachedAt)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <View
+      style={[styles.banner, { backgroundColor: theme.colors.surfaceVariant }]}
+    >
+      <CloudOff size={16} color={theme.colors.onSurfaceVariant} />
+      <Text
+        variant="bodySmall"
+        style={[styles.message, { color: theme.colors.onSurfaceVariant }]}
+      >
+        {parts.join(" • ")}
+      </Text>
+      {pending.length > 0 && (
+        <Button
+          compact
+          mode="text"
+          onPress={() => sync()}
+          loading={isFlushing}
+          disabled={isFlushing}
+          icon={({ size, color }) => <RefreshCw size={size} color={color} />}
+        >
+          Sync
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  message: {
+    flex: 1,
+  },
+});
@@ -1,3 +1,4 @@
+import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Alert, ScrollView, StyleSheet, View } from "react-native";
@@ -10,6 +11,13 @@ import {
   Text,
   useTheme,
 } from "react-native-paper";
+import { SyncStatusBanner } from "@/components/offline/SyncStatusBanner";
+import { useClientRestrictions } from "@/hooks/useClients";
+import { useGenerationEstimate } from "@/hooks/useGenerationEstimate";
+import {
+  checkGenerationQuota,
+  useGenerationQuota,
+} from "@/hooks/useGenerationQuota";
 import { useProgramDataMobile } from "@/hooks/useProgramDataMobile";
 import { useProgramGeneration } from "@/hooks/useProgramGeneration";
 import { useProgramWorkoutsMobile } from "@/hooks/useProgramWorkoutsMobile";
@@ -17,10 +25,23 @@ import {
   equipmentList,
   gymEquipmentPresets,
 } from "@/lib/constants/programConfig";
+import {
+  getWeekDateRange,
+  isDateInRange,
+  toDateKey,
+} from "@/lib/generation/programSlots";
+import { runOrQueueMutation } from "@/lib/offline/outbox";
+import {
+  removeWorkoutFromCache,
+  upsertWorkoutInCache,
+} from "@/lib/query/cachePatches";
 import { supabase } from "@/lib/supabase/client";
+import { MAX_PROGRAM_WEEKS } from "@/lib/validations/program.schema";
 
 import { GenerationConfirmModal } from "./GenerationConfirmModal";
+import { GenerationDraftReview } from "./GenerationDraftReview";
 import { GenerationProgress } from "./GenerationProgress";
+import { ProgramDatesModal } from "./ProgramDatesModal";
 import { ProgramDetailsSection } from "./ProgramDetailsSection";
 import { ProgramEssentials } from "./ProgramEssentials";
 import { ProgramScheduling } from "./ProgramScheduling";
@@ -73,6 +94,7 @@ const defaultFormState: FormState = {
 export function AIProgramWriter({ programId }: AIProgramWriterProps) {
   const theme = useTheme();
   const router = useRouter();
+  const queryClient = useQueryClient();
 
   // Data hooks
   const {
@@ -84,6 +106,7 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
     workouts,
     loading: workoutsLoading,
     refetch: refetchWorkouts,
+    cachedAt: workoutsCachedAt,
   } = useProgramWorkoutsMobile(programId);
   const {
     isGenerating,
@@ -92,15 +115,38 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
     streamingWorkouts,
     error: generationError,
     duration,
+    status: generationStatus,
+    warnings: generationWarnings,
+    partial: partialGeneration,
+    draft: generationDraft,
+    isCommittingDraft,
     generateProgram,
+    generateRange,
+    generateMissingWorkouts,
     cancel: cancelGeneration,
+    updateDraftWorkout,
+    setDraftWorkoutRejected,
+    acceptAllDraftWorkouts,
+    discardDraft,
+    commitDraft,
   } = useProgramGeneration(programId);
+  const { data: generationQuota, refetch: refetchQuota } = useGenerationQuota();
 
   // Form state
   const [formState, setFormState] = useState<FormState>(defaultFormState);
   const [isDirty, setIsDirty] = useState(false);
+  const { restrictions } = useClientRestrictions(formState.entityId);
   const [isSaving, setIsSaving] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [showDatesModal, setShowDatesModal] = useState(false);
+  const pausedFrom = program?.calendar_data?.paused_from;
+  // A shifted or paused program can run longer than the builder allows; it
+  // can still be regenerated at its current length
+  const maxWeeks = Math.max(
+    MAX_PROGRAM_WEEKS,
+    program?.calendar_data?.duration_weeks || program?.duration_weeks || 0,
+  );
+  const [reviewBeforeSaving, setReviewBeforeSaving] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState("");
 
   // Initialize form state from program data
@@ -234,7 +280,9 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
         focus_area: formState.focusArea,
         goal: formState.goal,
         workout_format: formState.workoutFormats,
+        // Keeps fields the form doesn't edit, like a pause
         calendar_data: {
+          ...program?.calendar_data,
           start_date: formState.startDate,
           end_date: formState.endDate,
           duration_weeks: formState.numberOfWeeks,
@@ -270,7 +318,7 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
     } finally {
       setIsSaving(false);
     }
-  }, [programId, isDirty, formState]);
+  }, [programId, isDirty, formState, program]);
 
   // Auto-save on field blur
   const handleFieldBlur = useCallback(
@@ -300,8 +348,9 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
       {
         label: "Number of Weeks",
         value: `${formState.numberOfWeeks} weeks`,
-        isValid: formState.numberOfWeeks >= 1 && formState.numberOfWeeks <= 8,
-        errorMessage: "Select 1-8 weeks",
+        isValid:
+          formState.numberOfWeeks >= 1 && formState.numberOfWeeks <= maxWeeks,
+        errorMessage: `Select 1-${maxWeeks} weeks`,
       },
       {
         label: "Start Date",
@@ -322,17 +371,31 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
         errorMessage: "Select at least one equipment item",
       },
     ];
-  }, [formState]);
+  }, [formState, maxWeeks]);
 
   // Handle generation
   const handleGenerateClick = useCallback(() => {
     setShowConfirmModal(true);
   }, []);
 
-  const handleConfirmGeneration = useCallback(async () => {
-    setShowConfirmModal(false);
+  const generationEstimate = useGenerationEstimate(
+    formState.numberOfWeeks * formState.daysOfWeek.length,
+    formState.numberOfWeeks,
+    showConfirmModal,
+  );
+
+  // Blocks runs the user has no credits for before anything is streamed
+  const hasGenerationQuota = useCallback(() => {
+    const check = checkGenerationQuota(generationQuota);
+    if (!check.allowed) {
+      Alert.alert("No Generations Remaining", check.message);
+    }
+    return check.allowed;
+  }, [generationQuota]);
 
-    const formData = {
+  // Generation inputs derived from the form
+  const generationFormData = useMemo(
+    () => ({
       name: formState.name,
       description: formState.description,
       goal: formState.goal,
@@ -352,63 +415,202 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
       sessionDetails: { duration: formState.sessionDuration },
       programType: formState.programType,
       entityId: formState.entityId,
-    };
+    }),
+    [formState],
+  );
+
+  const handleConfirmGeneration = useCallback(async () => {
+    setShowConfirmModal(false);
 
     const isRegeneration = workouts.length > 0;
-    const result = await generateProgram(formData, isRegeneration);
+    const result = await generateProgram(generationFormData, isRegeneration, {
+      review: reviewBeforeSaving,
+    });
+    refetchQuota();
+
+    if (result.isDraft) {
+      // Held for review; nothing was saved yet
+      return;
+    }
 
     if (result.success) {
       setSnackbarMessage(`Created ${result.workoutsCreated} workouts`);
       refetchWorkouts();
+    } else if (result.outcome === "partial") {
+      // Keep what was saved; the progress card offers to fill the gaps
+      refetchWorkouts();
     }
-  }, [formState, workouts.length, generateProgram, refetchWorkouts]);
+  }, [
+    generationFormData,
+    workouts.length,
+    reviewBeforeSaving,
+    generateProgram,
+    refetchWorkouts,
+    refetchQuota,
+  ]);
 
-  // Handle workout actions
-  const handleDeleteWorkout = useCallback(async (workoutId: string) => {
+  const handleCommitDraft = useCallback(async () => {
+    const result = await commitDraft();
+    if (result.success) {
+      setSnackbarMessage(`Saved ${result.workoutsCreated} workouts`);
+      refetchWorkouts();
+    } else {
+      setSnackbarMessage(`Error: ${result.error}`);
+    }
+  }, [commitDraft, refetchWorkouts]);
+
+  const handleDiscardDraft = useCallback(() => {
     Alert.alert(
-      "Delete Workout",
-      "Are you sure you want to delete this workout?",
+      "Discard Draft",
+      "The generated workouts will be thrown away. Your program is unchanged.",
       [
         { text: "Cancel", style: "cancel" },
-        {
-          text: "Delete",
-          style: "destructive",
-          onPress: async () => {
-            try {
-              const { error } = await supabase
-                .from("program_workouts")
-                .delete()
-                .eq("id", workoutId);
-              if (error) throw error;
-              setSnackbarMessage("Workout deleted");
-            } catch (err) {
-              const message =
-                err instanceof Error ? err.message : "Unknown error";
-              setSnackbarMessage(`Error: ${message}`);
-            }
-          },
-        },
+        { text: "Discard", style: "destructive", onPress: discardDraft },
       ],
     );
-  }, []);
+  }, [discardDraft]);
+
+  const handleGenerateMissing = useCallback(async () => {
+    if (!partialGeneration || !hasGenerationQuota()) return;
+
+    const result = await generateMissingWorkouts(
+      generationFormData,
+      partialGeneration.missing,
+    );
+    refetchQuota();
+
+    if (result.workoutsCreated > 0) {
+      if (result.success) {
+        setSnackbarMessage(`Created ${result.workoutsCreated} workouts`);
+      }
+      refetchWorkouts();
+    }
+  }, [
+    partialGeneration,
+    generationFormData,
+    generateMissingWorkouts,
+    hasGenerationQuota,
+    refetchWorkouts,
+    refetchQuota,
+  ]);
+
+  // Scoped generation from the week selector
+  const handleGenerateWeek = useCallback(
+    (week: number) => {
+      const range = getWeekDateRange(formState.startDate, week);
+      if (!range) {
+        setSnackbarMessage("Set a start date to generate a single week");
+        return;
+      }
+      if (!hasGenerationQuota()) return;
+
+      const runWeek = async () => {
+        const result = await generateRange(generationFormData, range);
+        refetchQuota();
+        if (result.success) {
+          setSnackbarMessage(
+            `Created ${result.workoutsCreated} workouts for week ${week}`,
+          );
+        }
+        if (result.workoutsCreated > 0 || result.success) {
+          refetchWorkouts();
+        }
+      };
+
+      const hasWorkouts = workouts.some((workout) => {
+        const dateKey = toDateKey(workout.scheduled_date);
+        return !!dateKey && isDateInRange(dateKey, range);
+      });
+      if (!hasWorkouts) {
+        runWeek();
+        return;
+      }
+
+      Alert.alert(
+        `Regenerate Week ${week}`,
+        "Incomplete workouts in this week will be replaced. Completed workouts and those with logged results are kept.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Regenerate", onPress: runWeek },
+        ],
+      );
+    },
+    [
+      formState.startDate,
+      generationFormData,
+      generateRange,
+      hasGenerationQuota,
+      refetchWorkouts,
+      refetchQuota,
+      workouts,
+    ],
+  );
+
+  // Handle workout actions (queued while offline)
+  const handleDeleteWorkout = useCallback(
+    async (workoutId: string) => {
+      Alert.alert(
+        "Delete Workout",
+        "Are you sure you want to delete this workout?",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                const { queued } = await runOrQueueMutation({
+                  kind: "delete",
+                  workoutId,
+                  programId,
+                });
+                // Queued deletes are hidden by the outbox overlay until they
+                // replay
+                if (!queued) removeWorkoutFromCache(queryClient, workoutId);
+                setSnackbarMessage("Workout deleted");
+              } catch (err) {
+                const message =
+                  err instanceof Error ? err.message : "Unknown error";
+                setSnackbarMessage(`Error: ${message}`);
+              }
+            },
+          },
+        ],
+      );
+    },
+    [programId, queryClient],
+  );
 
   const handleToggleComplete = useCallback(
     async (workoutId: string, completed: boolean) => {
+      const previous = workouts.find((workout) => workout.id === workoutId);
+      const completedAt = completed ? new Date().toISOString() : null;
+
+      // Optimistically update local state
+      if (previous) {
+        upsertWorkoutInCache(queryClient, {
+          ...previous,
+          completed,
+          completed_at: completedAt ?? undefined,
+          updated_at: new Date().toISOString(),
+        });
+      }
+
       try {
-        const { error } = await supabase
-          .from("program_workouts")
-          .update({
-            completed,
-            completed_at: completed ? new Date().toISOString() : null,
-          })
-          .eq("id", workoutId);
-        if (error) throw error;
+        await runOrQueueMutation({
+          kind: "complete",
+          workoutId,
+          programId,
+          changes: { completed, completed_at: completedAt },
+        });
       } catch (err) {
+        // Rollback on error
+        if (previous) upsertWorkoutInCache(queryClient, previous);
         const message = err instanceof Error ? err.message : "Unknown error";
         setSnackbarMessage(`Error: ${message}`);
       }
     },
-    [],
+    [programId, queryClient, workouts],
   );
 
   if (programLoading) {
@@ -435,6 +637,7 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
 
   return (
     <View style={styles.container}>
+      <SyncStatusBanner cachedAt={workoutsCachedAt} />
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -451,16 +654,34 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
           )}
         </View>
 
-        {/* Generation Progress */}
-        {isGenerating && (
+        {/* Generation Progress (kept visible after a failed run) */}
+        {(isGenerating || stage === "error") && (
           <GenerationProgress
             stage={stage}
             progress={progress}
             streamingWorkouts={streamingWorkouts}
             duration={duration}
             error={generationError}
+            status={generationStatus}
+            warnings={generationWarnings}
+            partial={partialGeneration}
             onCancel={cancelGeneration}
             onRetry={handleGenerateClick}
+            onGenerateMissing={handleGenerateMissing}
+          />
+        )}
+
+        {/* Draft awaiting review */}
+        {generationDraft && !isGenerating && (
+          <GenerationDraftReview
+            draft={generationDraft}
+            isCommitting={isCommittingDraft}
+            onUpdateWorkout={updateDraftWorkout}
+            onToggleRejected={setDraftWorkoutRejected}
+            onAcceptAll={acceptAllDraftWorkouts}
+            onDiscard={handleDiscardDraft}
+            onCommit={handleCommitDraft}
+            restrictions={restrictions}
           />
         )}
 
@@ -514,11 +735,52 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
             <Text variant="titleLarge" style={styles.workoutsSectionTitle}>
               Workouts
             </Text>
-            <Text variant="bodySmall" style={styles.workoutCount}>
-              {workouts.length} workout{workouts.length !== 1 ? "s" : ""}
-            </Text>
+            <View style={styles.workoutsSectionActions}>
+              <Text variant="bodySmall" style={styles.workoutCount}>
+                {workouts.length} workout{workouts.length !== 1 ? "s" : ""}
+              </Text>
+              {workouts.length > 0 && !pausedFrom && (
+                <Button
+                  mode="text"
+                  compact
+                  onPress={() => setShowDatesModal(true)}
+                >
+                  Reschedule
+                </Button>
+              )}
+            </View>
           </View>
 
+          {pausedFrom && (
+            <View
+              style={[
+                styles.pausedBanner,
+                { backgroundColor: theme.colors.secondaryContainer },
+              ]}
+            >
+              <Text
+                variant="bodyMedium"
+                style={[
+                  styles.pausedText,
+                  { color: theme.colors.onSecondaryContainer },
+                ]}
+              >
+                Paused since{" "}
+                {new Date(`${pausedFrom}T00:00:00.000Z`).toLocaleDateString(
+                  "en-US",
+                  { month: "short", day: "numeric", timeZone: "UTC" },
+                )}
+              </Text>
+              <Button
+                mode="contained-tonal"
+                compact
+                onPress={() => setShowDatesModal(true)}
+              >
+                Resume
+              </Button>
+            </View>
+          )}
+
           <WorkoutList
             workouts={workouts}
             loading={workoutsLoading}
@@ -527,6 +789,9 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
             programId={programId}
             onDeleteWorkout={handleDeleteWorkout}
             onToggleComplete={handleToggleComplete}
+            onGenerateWeek={handleGenerateWeek}
+            generationDisabled={isGenerating}
+            restrictions={restrictions}
           />
         </View>
       </ScrollView>
@@ -552,10 +817,25 @@ export function AIProgramWriter({ programId }: AIProgramWriterProps) {
         isRegeneration={workouts.length > 0}
         validationItems={validationItems}
         existingWorkoutCount={workouts.length}
+        quota={generationQuota}
+        estimate={generationEstimate}
+        reviewBeforeSaving={reviewBeforeSaving}
+        onReviewBeforeSavingChange={setReviewBeforeSaving}
         onConfirm={handleConfirmGeneration}
         onCancel={() => setShowConfirmModal(false)}
       />
 
+      <ProgramDatesModal
+        visible={showDatesModal}
+        programId={programId}
+        pausedFrom={pausedFrom}
+        onDismiss={() => setShowDatesModal(false)}
+        onDone={(message) => {
+          setShowDatesModal(false);
+          setSnackbarMessage(message);
+        }}
+      />
+
       {/* Snackbar */}
       <Snackbar
         visible={!!snackbarMessage}
@@ -626,9 +906,24 @@ const styles = StyleSheet.create({
   workoutsSectionTitle: {
     fontWeight: "bold",
   },
+  workoutsSectionActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   workoutCount: {
     opacity: 0.7,
   },
+  pausedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  pausedText: {
+    flex: 1,
+  },
   fab: {
     position: "absolute",
     right: 16,
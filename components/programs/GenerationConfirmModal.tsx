@@ -4,9 +4,17 @@ import {
   Divider,
   IconButton,
   List,
+  Switch,
   Text,
   useTheme,
 } from "react-native-paper";
+import type { GenerationEstimate } from "@/hooks/useGenerationEstimate";
+import {
+  checkGenerationQuota,
+  GENERATION_COST,
+  type GenerationQuota,
+} from "@/hooks/useGenerationQuota";
+import { formatEstimateDuration } from "@/lib/generation/generationEstimate";
 
 type ValidationItem = {
   label: string;
@@ -20,6 +28,11 @@ type GenerationConfirmModalProps = {
   isRegeneration: boolean;
   validationItems: ValidationItem[];
   existingWorkoutCount: number;
+  quota?: GenerationQuota | null;
+  estimate?: GenerationEstimate;
+  // Shown only when a change handler is provided
+  reviewBeforeSaving?: boolean;
+  onReviewBeforeSavingChange?: (value: boolean) => void;
   onConfirm: () => void;
   onCancel: () => void;
 };
@@ -29,6 +42,10 @@ export function GenerationConfirmModal({
   isRegeneration,
   validationItems,
   existingWorkoutCount,
+  quota,
+  estimate,
+  reviewBeforeSaving = false,
+  onReviewBeforeSavingChange,
   onConfirm,
   onCancel,
 }: GenerationConfirmModalProps) {
@@ -36,6 +53,7 @@ export function GenerationConfirmModal({
 
   const hasErrors = validationItems.some((item) => !item.isValid);
   const errorCount = validationItems.filter((item) => !item.isValid).length;
+  const quotaCheck = checkGenerationQuota(quota);
 
   return (
     <Modal
@@ -73,8 +91,10 @@ export function GenerationConfirmModal({
               </Text>
               <Text variant="bodyMedium" style={styles.warningText}>
                 This program already has {existingWorkoutCount} workout
-                {existingWorkoutCount !== 1 ? "s" : ""}. Regenerating will
-                delete all existing workouts and create new ones.
+                {existingWorkoutCount !== 1 ? "s" : ""}.{" "}
+                {reviewBeforeSaving
+                  ? "Incomplete ones will be replaced when you save the reviewed draft. Completed workouts and those with logged results are kept."
+                  : "Regenerating will delete all existing workouts and create new ones."}
               </Text>
             </View>
           )}
@@ -120,8 +140,108 @@ export function GenerationConfirmModal({
             ))}
           </View>
 
+          {/* Pre-flight estimate */}
+          {estimate && !hasErrors && (
+            <View style={styles.estimateRow}>
+              <View style={styles.estimateItem}>
+                <Text variant="titleMedium" style={styles.estimateValue}>
+                  {estimate.workouts}
+                </Text>
+                <Text variant="labelSmall" style={styles.estimateLabel}>
+                  workouts
+                </Text>
+              </View>
+              <View style={styles.estimateItem}>
+                <Text variant="titleMedium" style={styles.estimateValue}>
+                  {formatEstimateDuration(estimate.durationMs)}
+                </Text>
+                <Text variant="labelSmall" style={styles.estimateLabel}>
+                  {estimate.isCalibrated ? "from past runs" : "rough estimate"}
+                </Text>
+              </View>
+              <View style={styles.estimateItem}>
+                <Text variant="titleMedium" style={styles.estimateValue}>
+                  {GENERATION_COST}
+                </Text>
+                <Text variant="labelSmall" style={styles.estimateLabel}>
+                  credit{GENERATION_COST !== 1 ? "s" : ""}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {estimate?.nearTimeout && !hasErrors && (
+            <View
+              style={[
+                styles.warningBox,
+                { backgroundColor: `${theme.colors.error}15` },
+              ]}
+            >
+              <Text
+                variant="titleSmall"
+                style={[styles.warningTitle, { color: theme.colors.error }]}
+              >
+                {estimate.exceedsTimeout
+                  ? "This run may time out"
+                  : "This is a long run"}
+              </Text>
+              <Text variant="bodyMedium" style={styles.warningText}>
+                {estimate.workouts} workouts will take{" "}
+                {formatEstimateDuration(estimate.durationMs)}, which is{" "}
+                {estimate.exceedsTimeout ? "beyond" : "most of"} the{" "}
+                {Math.round(estimate.timeoutMs / 60000)}-minute limit. Consider
+                fewer weeks or days, or generate a week at a time.
+              </Text>
+            </View>
+          )}
+
+          {/* Generation credits */}
+          {quota && (
+            <View
+              style={[
+                styles.quotaBox,
+                {
+                  backgroundColor: quotaCheck.allowed
+                    ? quotaCheck.exhausts
+                      ? `${theme.colors.tertiary}15`
+                      : `${theme.colors.primary}10`
+                    : `${theme.colors.error}15`,
+                },
+              ]}
+            >
+              <Text variant="titleSmall" style={styles.quotaTitle}>
+                {quota.remaining} generation{quota.remaining !== 1 ? "s" : ""}{" "}
+                remaining
+              </Text>
+              {quotaCheck.message && (
+                <Text
+                  variant="bodySmall"
+                  style={!quotaCheck.allowed && { color: theme.colors.error }}
+                >
+                  {quotaCheck.message}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Review mode */}
+          {onReviewBeforeSavingChange && (
+            <List.Item
+              title="Review before saving"
+              description="Hold generated workouts as a draft to edit or reject before they're added"
+              descriptionNumberOfLines={2}
+              right={() => (
+                <Switch
+                  value={reviewBeforeSaving}
+                  onValueChange={onReviewBeforeSavingChange}
+                />
+              )}
+              style={styles.validationItem}
+            />
+          )}
+
           {/* Generation Info */}
-          {!hasErrors && (
+          {!hasErrors && quotaCheck.allowed && (
             <View
               style={[
                 styles.infoBox,
@@ -130,8 +250,10 @@ export function GenerationConfirmModal({
             >
               <Text variant="bodyMedium" style={styles.infoText}>
                 Generation may take several minutes depending on the program
-                length. You can monitor progress and workouts will appear as
-                they are created.
+                length.{" "}
+                {reviewBeforeSaving
+                  ? "You can monitor progress and review the workouts once generation finishes."
+                  : "You can monitor progress and workouts will appear as they are created."}
               </Text>
             </View>
           )}
@@ -148,7 +270,7 @@ export function GenerationConfirmModal({
           <Button
             mode="contained"
             onPress={onConfirm}
-            disabled={hasErrors}
+            disabled={hasErrors || !quotaCheck.allowed}
             style={styles.confirmButton}
             buttonColor={
               isRegeneration ? theme.colors.error : theme.colors.primary
@@ -207,6 +329,34 @@ const styles = StyleSheet.create({
   validationItem: {
     paddingVertical: 4,
   },
+  estimateRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  estimateItem: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "rgba(0,0,0,0.04)",
+  },
+  estimateValue: {
+    fontWeight: "600",
+  },
+  estimateLabel: {
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  quotaBox: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 2,
+  },
+  quotaTitle: {
+    fontWeight: "600",
+  },
   infoBox: {
     padding: 16,
     borderRadius: 8,
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { StyleSheet, View } from "react-native";
+import {
+  Button,
+  Card,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import type {
+  DraftWorkout,
+  GenerationDraft,
+} from "@/hooks/useProgramGeneration";
+import {
+  type ClientRestriction,
+  findRestrictedMovements,
+} from "@/lib/clients/restrictions";
+
+type GenerationDraftReviewProps = {
+  draft: GenerationDraft;
+  isCommitting: boolean;
+  onUpdateWorkout: (
+    workoutId: string,
+    changes: Partial<Pick<DraftWorkout, "title" | "body">>,
+  ) => void;
+  onToggleRejected: (workoutId: string, rejected: boolean) => void;
+  onAcceptAll: () => void;
+  onDiscard: () => void;
+  onCommit: () => void;
+  // Workouts with movements the client should avoid are flagged
+  restrictions?: ClientRestriction[];
+};
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return "Unscheduled";
+  return new Date(dateString).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export function GenerationDraftReview({
+  draft,
+  isCommitting,
+  onUpdateWorkout,
+  onToggleRejected,
+  onAcceptAll,
+  onDiscard,
+  onCommit,
+  restrictions = [],
+}: GenerationDraftReviewProps) {
+  const theme = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const acceptedCount = draft.workouts.filter((w) => !w.rejected).length;
+  const rejectedCount = draft.workouts.length - acceptedCount;
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.title}>
+          Review Draft
+        </Text>
+        <Text variant="bodySmall" style={styles.subtitle}>
+          {acceptedCount} of {draft.workouts.length} workouts will be saved
+          {draft.replaceExisting ? " and replace the current program" : ""}.
+          Nothing is saved until you confirm.
+        </Text>
+
+        {draft.workouts.map((workout) => {
+          const isEditing = editingId === workout.id;
+          const flaggedTerms = [
+            ...new Set(
+              findRestrictedMovements(
+                workout.body,
+                restrictions,
+                workout.scheduled_date,
+              ).map((flag) => flag.term),
+            ),
+          ];
+          return (
+            <View
+              key={workout.id}
+              style={[styles.workoutItem, workout.rejected && styles.rejected]}
+            >
+              <View style={styles.workoutHeader}>
+                <View style={styles.workoutTitleContainer}>
+                  <Text variant="labelSmall" style={styles.workoutDate}>
+                    {formatDate(workout.scheduled_date)}
+                  </Text>
+                  <Text
+                    variant="bodyMedium"
+                    numberOfLines={1}
+                    style={[
+                      styles.workoutTitle,
+                      workout.rejected && styles.rejectedTitle,
+                    ]}
+                  >
+                    {workout.title}
+                  </Text>
+                  {flaggedTerms.length > 0 && (
+                    <Text
+                      variant="labelSmall"
+                      style={{ color: theme.colors.error }}
+                    >
+                      Avoid: {flaggedTerms.join(", ")}
+                    </Text>
+                  )}
+                </View>
+                <IconButton
+                  icon={isEditing ? "check" : "pencil"}
+                  size={18}
+                  disabled={workout.rejected || isCommitting}
+                  onPress={() => setEditingId(isEditing ? null : workout.id)}
+                />
+                <IconButton
+                  icon={workout.rejected ? "undo" : "close"}
+                  size={18}
+                  iconColor={workout.rejected ? undefined : theme.colors.error}
+                  disabled={isCommitting}
+                  onPress={() => {
+                    if (isEditing) setEditingId(null);
+                    onToggleRejected(workout.id, !workout.rejected);
+                  }}
+                />
+              </View>
+
+              {isEditing && (
+                <View style={styles.editor}>
+                  <TextInput
+                    mode="outlined"
+                    label="Title"
+                    dense
+                    value={workout.title}
+                    onChangeText={(title) =>
+                      onUpdateWorkout(workout.id, { title })
+                    }
+                  />
+                  <TextInput
+                    mode="outlined"
+                    label="Workout"
+                    multiline
+                    value={workout.body}
+                    onChangeText={(body) =>
+                      onUpdateWorkout(workout.id, { body })
+                    }
+                    style={styles.bodyInput}
+                  />
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={onDiscard}
+            disabled={isCommitting}
+            textColor={theme.colors.error}
+            compact
+          >
+            Discard
+          </Button>
+          {rejectedCount > 0 && (
+            <Button
+              mode="outlined"
+              onPress={onAcceptAll}
+              disabled={isCommitting}
+              compact
+            >
+              Accept All
+            </Button>
+          )}
+          <Button
+            mode="contained"
+            onPress={onCommit}
+            loading={isCommitting}
+            disabled={isCommitting || acceptedCount === 0}
+            style={styles.commitButton}
+            compact
+          >
+            Save {acceptedCount} Workout{acceptedCount !== 1 ? "s" : ""}
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: "600",
+  },
+  subtitle: {
+    marginTop: 4,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  workoutItem: {
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.05)",
+  },
+  rejected: {
+    opacity: 0.5,
+  },
+  workoutHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  workoutTitleContainer: {
+    flex: 1,
+  },
+  workoutDate: {
+    opacity: 0.6,
+  },
+  workoutTitle: {
+    fontWeight: "500",
+  },
+  rejectedTitle: {
+    textDecorationLine: "line-through",
+  },
+  editor: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  bodyInput: {
+    minHeight: 120,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  commitButton: {
+    flexGrow: 1,
+  },
+});
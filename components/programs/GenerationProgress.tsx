@@ -10,8 +10,12 @@ import {
 } from "react-native-paper";
 import type {
   GenerationStage,
+  GenerationStatus,
+  GenerationWarning,
+  SlotCoverage,
   StreamingWorkout,
 } from "@/hooks/useProgramGeneration";
+import { formatSlots } from "@/lib/generation/programSlots";
 
 type GenerationProgressProps = {
   stage: GenerationStage;
@@ -19,8 +23,12 @@ type GenerationProgressProps = {
   streamingWorkouts: StreamingWorkout[];
   duration: number;
   error: string | null;
+  status?: GenerationStatus | null;
+  warnings?: GenerationWarning[];
+  partial?: SlotCoverage | null;
   onCancel: () => void;
   onRetry?: () => void;
+  onGenerateMissing?: () => void;
 };
 
 const stageLabels: Record<GenerationStage, string> = {
@@ -31,6 +39,8 @@ const stageLabels: Record<GenerationStage, string> = {
   complete: "Generation complete!",
   error: "Generation failed",
   retrying: "Retrying...",
+  resuming: "Connection lost, resuming...",
+  review: "Review generated workouts",
 };
 
 export function GenerationProgress({
@@ -39,8 +49,12 @@ export function GenerationProgress({
   streamingWorkouts,
   duration,
   error,
+  status,
+  warnings = [],
+  partial,
   onCancel,
   onRetry,
+  onGenerateMissing,
 }: GenerationProgressProps) {
   const theme = useTheme();
 
@@ -60,6 +74,7 @@ export function GenerationProgress({
     "generating",
     "streaming",
     "retrying",
+    "resuming",
   ].includes(stage);
 
   return (
@@ -88,8 +103,18 @@ export function GenerationProgress({
           )}
         </View>
 
+        {/* Latest status message from the server */}
+        {isActive && status?.message && (
+          <Text variant="bodySmall" style={styles.statusMessage}>
+            {status.message}
+          </Text>
+        )}
+
         {/* Progress bar */}
-        {(stage === "streaming" || stage === "complete") && (
+        {(stage === "streaming" ||
+          stage === "resuming" ||
+          stage === "review" ||
+          stage === "complete") && (
           <View style={styles.progressContainer}>
             <ProgressBar
               progress={progressPercent}
@@ -112,6 +137,30 @@ export function GenerationProgress({
             <Text variant="bodyMedium" style={{ color: theme.colors.error }}>
               {error}
             </Text>
+            {partial && (
+              <View style={styles.partialContainer}>
+                <Text variant="bodySmall">
+                  {partial.filled.length} of{" "}
+                  {partial.filled.length + partial.missing.length} workouts were
+                  saved.
+                </Text>
+                {partial.missing.length > 0 && (
+                  <Text variant="bodySmall" style={styles.partialMissing}>
+                    Missing: {formatSlots(partial.missing)}
+                  </Text>
+                )}
+              </View>
+            )}
+            {partial && partial.missing.length > 0 && onGenerateMissing && (
+              <Button
+                mode="contained"
+                onPress={onGenerateMissing}
+                style={styles.retryButton}
+                compact
+              >
+                Generate Missing ({partial.missing.length})
+              </Button>
+            )}
             {onRetry && (
               <Button
                 mode="outlined"
@@ -125,6 +174,23 @@ export function GenerationProgress({
           </View>
         )}
 
+        {/* Warnings (server warnings and frames we couldn't read) */}
+        {warnings.length > 0 && (
+          <View
+            style={[
+              styles.warningsContainer,
+              { backgroundColor: `${theme.colors.error}10` },
+            ]}
+          >
+            <Text variant="labelMedium" style={{ color: theme.colors.error }}>
+              {warnings.length} warning{warnings.length !== 1 ? "s" : ""}
+            </Text>
+            <Text variant="bodySmall" numberOfLines={2}>
+              {warnings[warnings.length - 1].message}
+            </Text>
+          </View>
+        )}
+
         {/* Streaming workouts preview */}
         {streamingWorkouts.length > 0 && (
           <View style={styles.workoutsPreview}>
@@ -207,6 +273,10 @@ const styles = StyleSheet.create({
   duration: {
     opacity: 0.7,
   },
+  statusMessage: {
+    marginBottom: 12,
+    opacity: 0.7,
+  },
   progressContainer: {
     marginBottom: 12,
   },
@@ -222,6 +292,19 @@ const styles = StyleSheet.create({
   errorContainer: {
     marginBottom: 12,
   },
+  partialContainer: {
+    marginTop: 8,
+    gap: 2,
+  },
+  partialMissing: {
+    opacity: 0.7,
+  },
+  warningsContainer: {
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 12,
+    gap: 2,
+  },
   retryButton: {
     marginTop: 8,
     alignSelf: "flex-start",
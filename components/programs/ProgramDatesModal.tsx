@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import {
+  Button,
+  HelperText,
+  Modal,
+  Portal,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import {
+  usePauseProgram,
+  useResumeProgram,
+  useShiftProgram,
+} from "@/hooks/useProgramSchedule";
+import { toDateKey } from "@/lib/generation/programSlots";
+
+type ProgramDatesModalProps = {
+  visible: boolean;
+  programId: string;
+  // Set while the program is paused; the modal then only offers resuming
+  pausedFrom?: string;
+  onDismiss: () => void;
+  onDone: (message: string) => void;
+};
+
+type Action = "shift" | "pause";
+
+const todayKey = () => new Date().toISOString().split("T")[0];
+
+const isDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !!toDateKey(value);
+
+const formatDateKey = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Shift, pause and resume a whole program, e.g. around a client's vacation
+export function ProgramDatesModal({
+  visible,
+  programId,
+  pausedFrom,
+  onDismiss,
+  onDone,
+}: ProgramDatesModalProps) {
+  const theme = useTheme();
+  const shiftProgram = useShiftProgram();
+  const pauseProgram = usePauseProgram();
+  const resumeProgram = useResumeProgram();
+  const [action, setAction] = useState<Action>("shift");
+  const [date, setDate] = useState(todayKey);
+  const [days, setDays] = useState("7");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setAction("shift");
+      setDate(todayKey());
+      setDays("7");
+      setError(null);
+    }
+  }, [visible]);
+
+  const isSaving =
+    shiftProgram.isPending || pauseProgram.isPending || resumeProgram.isPending;
+  const dayCount = Number.parseInt(days, 10);
+  const dateError = !isDateKey(date)
+    ? "Enter a date as YYYY-MM-DD"
+    : pausedFrom && date < pausedFrom
+      ? `Resume on or after ${formatDateKey(pausedFrom)}`
+      : null;
+  const daysValid = !Number.isNaN(dayCount) && dayCount !== 0;
+  const canSubmit =
+    !dateError && (!!pausedFrom || action === "pause" || daysValid);
+
+  const handleSubmit = async () => {
+    setError(null);
+    try {
+      if (pausedFrom) {
+        const result = await resumeProgram.mutateAsync({
+          programId,
+          resumeOn: date,
+        });
+        onDone(
+          `Resumed: ${plural(result.moved, "workout")} rescheduled${
+            result.endDate ? `, now ends ${formatDateKey(result.endDate)}` : ""
+          }`,
+        );
+      } else if (action === "pause") {
+        await pauseProgram.mutateAsync({ programId, fromDate: date });
+        onDone(`Paused from ${formatDateKey(date)}`);
+      } else {
+        const result = await shiftProgram.mutateAsync({
+          programId,
+          fromDate: date,
+          days: dayCount,
+        });
+        onDone(
+          `Shifted ${plural(result.moved, "workout")} by ${plural(dayCount, "day")}${
+            result.endDate ? `, now ends ${formatDateKey(result.endDate)}` : ""
+          }`,
+        );
+      }
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to update program dates";
+      console.error("[ProgramDates] Error:", err);
+      setError(errorMessage);
+    }
+  };
+
+  const description = pausedFrom
+    ? `Paused since ${formatDateKey(pausedFrom)}. Incomplete workouts from then on are re-spaced onto the program's training days from the resume date.`
+    : action === "pause"
+      ? "Hold the program from a date. Workouts stay where they are until you resume and pick a new date."
+      : "Move every incomplete workout from a date onward by a number of days.";
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { backgroundColor: theme.colors.background },
+        ]}
+      >
+        <Text variant="headlineSmall" style={styles.title}>
+          {pausedFrom ? "Resume Program" : "Reschedule Program"}
+        </Text>
+
+        {!pausedFrom && (
+          <SegmentedButtons
+            value={action}
+            onValueChange={(value) => setAction(value as Action)}
+            buttons={[
+              { value: "shift", label: "Shift" },
+              { value: "pause", label: "Pause" },
+            ]}
+            style={styles.actions}
+          />
+        )}
+
+        <Text
+          variant="bodyMedium"
+          style={[styles.description, { color: theme.colors.onSurfaceVariant }]}
+        >
+          {description}
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label={pausedFrom ? "Resume on" : "From"}
+          value={date}
+          onChangeText={setDate}
+          placeholder="YYYY-MM-DD"
+          error={!!dateError}
+        />
+        <HelperText type={dateError ? "error" : "info"}>
+          {dateError ?? formatDateKey(date)}
+        </HelperText>
+
+        {!pausedFrom && action === "shift" && (
+          <TextInput
+            mode="outlined"
+            label="Days"
+            value={days}
+            onChangeText={setDays}
+            keyboardType="numbers-and-punctuation"
+          />
+        )}
+
+        {error && (
+          <Text
+            variant="bodySmall"
+            style={[styles.error, { color: theme.colors.error }]}
+          >
+            {error}
+          </Text>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <Button mode="outlined" onPress={onDismiss} style={styles.button}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            loading={isSaving}
+            disabled={isSaving || !canSubmit}
+            style={styles.button}
+          >
+            {pausedFrom ? "Resume" : action === "pause" ? "Pause" : "Shift"}
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    padding: 24,
+    margin: 20,
+    borderRadius: 12,
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  actions: {
+    marginBottom: 12,
+  },
+  description: {
+    marginBottom: 16,
+  },
+  error: {
+    marginTop: 8,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+  },
+});
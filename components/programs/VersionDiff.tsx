@@ -0,0 +1,186 @@
+import { StyleSheet, View } from "react-native";
+import { Card, Text, useTheme } from "react-native-paper";
+import type {
+  ProgramVersionDiff,
+  WorkoutChange,
+} from "@/lib/generation/programVersions";
+
+type VersionDiffProps = {
+  baseLabel: string;
+  targetLabel: string;
+  diff: ProgramVersionDiff;
+};
+
+const formatDate = (date: string | null) =>
+  date
+    ? new Date(date).toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      })
+    : "Unscheduled";
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const formatField = (field: string) =>
+  field.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+export function VersionDiff({
+  baseLabel,
+  targetLabel,
+  diff,
+}: VersionDiffProps) {
+  const theme = useTheme();
+
+  const renderWorkoutRow = (
+    change: WorkoutChange,
+    marker: string,
+    color: string,
+  ) => (
+    <View key={`${marker}-${change.date}`} style={styles.row}>
+      <Text variant="labelSmall" style={styles.rowDate}>
+        {formatDate(change.date)}
+      </Text>
+      {change.before && marker !== "+" && (
+        <Text
+          variant="bodySmall"
+          numberOfLines={1}
+          style={{ color: marker === "-" ? color : undefined, opacity: 0.7 }}
+        >
+          {marker === "~" ? "−" : marker} {change.before.title}
+        </Text>
+      )}
+      {change.after && (
+        <Text variant="bodySmall" numberOfLines={1} style={{ color }}>
+          {marker === "~" ? "+" : marker} {change.after.title}
+        </Text>
+      )}
+    </View>
+  );
+
+  const hasChanges =
+    diff.config.length +
+      diff.added.length +
+      diff.removed.length +
+      diff.changed.length >
+    0;
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.title}>
+          {baseLabel} → {targetLabel}
+        </Text>
+        <Text variant="bodySmall" style={styles.summary}>
+          {diff.added.length} added • {diff.removed.length} removed •{" "}
+          {diff.changed.length} changed • {diff.unchangedCount} unchanged
+        </Text>
+
+        {!hasChanges && (
+          <Text variant="bodyMedium" style={styles.empty}>
+            These versions are identical
+          </Text>
+        )}
+
+        {diff.config.length > 0 && (
+          <View style={styles.section}>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              Configuration
+            </Text>
+            {diff.config.map((change) => (
+              <View key={change.field} style={styles.row}>
+                <Text variant="labelSmall" style={styles.rowDate}>
+                  {formatField(change.field)}
+                </Text>
+                <Text
+                  variant="bodySmall"
+                  numberOfLines={2}
+                  style={{ color: theme.colors.error }}
+                >
+                  − {formatValue(change.before)}
+                </Text>
+                <Text
+                  variant="bodySmall"
+                  numberOfLines={2}
+                  style={{ color: theme.colors.primary }}
+                >
+                  + {formatValue(change.after)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {diff.changed.length > 0 && (
+          <View style={styles.section}>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              Changed
+            </Text>
+            {diff.changed.map((change) =>
+              renderWorkoutRow(change, "~", theme.colors.primary),
+            )}
+          </View>
+        )}
+
+        {diff.added.length > 0 && (
+          <View style={styles.section}>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              Added
+            </Text>
+            {diff.added.map((change) =>
+              renderWorkoutRow(change, "+", theme.colors.primary),
+            )}
+          </View>
+        )}
+
+        {diff.removed.length > 0 && (
+          <View style={styles.section}>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              Removed
+            </Text>
+            {diff.removed.map((change) =>
+              renderWorkoutRow(change, "-", theme.colors.error),
+            )}
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: "600",
+  },
+  summary: {
+    marginTop: 4,
+    opacity: 0.7,
+  },
+  empty: {
+    marginTop: 12,
+    opacity: 0.7,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    marginBottom: 4,
+  },
+  row: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.05)",
+  },
+  rowDate: {
+    opacity: 0.6,
+    marginBottom: 2,
+  },
+});
@@ -1,5 +1,5 @@
 import { useRouter } from "expo-router";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { StyleSheet, TouchableOpacity, View } from "react-native";
 import {
   Card,
@@ -10,12 +10,24 @@ import {
   useTheme,
 } from "react-native-paper";
 import type { Workout } from "@/hooks/useProgramWorkoutsMobile";
+import {
+  type ClientRestriction,
+  findRestrictedMovements,
+} from "@/lib/clients/restrictions";
+import {
+  isStructured,
+  parseWorkout,
+  summarizeSection,
+  visibleSections,
+} from "@/lib/workouts/workoutParser";
 
 type WorkoutCardProps = {
   workout: Workout;
   programId: string;
   onDelete?: (workoutId: string) => void;
   onToggleComplete?: (workoutId: string, completed: boolean) => void;
+  // The client's restrictions; workouts that break them are flagged
+  restrictions?: ClientRestriction[];
 };
 
 export function WorkoutCard({
@@ -23,11 +35,26 @@ export function WorkoutCard({
   programId,
   onDelete,
   onToggleComplete,
+  restrictions = [],
 }: WorkoutCardProps) {
   const theme = useTheme();
   const router = useRouter();
   const [menuVisible, setMenuVisible] = useState(false);
 
+  const parsed = useMemo(
+    () => parseWorkout(workout.body ?? ""),
+    [workout.body],
+  );
+  const restrictionFlags = useMemo(
+    () =>
+      findRestrictedMovements(
+        workout.body ?? "",
+        restrictions,
+        workout.scheduled_date,
+      ),
+    [workout.body, workout.scheduled_date, restrictions],
+  );
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return "";
     const date = new Date(dateString);
@@ -139,9 +166,37 @@ export function WorkoutCard({
             </Menu>
           </View>
 
-          {workout.body && (
-            <Text variant="bodyMedium" style={styles.preview}>
-              {getBodyPreview(workout.body)}
+          {isStructured(parsed) ? (
+            <View style={styles.preview}>
+              {visibleSections(parsed)
+                .slice(0, 3)
+                .map((section, index) => (
+                  <Text
+                    key={`${index}-${section.heading}`}
+                    variant="bodyMedium"
+                    numberOfLines={1}
+                  >
+                    {summarizeSection(section)}
+                  </Text>
+                ))}
+            </View>
+          ) : (
+            workout.body && (
+              <Text variant="bodyMedium" style={styles.preview}>
+                {getBodyPreview(workout.body)}
+              </Text>
+            )
+          )}
+
+          {restrictionFlags.length > 0 && (
+            <Text
+              variant="bodySmall"
+              style={[styles.restricted, { color: theme.colors.error }]}
+            >
+              Avoid:{" "}
+              {[...new Set(restrictionFlags.map((flag) => flag.term))].join(
+                ", ",
+              )}
             </Text>
           )}
 
@@ -198,6 +253,10 @@ const styles = StyleSheet.create({
     marginTop: 8,
     opacity: 0.8,
   },
+  restricted: {
+    marginTop: 8,
+    fontWeight: "600",
+  },
   tagsContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
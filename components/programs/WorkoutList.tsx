@@ -1,7 +1,15 @@
 import { useMemo, useState } from "react";
 import { ScrollView, StyleSheet, View } from "react-native";
-import { ActivityIndicator, SegmentedButtons, Text } from "react-native-paper";
+import {
+  ActivityIndicator,
+  Button,
+  SegmentedButtons,
+  Text,
+} from "react-native-paper";
 import type { Workout } from "@/hooks/useProgramWorkoutsMobile";
+import type { ClientRestriction } from "@/lib/clients/restrictions";
+import { getWeekDateRange, toDateKey } from "@/lib/generation/programSlots";
+import { daysBetween, workoutDateKey } from "@/lib/schedule/calendar";
 
 import { WorkoutCard } from "./WorkoutCard";
 
@@ -13,6 +21,10 @@ type WorkoutListProps = {
   programId: string;
   onDeleteWorkout: (workoutId: string) => void;
   onToggleComplete: (workoutId: string, completed: boolean) => void;
+  // Scoped generation for the selected week; hidden when not provided
+  onGenerateWeek?: (week: number) => void;
+  generationDisabled?: boolean;
+  restrictions?: ClientRestriction[];
 };
 
 export function WorkoutList({
@@ -23,59 +35,59 @@ export function WorkoutList({
   programId,
   onDeleteWorkout,
   onToggleComplete,
+  onGenerateWeek,
+  generationDisabled = false,
+  restrictions,
 }: WorkoutListProps) {
   const [selectedWeek, setSelectedWeek] = useState("1");
 
-  // Group workouts by week
-  const workoutsByWeek = useMemo(() => {
-    if (!startDate || workouts.length === 0) {
-      return {};
-    }
-
-    const start = new Date(startDate);
+  // Group workouts by week, counted in UTC days from the start date like
+  // program slots. Workouts pushed past the planned weeks (by a shift or a
+  // pause) get weeks of their own rather than disappearing.
+  const { workoutsByWeek, weekCount } = useMemo(() => {
+    const startKey = toDateKey(startDate);
     const weeks: Record<string, Workout[]> = {};
-
-    // Initialize all weeks
-    for (let i = 1; i <= numberOfWeeks; i++) {
-      weeks[i.toString()] = [];
+    if (!startKey || workouts.length === 0) {
+      return { workoutsByWeek: weeks, weekCount: numberOfWeeks };
     }
 
-    // Group workouts into weeks
-    workouts.forEach((workout) => {
-      if (!workout.scheduled_date) return;
+    let count = numberOfWeeks;
+    for (const workout of workouts) {
+      const dateKey = workoutDateKey(workout);
+      if (!dateKey) continue;
 
-      const workoutDate = new Date(workout.scheduled_date);
-      const diffTime = workoutDate.getTime() - start.getTime();
-      const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-      const weekNum = Math.floor(diffDays / 7) + 1;
+      const weekNum = Math.floor(daysBetween(startKey, dateKey) / 7) + 1;
+      if (weekNum < 1) continue;
 
-      if (weekNum >= 1 && weekNum <= numberOfWeeks) {
-        weeks[weekNum.toString()].push(workout);
-      }
-    });
+      count = Math.max(count, weekNum);
+      weeks[weekNum.toString()] = [
+        ...(weeks[weekNum.toString()] ?? []),
+        workout,
+      ];
+    }
 
-    return weeks;
+    return { workoutsByWeek: weeks, weekCount: count };
   }, [workouts, startDate, numberOfWeeks]);
 
   // Get week date ranges for labels
-  const getWeekDateRange = (weekNum: number) => {
-    if (!startDate) return "";
-    const start = new Date(startDate);
-    const weekStart = new Date(start);
-    weekStart.setDate(start.getDate() + (weekNum - 1) * 7);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekStart.getDate() + 6);
-
-    const formatDate = (date: Date) =>
-      date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
-
-    return `${formatDate(weekStart)} - ${formatDate(weekEnd)}`;
+  const formatWeekRange = (weekNum: number) => {
+    const range = getWeekDateRange(startDate, weekNum);
+    if (!range) return "";
+
+    const formatDate = (dateKey: string) =>
+      new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+
+    return `${formatDate(range.startDate)} - ${formatDate(range.endDate)}`;
   };
 
   // Week selector buttons
   const weekButtons = useMemo(() => {
     const buttons = [];
-    for (let i = 1; i <= numberOfWeeks; i++) {
+    for (let i = 1; i <= weekCount; i++) {
       buttons.push({
         value: i.toString(),
         label: `W${i}`,
@@ -83,7 +95,7 @@ export function WorkoutList({
       });
     }
     return buttons;
-  }, [numberOfWeeks]);
+  }, [weekCount]);
 
   const currentWeekWorkouts = workoutsByWeek[selectedWeek] || [];
   const weekNum = Number.parseInt(selectedWeek, 10);
@@ -100,7 +112,7 @@ export function WorkoutList({
   return (
     <View style={styles.container}>
       {/* Week selector */}
-      {numberOfWeeks > 1 && (
+      {weekCount > 1 && (
         <ScrollView
           horizontal
           showsHorizontalScrollIndicator={false}
@@ -117,11 +129,24 @@ export function WorkoutList({
 
       {/* Week header */}
       <View style={styles.weekHeader}>
-        <Text variant="titleMedium" style={styles.weekTitle}>
-          Week {selectedWeek}
-        </Text>
+        <View style={styles.weekTitleRow}>
+          <Text variant="titleMedium" style={styles.weekTitle}>
+            Week {selectedWeek}
+          </Text>
+          {onGenerateWeek && (
+            <Button
+              mode="text"
+              icon="refresh"
+              compact
+              disabled={generationDisabled}
+              onPress={() => onGenerateWeek(weekNum)}
+            >
+              {currentWeekWorkouts.length > 0 ? "Regenerate" : "Generate"} Week
+            </Button>
+          )}
+        </View>
         <Text variant="bodySmall" style={styles.weekDateRange}>
-          {getWeekDateRange(weekNum)}
+          {formatWeekRange(weekNum)}
         </Text>
         <Text variant="bodySmall" style={styles.workoutCount}>
           {currentWeekWorkouts.length} workout
@@ -144,7 +169,9 @@ export function WorkoutList({
               No workouts for this week
             </Text>
             <Text variant="bodySmall" style={styles.emptySubtext}>
-              Generate the program to create workouts
+              {onGenerateWeek
+                ? "Generate this week or the whole program to create workouts"
+                : "Generate the program to create workouts"}
             </Text>
           </View>
         ) : (
@@ -155,6 +182,7 @@ export function WorkoutList({
               programId={programId}
               onDelete={onDeleteWorkout}
               onToggleComplete={onToggleComplete}
+              restrictions={restrictions}
             />
           ))
         )}
@@ -186,6 +214,11 @@ const styles = StyleSheet.create({
   weekHeader: {
     marginBottom: 16,
   },
+  weekTitleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
   weekTitle: {
     fontWeight: "bold",
   },
@@ -1,5 +1,10 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { type PropsWithChildren, useState } from "react";
+import { type PropsWithChildren, useEffect, useState } from "react";
+import { clearGenerationJobs } from "@/lib/generation/generationJobs";
+import { clearOfflineCache } from "@/lib/offline/cache";
+import { clearOutbox } from "@/lib/offline/outbox";
+import { startRealtimeSync } from "@/lib/query/realtimeSync";
+import { supabase } from "@/lib/supabase/client";
 
 export function QueryProvider({ children }: PropsWithChildren) {
   const [queryClient] = useState(
@@ -15,6 +20,41 @@ export function QueryProvider({ children }: PropsWithChildren) {
       }),
   );
 
+  // One realtime subscription per table keeps every query up to date while
+  // someone is signed in. When the user changes or signs out, every cached
+  // query, the offline cache, queued offline changes and persisted generation
+  // runs go, so the next coach never sees or replays the last one's work.
+  useEffect(() => {
+    let userId: string | null = null;
+    let stopSync: (() => void) | null = null;
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      const nextUserId = session?.user.id ?? null;
+      if (nextUserId === userId) return;
+
+      stopSync?.();
+      stopSync = null;
+      if (userId) {
+        queryClient.clear();
+        clearOfflineCache();
+        clearOutbox();
+        clearGenerationJobs();
+      }
+
+      userId = nextUserId;
+      if (nextUserId) {
+        stopSync = startRealtimeSync(queryClient);
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      stopSync?.();
+    };
+  }, [queryClient]);
+
   return (
     <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
   );
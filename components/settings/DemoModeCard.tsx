@@ -0,0 +1,92 @@
+import { StyleSheet, View } from "react-native";
+import { Card, Chip, Switch, Text } from "react-native-paper";
+import { useDemoMode } from "@/hooks/useDemoMode";
+import type { DemoScenario } from "@/lib/demo/demoMode";
+
+const scenarios: { value: DemoScenario; label: string }[] = [
+  { value: "success", label: "Success" },
+  { value: "server_error", label: "Server error" },
+  { value: "dropped_connection", label: "Dropped connection" },
+  { value: "unavailable", label: "503 then retry" },
+  { value: "timeout", label: "Timeout" },
+];
+
+export function DemoModeCard() {
+  const { enabled, scenario, isForced, updateSettings } = useDemoMode();
+
+  return (
+    <Card mode="outlined" style={styles.card}>
+      <Card.Content>
+        <View style={styles.row}>
+          <View style={styles.labels}>
+            <Text variant="titleMedium" style={styles.title}>
+              Demo Mode
+            </Text>
+            <Text variant="bodySmall" style={styles.muted}>
+              {isForced
+                ? "On because EXPO_PUBLIC_API_URL is set to mock"
+                : "Replay recorded responses instead of calling halteres.ai"}
+            </Text>
+          </View>
+          <Switch
+            value={enabled}
+            disabled={isForced}
+            onValueChange={(value) => updateSettings({ enabled: value })}
+          />
+        </View>
+
+        {enabled && (
+          <>
+            <Text variant="labelLarge" style={styles.sectionLabel}>
+              Scenario
+            </Text>
+            <View style={styles.chips}>
+              {scenarios.map((option) => (
+                <Chip
+                  key={option.value}
+                  compact
+                  selected={scenario === option.value}
+                  showSelectedOverlay
+                  onPress={() => updateSettings({ scenario: option.value })}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  labels: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: "600",
+  },
+  muted: {
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  sectionLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+});
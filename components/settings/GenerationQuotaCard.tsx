@@ -0,0 +1,86 @@
+import { StyleSheet, View } from "react-native";
+import { ActivityIndicator, Card, Text, useTheme } from "react-native-paper";
+import { useGenerationQuota } from "@/hooks/useGenerationQuota";
+
+const subscriptionLabels: Record<string, string> = {
+  trialing: "Trial",
+  active: "Active",
+  canceled: "Canceled",
+  past_due: "Past due",
+  incomplete: "Incomplete",
+  incomplete_expired: "Expired",
+};
+
+export function GenerationQuotaCard() {
+  const theme = useTheme();
+  const { data: quota, isLoading } = useGenerationQuota();
+
+  return (
+    <Card mode="outlined" style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.title}>
+          Generations
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator size="small" style={styles.loading} />
+        ) : !quota ? (
+          <Text variant="bodyMedium" style={styles.muted}>
+            Generation credits are unavailable right now
+          </Text>
+        ) : (
+          <View>
+            <Text
+              variant="headlineSmall"
+              style={[
+                styles.remaining,
+                quota.remaining === 0 && { color: theme.colors.error },
+              ]}
+            >
+              {quota.remaining} remaining
+            </Text>
+            <Text variant="bodySmall" style={styles.muted}>
+              {quota.usedToday} used today
+              {quota.subscriptionStatus
+                ? ` • ${subscriptionLabels[quota.subscriptionStatus] ?? quota.subscriptionStatus} plan`
+                : ` • ${quota.freeUsed} free generation${quota.freeUsed !== 1 ? "s" : ""} used`}
+            </Text>
+            {quota.remaining === 0 && (
+              <Text
+                variant="bodySmall"
+                style={[styles.notice, { color: theme.colors.error }]}
+              >
+                {quota.isSubscribed
+                  ? "No generations left this period."
+                  : "Subscribe on halteres.ai to keep generating programs."}
+              </Text>
+            )}
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  loading: {
+    alignSelf: "flex-start",
+  },
+  remaining: {
+    fontWeight: "bold",
+  },
+  muted: {
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  notice: {
+    marginTop: 8,
+  },
+});
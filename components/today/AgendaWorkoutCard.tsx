@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import {
+  Button,
+  Card,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import type { CalendarWorkout } from "@/lib/schedule/calendar";
+
+type AgendaWorkoutCardProps = {
+  workout: CalendarWorkout;
+  programName?: string;
+  onPress: () => void;
+  onToggleComplete: () => void;
+  onStartTimer: () => void;
+  // Resolves false when the notes weren't saved, keeping the editor open
+  onSaveNotes: (notes: string) => Promise<boolean>;
+};
+
+// A workout on the Today agenda: complete it, jot a note or start the timer
+// without opening it
+export function AgendaWorkoutCard({
+  workout,
+  programName,
+  onPress,
+  onToggleComplete,
+  onStartTimer,
+  onSaveNotes,
+}: AgendaWorkoutCardProps) {
+  const theme = useTheme();
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [notes, setNotes] = useState(workout.notes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow saved notes unless they're being edited
+  useEffect(() => {
+    if (!isEditingNotes) setNotes(workout.notes ?? "");
+  }, [workout.notes, isEditingNotes]);
+
+  const handleSaveNotes = async () => {
+    setIsSaving(true);
+    const saved = await onSaveNotes(notes.trim());
+    setIsSaving(false);
+    if (saved) setIsEditingNotes(false);
+  };
+
+  return (
+    <Card
+      style={[
+        styles.card,
+        workout.completed && {
+          opacity: 0.7,
+          borderLeftColor: theme.colors.primary,
+          borderLeftWidth: 3,
+        },
+      ]}
+      mode="outlined"
+    >
+      <Card.Content>
+        <View style={styles.header}>
+          <IconButton
+            icon={
+              workout.completed
+                ? "check-circle"
+                : "checkbox-blank-circle-outline"
+            }
+            iconColor={
+              workout.completed ? theme.colors.primary : theme.colors.outline
+            }
+            size={24}
+            onPress={onToggleComplete}
+            accessibilityLabel={
+              workout.completed ? "Mark incomplete" : "Mark complete"
+            }
+            style={styles.checkButton}
+          />
+          <TouchableOpacity
+            onPress={onPress}
+            activeOpacity={0.7}
+            style={styles.titleContainer}
+          >
+            <Text
+              variant="titleMedium"
+              style={[styles.title, workout.completed && styles.completedTitle]}
+            >
+              {workout.title}
+            </Text>
+            {programName && (
+              <Text variant="bodySmall" style={styles.program}>
+                {programName}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <IconButton
+            icon="note-edit-outline"
+            size={20}
+            onPress={() => setIsEditingNotes(!isEditingNotes)}
+            accessibilityLabel="Notes"
+          />
+          <IconButton
+            icon="timer-outline"
+            size={20}
+            onPress={onStartTimer}
+            accessibilityLabel="Start timer"
+          />
+        </View>
+
+        {isEditingNotes ? (
+          <View style={styles.notesEditor}>
+            <TextInput
+              mode="outlined"
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="How did it go?"
+              multiline
+              dense
+              autoFocus
+            />
+            <View style={styles.notesActions}>
+              <Button
+                mode="text"
+                compact
+                onPress={() => setIsEditingNotes(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                mode="contained-tonal"
+                compact
+                onPress={handleSaveNotes}
+                loading={isSaving}
+                disabled={isSaving || notes.trim() === (workout.notes ?? "")}
+              >
+                Save
+              </Button>
+            </View>
+          </View>
+        ) : (
+          workout.notes && (
+            <Text
+              variant="bodySmall"
+              numberOfLines={2}
+              style={[styles.notes, { color: theme.colors.onSurfaceVariant }]}
+            >
+              {workout.notes}
+            </Text>
+          )
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  checkButton: {
+    margin: 0,
+    marginLeft: -8,
+  },
+  titleContainer: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: "600",
+  },
+  completedTitle: {
+    textDecorationLine: "line-through",
+  },
+  program: {
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  notes: {
+    marginTop: 8,
+    fontStyle: "italic",
+  },
+  notesEditor: {
+    marginTop: 8,
+  },
+  notesActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,82 @@
+import { ChevronDown, User } from "lucide-react-native";
+import { useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { Menu, Text, useTheme } from "react-native-paper";
+import type { Client } from "@/hooks/useClients";
+
+type LoadClientPickerProps = {
+  clients: Client[];
+  selectedId: string | null;
+  onSelect: (clientId: string) => void;
+};
+
+// Chooses whose 1RMs percentage loads are worked out from
+export function LoadClientPicker({
+  clients,
+  selectedId,
+  onSelect,
+}: LoadClientPickerProps) {
+  const theme = useTheme();
+  const [visible, setVisible] = useState(false);
+  const selected = clients.find((client) => client.id === selectedId);
+
+  return (
+    <View style={styles.container}>
+      <Text
+        variant="bodySmall"
+        style={{ color: theme.colors.onSurfaceVariant }}
+      >
+        Loads for
+      </Text>
+      <Menu
+        visible={visible}
+        onDismiss={() => setVisible(false)}
+        anchor={
+          <TouchableOpacity
+            onPress={() => setVisible(true)}
+            style={[styles.anchor, { borderColor: theme.colors.outline }]}
+          >
+            <User size={14} color={theme.colors.onSurfaceVariant} />
+            <Text variant="labelLarge">
+              {selected?.name ?? "Select client"}
+            </Text>
+            <ChevronDown size={16} color={theme.colors.onSurfaceVariant} />
+          </TouchableOpacity>
+        }
+      >
+        {clients.length === 0 ? (
+          <Menu.Item title="No clients yet" disabled />
+        ) : (
+          clients.map((client) => (
+            <Menu.Item
+              key={client.id}
+              title={client.name}
+              onPress={() => {
+                onSelect(client.id);
+                setVisible(false);
+              }}
+            />
+          ))
+        )}
+      </Menu>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  anchor: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+});
@@ -0,0 +1,150 @@
+import { Check, X } from "lucide-react-native";
+import { useState } from "react";
+import { StyleSheet, View } from "react-native";
+import {
+  Chip,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import {
+  SCALING_TIER_LABELS,
+  SCALING_TIERS,
+  type ScalingTier,
+} from "@/lib/workouts/scalingTiers";
+import {
+  formatWorkoutResult,
+  type WorkoutResult,
+} from "@/lib/workouts/workoutResults";
+import type { TimerFormat } from "@/lib/workouts/workoutTimer";
+
+type MemberResultEntryProps = {
+  name: string;
+  defaultTier: ScalingTier;
+  format: TimerFormat;
+  // The member's latest score for this workout, if any
+  result?: WorkoutResult;
+  isSaving: boolean;
+  onSave: (tier: ScalingTier, score: string) => Promise<boolean>;
+  onClear: (result: WorkoutResult) => void;
+};
+
+const SCORE_PLACEHOLDERS: Record<TimerFormat, string> = {
+  for_time: "12:34 or cap",
+  amrap: "Rounds + reps, e.g. 7+5",
+  emom: "Rounds completed",
+  tabata: "Rounds completed",
+};
+
+// One roster row in the class session: pick the tier they did and type
+// the score as it's called out
+export function MemberResultEntry({
+  name,
+  defaultTier,
+  format,
+  result,
+  isSaving,
+  onSave,
+  onClear,
+}: MemberResultEntryProps) {
+  const theme = useTheme();
+  const [tier, setTier] = useState<ScalingTier>(defaultTier);
+  const [score, setScore] = useState("");
+
+  const handleSave = async () => {
+    if (await onSave(tier, score)) setScore("");
+  };
+
+  if (result) {
+    return (
+      <View style={styles.row}>
+        <View style={styles.flex}>
+          <Text variant="titleMedium" style={styles.name}>
+            {name}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {result.tier ? SCALING_TIER_LABELS[result.tier] : "Untiered"}
+          </Text>
+        </View>
+        <Text variant="titleMedium" style={styles.score}>
+          {formatWorkoutResult(result)}
+        </Text>
+        <IconButton
+          icon={() => <X size={18} color={theme.colors.onSurfaceVariant} />}
+          onPress={() => onClear(result)}
+          size={18}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.entry}>
+      <Text variant="titleMedium" style={styles.name}>
+        {name}
+      </Text>
+      <View style={styles.tiers}>
+        {SCALING_TIERS.map((item) => (
+          <Chip
+            key={item.tier}
+            compact
+            selected={tier === item.tier}
+            showSelectedCheck={false}
+            mode={tier === item.tier ? "flat" : "outlined"}
+            onPress={() => setTier(item.tier)}
+          >
+            {item.label}
+          </Chip>
+        ))}
+      </View>
+      <View style={styles.row}>
+        <TextInput
+          value={score}
+          onChangeText={setScore}
+          placeholder={SCORE_PLACEHOLDERS[format]}
+          keyboardType="numbers-and-punctuation"
+          mode="outlined"
+          dense
+          style={styles.flex}
+          onSubmitEditing={handleSave}
+        />
+        <IconButton
+          icon={() => <Check size={20} color={theme.colors.primary} />}
+          onPress={handleSave}
+          disabled={isSaving || !score.trim()}
+          size={20}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    gap: 8,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  name: {
+    fontWeight: "600",
+  },
+  score: {
+    fontWeight: "bold",
+  },
+  tiers: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+});
@@ -0,0 +1,226 @@
+import { Minus, Plus } from "lucide-react-native";
+import { useState } from "react";
+import { StyleSheet, View } from "react-native";
+import {
+  Card,
+  IconButton,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import {
+  emptySet,
+  type LoadUnit,
+  type LoggedSet,
+  type MovementLog,
+} from "@/lib/workouts/performanceLog";
+import { formatDuration } from "@/lib/workouts/workoutParser";
+
+type MovementLogCardProps = {
+  log: MovementLog;
+  onChange: (log: MovementLog) => void;
+};
+
+// Keeps its own text so partial input like "102." survives until it parses
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  const [text, setText] = useState(value === null ? "" : String(value));
+
+  return (
+    <TextInput
+      label={label}
+      value={text}
+      onChangeText={(next) => {
+        setText(next);
+        if (!next.trim()) return onChange(null);
+        const parsed = Number(next.replace(",", "."));
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      keyboardType="decimal-pad"
+      mode="outlined"
+      dense
+      style={styles.field}
+    />
+  );
+}
+
+// Time as m:ss; plain numbers read as minutes
+function parseTime(text: string): number | null {
+  const clock = text.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const minutes = Number(text);
+  return text.trim() && Number.isFinite(minutes)
+    ? Math.round(minutes * 60)
+    : null;
+}
+
+export function MovementLogCard({ log, onChange }: MovementLogCardProps) {
+  const theme = useTheme();
+  const [timeText, setTimeText] = useState(
+    log.durationSeconds === null ? "" : formatDuration(log.durationSeconds),
+  );
+
+  const updateSet = (index: number, changes: Partial<LoggedSet>) =>
+    onChange({
+      ...log,
+      sets: log.sets.map((set, i) =>
+        i === index ? { ...set, ...changes } : set,
+      ),
+    });
+
+  // New sets start as a copy of the last one, which is usually what was done
+  const addSet = () =>
+    onChange({
+      ...log,
+      sets: [...log.sets, { ...(log.sets[log.sets.length - 1] ?? emptySet()) }],
+    });
+
+  const removeSet = () => onChange({ ...log, sets: log.sets.slice(0, -1) });
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content style={styles.content}>
+        <View style={styles.header}>
+          <Text variant="titleMedium" style={styles.movement}>
+            {log.movement}
+          </Text>
+          {log.prescribed && (
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Prescribed: {log.prescribed}
+            </Text>
+          )}
+        </View>
+
+        {log.isBlock ? (
+          <View style={styles.row}>
+            <TextInput
+              label="Time (m:ss)"
+              value={timeText}
+              onChangeText={(text) => {
+                setTimeText(text);
+                onChange({ ...log, durationSeconds: parseTime(text) });
+              }}
+              keyboardType="numbers-and-punctuation"
+              mode="outlined"
+              dense
+              style={styles.field}
+            />
+            <NumberField
+              label="Rounds"
+              value={log.rounds}
+              onChange={(rounds) => onChange({ ...log, rounds })}
+            />
+          </View>
+        ) : (
+          <>
+            <SegmentedButtons
+              value={log.loadUnit}
+              onValueChange={(value) =>
+                onChange({ ...log, loadUnit: value as LoadUnit })
+              }
+              buttons={[
+                { value: "kg", label: "kg" },
+                { value: "lb", label: "lb" },
+              ]}
+              density="small"
+              style={styles.unitToggle}
+            />
+            {log.sets.map((set, index) => (
+              // Sets are only added or removed at the end, so the number is
+              // a stable key
+              <View key={`set-${index + 1}`} style={styles.row}>
+                <Text variant="labelLarge" style={styles.setLabel}>
+                  {index + 1}
+                </Text>
+                <NumberField
+                  label="Reps"
+                  value={set.reps}
+                  onChange={(reps) => updateSet(index, { reps })}
+                />
+                <NumberField
+                  label={`Load (${log.loadUnit})`}
+                  value={set.load}
+                  onChange={(load) => updateSet(index, { load })}
+                />
+                <NumberField
+                  label="RPE"
+                  value={set.rpe}
+                  onChange={(rpe) => updateSet(index, { rpe })}
+                />
+              </View>
+            ))}
+            <View style={styles.setActions}>
+              <IconButton
+                icon={() => <Minus size={18} color={theme.colors.onSurface} />}
+                onPress={removeSet}
+                disabled={log.sets.length === 0}
+                mode="outlined"
+                size={18}
+              />
+              <IconButton
+                icon={() => <Plus size={18} color={theme.colors.onSurface} />}
+                onPress={addSet}
+                mode="outlined"
+                size={18}
+              />
+            </View>
+          </>
+        )}
+
+        <TextInput
+          label="Notes"
+          value={log.notes}
+          onChangeText={(notes) => onChange({ ...log, notes })}
+          mode="outlined"
+          dense
+          multiline
+        />
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+  },
+  content: {
+    gap: 8,
+  },
+  header: {
+    gap: 2,
+  },
+  movement: {
+    fontWeight: "600",
+  },
+  unitToggle: {
+    alignSelf: "flex-start",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  setLabel: {
+    width: 20,
+    textAlign: "center",
+  },
+  field: {
+    flex: 1,
+  },
+  setActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+});
@@ -0,0 +1,62 @@
+import { TriangleAlert } from "lucide-react-native";
+import { StyleSheet, View } from "react-native";
+import { Card, Text, useTheme } from "react-native-paper";
+import {
+  type RestrictionFlag,
+  restrictionTitle,
+} from "@/lib/clients/restrictions";
+
+type RestrictionFlagsProps = {
+  flags: RestrictionFlag[];
+};
+
+// Warns that a workout includes movements the client should avoid
+export function RestrictionFlags({ flags }: RestrictionFlagsProps) {
+  const theme = useTheme();
+  if (flags.length === 0) return null;
+
+  return (
+    <Card
+      style={[styles.card, { backgroundColor: theme.colors.errorContainer }]}
+    >
+      <Card.Content style={styles.content}>
+        <View style={styles.header}>
+          <TriangleAlert size={18} color={theme.colors.onErrorContainer} />
+          <Text
+            variant="titleSmall"
+            style={[styles.title, { color: theme.colors.onErrorContainer }]}
+          >
+            Restricted movements
+          </Text>
+        </View>
+        {flags.map((flag) => (
+          <Text
+            key={`${flag.line}-${flag.restriction.id}`}
+            variant="bodySmall"
+            style={{ color: theme.colors.onErrorContainer }}
+          >
+            {flag.line}: avoid {flag.term.toLowerCase()} (
+            {restrictionTitle(flag.restriction).toLowerCase()})
+          </Text>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  content: {
+    gap: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontWeight: "600",
+  },
+});
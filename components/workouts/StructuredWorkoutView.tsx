@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { Chip, Text, TextInput, useTheme } from "react-native-paper";
+import type { ResolvedLoad } from "@/lib/workouts/loadCalculator";
+import {
+  formatDuration,
+  formatPrescription,
+  type MovementChanges,
+  type MovementLine,
+  type ParsedWorkout,
+  visibleSections,
+  type WorkoutSection,
+  workoutFormatLabel,
+} from "@/lib/workouts/workoutParser";
+
+type StructuredWorkoutViewProps = {
+  workout: ParsedWorkout;
+  // Makes sets, reps and loads editable
+  onChangeMovement?: (
+    sectionIndex: number,
+    lineIndex: number,
+    changes: MovementChanges,
+  ) => void;
+  // Concrete weight for a percentage load, for the selected client
+  resolveLoad?: (line: MovementLine) => ResolvedLoad | null;
+};
+
+const SECTION_LABELS: Record<WorkoutSection["kind"], string> = {
+  warmup: "Warm-up",
+  strength: "Strength",
+  metcon: "Metcon",
+  skill: "Skill",
+  accessory: "Accessory",
+  cooldown: "Cooldown",
+  scaling: "Scaling",
+  other: "Workout",
+};
+
+// Holds the typed text until the field loses focus, so it can be cleared
+// and retyped without snapping back
+function PrescriptionField({
+  label,
+  value,
+  onCommit,
+}: {
+  label: string;
+  value: string;
+  onCommit: (text: string) => void;
+}) {
+  const [text, setText] = useState(value);
+
+  return (
+    <TextInput
+      label={label}
+      value={text}
+      onChangeText={setText}
+      onBlur={() => (text.trim() ? onCommit(text.trim()) : setText(value))}
+      keyboardType="numbers-and-punctuation"
+      mode="outlined"
+      dense
+      style={styles.field}
+    />
+  );
+}
+
+function MovementEditor({
+  line,
+  onChange,
+}: {
+  line: MovementLine;
+  onChange: (changes: MovementChanges) => void;
+}) {
+  const toNumber = (text: string) => {
+    const value = Number(text);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return (
+    <View style={styles.editorRow}>
+      {line.style === "scheme" && line.reps?.length === 1 && (
+        <PrescriptionField
+          label="Sets"
+          value={String(line.sets ?? 1)}
+          onCommit={(text) => {
+            const sets = toNumber(text);
+            if (sets) onChange({ sets });
+          }}
+        />
+      )}
+      {line.reps && (
+        <PrescriptionField
+          label="Reps"
+          value={line.reps.join("-")}
+          onCommit={(text) => {
+            const reps = text.split("-").map(toNumber);
+            if (reps.every((rep) => rep !== undefined)) {
+              onChange({ reps: reps as number[] });
+            }
+          }}
+        />
+      )}
+      {line.load && line.load.type !== "rx" && (
+        <PrescriptionField
+          label={
+            line.load.type === "percent"
+              ? "% 1RM"
+              : line.load.type === "rpe"
+                ? "RPE"
+                : line.load.unit
+          }
+          value={String(line.load.value)}
+          onCommit={(text) => {
+            const value = toNumber(text);
+            if (value && line.load && line.load.type !== "rx") {
+              onChange({ load: { ...line.load, value } });
+            }
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+export function StructuredWorkoutView({
+  workout,
+  onChangeMovement,
+  resolveLoad,
+}: StructuredWorkoutViewProps) {
+  const theme = useTheme();
+
+  return (
+    <View style={styles.container}>
+      {visibleSections(workout).map((section) => {
+        const sectionIndex = workout.sections.indexOf(section);
+        const timing = [
+          section.rounds ? `${section.rounds} rounds` : null,
+          section.durationSeconds
+            ? formatDuration(section.durationSeconds)
+            : null,
+          section.timeCapSeconds
+            ? `Cap ${formatDuration(section.timeCapSeconds)}`
+            : null,
+        ].filter(Boolean);
+
+        return (
+          <View key={sectionIndex} style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                {section.title ?? SECTION_LABELS[section.kind]}
+              </Text>
+              {section.format && (
+                <Chip compact mode="flat" style={styles.chip}>
+                  {workoutFormatLabel(section.format)}
+                </Chip>
+              )}
+              {timing.length > 0 && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  {timing.join(" • ")}
+                </Text>
+              )}
+            </View>
+
+            {section.lines.map((line, lineIndex) => {
+              const key = `${sectionIndex}-${lineIndex}`;
+              switch (line.kind) {
+                case "movement": {
+                  const resolved = resolveLoad?.(line);
+                  return (
+                    <View key={key} style={styles.movement}>
+                      <View style={styles.movementRow}>
+                        <Text variant="bodyLarge" style={styles.movementName}>
+                          {line.minute !== undefined && (
+                            <Text
+                              style={{ color: theme.colors.onSurfaceVariant }}
+                            >
+                              Min {line.minute}{" "}
+                            </Text>
+                          )}
+                          {line.movement}
+                        </Text>
+                        <Text
+                          variant="bodyMedium"
+                          style={{ color: theme.colors.primary }}
+                        >
+                          {formatPrescription(line)}
+                          {resolved && (
+                            <Text style={styles.resolvedLoad}>
+                              {" "}
+                              ≈ {resolved.load} kg
+                            </Text>
+                          )}
+                        </Text>
+                      </View>
+                      {line.note && (
+                        <Text
+                          variant="bodySmall"
+                          style={[
+                            styles.note,
+                            { color: theme.colors.onSurfaceVariant },
+                          ]}
+                        >
+                          {line.note}
+                        </Text>
+                      )}
+                      {onChangeMovement && (
+                        <MovementEditor
+                          // Remount when the text changes so fields reset
+                          key={line.text}
+                          line={line}
+                          onChange={(changes) =>
+                            onChangeMovement(sectionIndex, lineIndex, changes)
+                          }
+                        />
+                      )}
+                    </View>
+                  );
+                }
+                case "rest":
+                case "note":
+                  return (
+                    <Text
+                      key={key}
+                      variant="bodyMedium"
+                      style={[
+                        styles.note,
+                        { color: theme.colors.onSurfaceVariant },
+                      ]}
+                    >
+                      {line.text.trim()}
+                    </Text>
+                  );
+                default:
+                  // Format lines are shown in the header; blanks only space text
+                  return null;
+              }
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  section: {
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+  },
+  chip: {
+    height: 28,
+  },
+  movement: {
+    gap: 4,
+  },
+  movementRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    gap: 12,
+  },
+  movementName: {
+    flex: 1,
+  },
+  note: {
+    fontStyle: "italic",
+  },
+  resolvedLoad: {
+    fontWeight: "600",
+  },
+  editorRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+});
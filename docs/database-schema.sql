@@ -120,6 +120,79 @@ CREATE TABLE IF NOT EXISTS public.program_workouts (
   PRIMARY KEY (id)
 );
 
+-- Program Versions Table (snapshots of a program after each generation)
+CREATE TABLE IF NOT EXISTS public.program_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL,
+  version_number integer NOT NULL,
+  source text NOT NULL DEFAULT 'generation',
+  program_config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  workouts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  workout_count integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Workout Results Table (scores recorded from the workout timer)
+CREATE TABLE IF NOT EXISTS public.workout_results (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  workout_id uuid NOT NULL,
+  program_id uuid,
+  entity_id uuid,
+  tier text,
+  format text NOT NULL,
+  duration_seconds integer NOT NULL DEFAULT 0,
+  rounds integer,
+  extra_reps integer,
+  splits jsonb NOT NULL DEFAULT '[]'::jsonb,
+  capped boolean NOT NULL DEFAULT false,
+  notes text,
+  recorded_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Workout Set Logs Table (what the athlete actually did, one row per set)
+CREATE TABLE IF NOT EXISTS public.workout_set_logs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  workout_id uuid NOT NULL,
+  entity_id uuid,
+  program_id uuid,
+  movement text NOT NULL,
+  movement_order integer NOT NULL DEFAULT 0,
+  set_number integer NOT NULL DEFAULT 1,
+  reps integer,
+  load numeric,
+  load_unit text,
+  rpe numeric,
+  duration_seconds integer,
+  rounds integer,
+  notes text,
+  prescribed text,
+  is_block boolean NOT NULL DEFAULT false,
+  logged_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Entity Metric History Table (each saved change to a client's 1RMs and body metrics)
+CREATE TABLE IF NOT EXISTS public.entity_metric_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  entity_id uuid NOT NULL,
+  metric text NOT NULL,
+  value numeric NOT NULL,
+  recorded_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Class Members Table (clients on a class's roster, with their usual scaling tier)
+CREATE TABLE IF NOT EXISTS public.class_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL,
+  member_id uuid NOT NULL,
+  default_tier text NOT NULL DEFAULT 'intermediate'::text CHECK (default_tier = ANY (ARRAY['rx'::text, 'intermediate'::text, 'beginner'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
 -- Programs Table
 CREATE TABLE IF NOT EXISTS public.programs (
   id uuid NOT NULL DEFAULT uuid_generate_v4(),
@@ -189,6 +262,46 @@ ALTER TABLE public.program_workouts
   ADD CONSTRAINT program_workouts_external_workout_id_fkey
   FOREIGN KEY (external_workout_id) REFERENCES public.external_workouts(id);
 
+ALTER TABLE public.program_versions
+  ADD CONSTRAINT program_versions_program_id_fkey
+  FOREIGN KEY (program_id) REFERENCES public.programs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_results
+  ADD CONSTRAINT workout_results_workout_id_fkey
+  FOREIGN KEY (workout_id) REFERENCES public.program_workouts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_results
+  ADD CONSTRAINT workout_results_program_id_fkey
+  FOREIGN KEY (program_id) REFERENCES public.programs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_results
+  ADD CONSTRAINT workout_results_entity_id_fkey
+  FOREIGN KEY (entity_id) REFERENCES public.entities(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_set_logs
+  ADD CONSTRAINT workout_set_logs_workout_id_fkey
+  FOREIGN KEY (workout_id) REFERENCES public.program_workouts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_set_logs
+  ADD CONSTRAINT workout_set_logs_entity_id_fkey
+  FOREIGN KEY (entity_id) REFERENCES public.entities(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workout_set_logs
+  ADD CONSTRAINT workout_set_logs_program_id_fkey
+  FOREIGN KEY (program_id) REFERENCES public.programs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.entity_metric_history
+  ADD CONSTRAINT entity_metric_history_entity_id_fkey
+  FOREIGN KEY (entity_id) REFERENCES public.entities(id) ON DELETE CASCADE;
+
+ALTER TABLE public.class_members
+  ADD CONSTRAINT class_members_class_id_fkey
+  FOREIGN KEY (class_id) REFERENCES public.entities(id) ON DELETE CASCADE;
+
+ALTER TABLE public.class_members
+  ADD CONSTRAINT class_members_member_id_fkey
+  FOREIGN KEY (member_id) REFERENCES public.entities(id) ON DELETE CASCADE;
+
 ALTER TABLE public.programs
   ADD CONSTRAINT programs_entity_id_fkey
   FOREIGN KEY (entity_id) REFERENCES public.entities(id) ON DELETE CASCADE;
@@ -217,4 +330,11 @@ CREATE INDEX idx_program_workouts_program_id ON public.program_workouts USING bt
 CREATE INDEX idx_program_workouts_entity_id ON public.program_workouts USING btree (entity_id);
 CREATE INDEX idx_program_workouts_scheduled_date ON public.program_workouts USING btree (scheduled_date);
 CREATE INDEX idx_program_workouts_completed ON public.program_workouts USING btree (completed);
-CREATE INDEX idx_programs_entity_id ON public.programs USING btree (entity_id);
\ No newline at end of file
+CREATE INDEX idx_programs_entity_id ON public.programs USING btree (entity_id);
+CREATE UNIQUE INDEX program_versions_program_id_version_number_key ON public.program_versions USING btree (program_id, version_number);
+CREATE INDEX idx_workout_results_workout_id ON public.workout_results USING btree (workout_id);
+CREATE INDEX idx_workout_set_logs_workout_id ON public.workout_set_logs USING btree (workout_id);
+CREATE INDEX idx_workout_set_logs_entity_id ON public.workout_set_logs USING btree (entity_id, movement);
+CREATE INDEX idx_entity_metric_history_entity_id ON public.entity_metric_history USING btree (entity_id, metric, recorded_at);
+CREATE UNIQUE INDEX class_members_class_id_member_id_key ON public.class_members USING btree (class_id, member_id);
+CREATE UNIQUE INDEX workout_schedule_workout_id_key ON public.workout_schedule USING btree (workout_id);
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useOutbox } from "@/hooks/useOutbox";
+import { cacheKeys, fetchWithCache } from "@/lib/offline/cache";
+import { applyPendingMutations } from "@/lib/offline/outbox";
+import { upsertWorkoutInCache } from "@/lib/query/cachePatches";
+import { queryKeys } from "@/lib/query/queryKeys";
+import {
+  type CalendarWorkout,
+  rescheduledDate,
+  type ScheduleChange,
+} from "@/lib/schedule/calendar";
+import {
+  applyScheduleChanges,
+  listScheduleEntries,
+  type ScheduleEntry,
+} from "@/lib/schedule/reschedule";
+import { supabase } from "@/lib/supabase/client";
+import { fetchPrograms, type Program } from "./usePrograms";
+
+type CalendarData = {
+  programs: Program[];
+  workouts: CalendarWorkout[];
+  schedule: ScheduleEntry[];
+};
+
+async function fetchCalendar(): Promise<CalendarData> {
+  const programs = await fetchPrograms();
+  if (programs.length === 0) return { programs, workouts: [], schedule: [] };
+
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select(
+      "id, program_id, entity_id, title, scheduled_date, tags, completed, notes, updated_at",
+    )
+    .in(
+      "program_id",
+      programs.map((program) => program.id),
+    )
+    .eq("is_reference", false);
+
+  if (error) throw error;
+  const workouts = (data || []) as CalendarWorkout[];
+
+  // Move notes are extra; the calendar works without them
+  let schedule: ScheduleEntry[] = [];
+  try {
+    schedule = await listScheduleEntries(workouts.map((workout) => workout.id));
+  } catch (err) {
+    console.error("[Calendar] Failed to load schedule entries:", err);
+  }
+
+  return { programs, workouts, schedule };
+}
+
+// Scheduled workouts across every program; screens filter to one program.
+// Realtime workout changes are patched in like the dashboard (see
+// lib/query/cachePatches)
+export function useCalendar() {
+  const queryClient = useQueryClient();
+  const { pending } = useOutbox();
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: queryKeys.calendar,
+    queryFn: async () => {
+      // Falls back to the cached calendar offline
+      const { data } = await fetchWithCache(cacheKeys.calendar, fetchCalendar);
+      return data;
+    },
+  });
+
+  // Moves still waiting in the outbox are shown on top
+  const workouts = useMemo(
+    () => applyPendingMutations(data?.workouts ?? [], pending),
+    [data, pending],
+  );
+
+  const moveNotes = useMemo(
+    () =>
+      new Map(
+        (data?.schedule ?? [])
+          .filter((entry) => entry.notes)
+          .map((entry) => [entry.workout_id, entry.notes as string]),
+      ),
+    [data],
+  );
+
+  const reschedule = async (
+    changes: ScheduleChange[],
+  ): Promise<{ success: boolean; queued?: number; error?: string }> => {
+    if (changes.length === 0) return { success: true, queued: 0 };
+
+    // Optimistically move them everywhere they're cached
+    const updatedAt = new Date().toISOString();
+    for (const { workout, to } of changes) {
+      upsertWorkoutInCache(queryClient, {
+        ...workout,
+        scheduled_date: rescheduledDate(workout.scheduled_date, to),
+        updated_at: updatedAt,
+      });
+    }
+
+    try {
+      const { queued } = await applyScheduleChanges(changes);
+      if (queued === 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.calendar });
+      }
+      return { success: true, queued };
+    } catch (err: unknown) {
+      // Some changes may have landed before the failure, so reload rather
+      // than roll back
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.programWorkoutsAll,
+      });
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to reschedule";
+      console.error("[Calendar] Error rescheduling:", err);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    programs: data?.programs ?? [],
+    workouts,
+    moveNotes,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+    refetch,
+    reschedule,
+  };
+}
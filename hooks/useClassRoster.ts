@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addClassMember,
+  type ClassMember,
+  listClassMembers,
+  removeClassMember,
+  updateMemberTier,
+} from "@/lib/clients/classRoster";
+import { queryKeys } from "@/lib/query/queryKeys";
+import type { ScalingTier } from "@/lib/workouts/scalingTiers";
+
+export type { ClassMember };
+
+export function useClassRoster(classId: string) {
+  return useQuery<ClassMember[]>({
+    queryKey: queryKeys.classRoster(classId),
+    queryFn: () => listClassMembers(classId),
+    enabled: !!classId,
+  });
+}
+
+export function useAddClassMember(classId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      memberId,
+      defaultTier,
+    }: {
+      memberId: string;
+      defaultTier: ScalingTier;
+    }) => addClassMember(classId, memberId, defaultTier),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.classRoster(classId),
+      });
+    },
+  });
+}
+
+export function useUpdateClassMember(classId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      defaultTier,
+    }: {
+      id: string;
+      defaultTier: ScalingTier;
+    }) => updateMemberTier(id, defaultTier),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.classRoster(classId),
+      });
+    },
+  });
+}
+
+export function useRemoveClassMember(classId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => removeClassMember(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.classRoster(classId),
+      });
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import {
+  type Adherence,
+  type AdherenceWorkout,
+  computeAdherence,
+  recentWorkouts,
+} from "@/lib/clients/adherence";
+import { queryKeys } from "@/lib/query/queryKeys";
+import { supabase } from "@/lib/supabase/client";
+import type { Program } from "./usePrograms";
+import { useTodayKey } from "./useTodayKey";
+
+const RECENT_WORKOUT_LIMIT = 10;
+
+type ClientOverviewData = {
+  programs: Program[];
+  workouts: AdherenceWorkout[];
+};
+
+export type ClientProgram = Program & { adherence: Adherence };
+
+export type RecentWorkout = AdherenceWorkout & { program_name?: string };
+
+async function fetchClientOverview(
+  entityId: string,
+): Promise<ClientOverviewData> {
+  const { data: programsData, error: programsError } = await supabase
+    .from("programs")
+    .select("*")
+    .eq("entity_id", entityId)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false });
+
+  if (programsError) throw programsError;
+
+  const programs = (programsData || []) as Program[];
+  if (programs.length === 0) return { programs, workouts: [] };
+
+  const { data: workoutsData, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select("id, program_id, title, scheduled_date, completed, completed_at")
+    .in(
+      "program_id",
+      programs.map((program) => program.id),
+    );
+
+  if (workoutsError) throw workoutsError;
+
+  return { programs, workouts: (workoutsData || []) as AdherenceWorkout[] };
+}
+
+// Programs, adherence and recent workouts for one client or class. Realtime
+// workout changes are patched in like the dashboard (see lib/query/cachePatches)
+export function useClientOverview(entityId: string) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: queryKeys.clientOverview(entityId),
+    queryFn: () => fetchClientOverview(entityId),
+    enabled: !!entityId,
+  });
+  const todayKey = useTodayKey();
+
+  return useMemo(() => {
+    const programs = data?.programs ?? [];
+    const workouts = data?.workouts ?? [];
+
+    const programsWithAdherence: ClientProgram[] = programs.map((program) => ({
+      ...program,
+      adherence: computeAdherence(
+        workouts.filter((workout) => workout.program_id === program.id),
+        todayKey,
+      ),
+    }));
+
+    const recent: RecentWorkout[] = recentWorkouts(
+      workouts,
+      todayKey,
+      RECENT_WORKOUT_LIMIT,
+    ).map((workout) => ({
+      ...workout,
+      program_name: programs.find(
+        (program) => program.id === workout.program_id,
+      )?.name,
+    }));
+
+    return {
+      programs: programsWithAdherence,
+      overall: computeAdherence(workouts, todayKey),
+      recentWorkouts: recent,
+      isLoading,
+      error: error instanceof Error ? error.message : null,
+      refetch,
+    };
+  }, [data, todayKey, isLoading, error, refetch]);
+}
@@ -1,4 +1,17 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import {
+  type ClientRestriction,
+  parseInjuryHistory,
+  saveRestrictions,
+} from "@/lib/clients/restrictions";
+import {
+  listMetricHistory,
+  type MetricHistoryEntry,
+  type StrengthProfile,
+  saveStrengthProfile,
+} from "@/lib/clients/strengthProfile";
+import { queryKeys } from "@/lib/query/queryKeys";
 import { supabase } from "@/lib/supabase/client";
 import type { ClientInput, EntityType } from "@/lib/validations/program.schema";
 
@@ -7,6 +20,19 @@ export type Client = {
   name: string;
   type: EntityType;
   description?: Record<string, unknown>;
+  // Profile metrics; numeric columns can arrive as strings, so read them
+  // through profileFromEntity
+  bench_1rm?: number | string | null;
+  squat_1rm?: number | string | null;
+  deadlift_1rm?: number | string | null;
+  // Postgres interval, e.g. "00:07:30"
+  mile_time?: string | null;
+  weight_kg?: number | string | null;
+  height_cm?: number | null;
+  age?: number | null;
+  years_of_experience?: number | string | null;
+  // { restrictions: [...] }; read through parseInjuryHistory
+  injury_history?: unknown;
   created_at: string;
   updated_at: string;
 };
@@ -86,6 +112,7 @@ export function useCreateClient() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["clients"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
     },
   });
 }
@@ -111,6 +138,8 @@ export function useUpdateClient(id: string) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["clients"] });
       queryClient.invalidateQueries({ queryKey: ["client", id] });
+      // Client names are shown on the dashboard's program cards
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
     },
   });
 }
@@ -130,6 +159,61 @@ export function useDeleteClient() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["clients"] });
+      // Programs are listed by the coach's remaining entities
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
+    },
+  });
+}
+
+export function useMetricHistory(entityId: string) {
+  return useQuery<MetricHistoryEntry[]>({
+    queryKey: queryKeys.metricHistory(entityId),
+    queryFn: () => listMetricHistory(entityId),
+    enabled: !!entityId,
+  });
+}
+
+export function useSaveStrengthProfile(entityId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      previous,
+      next,
+    }: {
+      previous: StrengthProfile;
+      next: StrengthProfile;
+    }) => saveStrengthProfile(entityId, previous, next),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["clients"] });
+      queryClient.invalidateQueries({ queryKey: ["client", entityId] });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.metricHistory(entityId),
+      });
+    },
+  });
+}
+
+// Injuries and movement restrictions for a client or class
+export function useClientRestrictions(entityId: string) {
+  const { data: client, isLoading } = useClient(entityId);
+  const restrictions = useMemo<ClientRestriction[]>(
+    () => parseInjuryHistory(client?.injury_history),
+    [client?.injury_history],
+  );
+  return { restrictions, isLoading };
+}
+
+export function useSaveRestrictions(entityId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (restrictions: ClientRestriction[]) =>
+      saveRestrictions(entityId, restrictions),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["clients"] });
+      queryClient.invalidateQueries({ queryKey: ["client", entityId] });
     },
   });
 }
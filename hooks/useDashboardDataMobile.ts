@@ -1,140 +1,125 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/lib/supabase/client";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { queryKeys } from "@/lib/query/queryKeys";
+import { addDays, workoutDateKey } from "@/lib/schedule/calendar";
+import { supabase } from "@/lib/supabase/client";
+import type { Program } from "./usePrograms";
+import { useTodayKey } from "./useTodayKey";
+
+type Entity = {
+  id: string;
+  name: string;
+  [key: string]: unknown;
+};
+
+// Just the columns the stats need; realtime patches may add the rest
+type DashboardWorkout = {
+  id: string;
+  program_id: string;
+  scheduled_date?: string | null;
+  tags?: { scheduled_date?: string; date?: string } | null;
+  completed?: boolean;
+};
+
+type DashboardData = {
+  entities: Entity[];
+  programs: Program[];
+  workouts: DashboardWorkout[];
+};
+
+async function fetchDashboardData(userId: string): Promise<DashboardData> {
+  // Fetch entities
+  const { data: entitiesData, error: entitiesError } = await supabase
+    .from("entities")
+    .select("*")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("name", { ascending: true });
+
+  if (entitiesError) throw entitiesError;
+
+  const entities = (entitiesData || []) as Entity[];
+  const entityIds = entities.map((e) => e.id);
+
+  // Web checks `in('entity_id', entityIds)`, so no entities means no programs
+  if (entityIds.length === 0) {
+    return { entities, programs: [], workouts: [] };
+  }
+
+  const { data: programsData, error: programsError } = await supabase
+    .from("programs")
+    .select("*") // Client names are mapped from the entities list
+    .in("entity_id", entityIds)
+    .order("created_at", { ascending: false });
+
+  if (programsError) throw programsError;
+
+  const programs = (programsData || []) as Program[];
+  const programIds = programs.map((p) => p.id);
+
+  if (programIds.length === 0) {
+    return { entities, programs, workouts: [] };
+  }
+
+  const { data: workoutsData, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select("id, program_id, scheduled_date, tags, completed")
+    .in("program_id", programIds);
+
+  if (workoutsError)
+    console.error("Error fetching workouts for stats:", workoutsError);
+
+  return { entities, programs, workouts: workoutsData || [] };
+}
 
 export function useDashboardDataMobile() {
   const { user } = useAuth();
-  const [programs, setPrograms] = useState<any[]>([]);
-  const [entities, setEntities] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [stats, setStats] = useState({
-    totalPrograms: 0,
-    activeWorkouts: 0,
-    upcomingWorkouts: 0,
+  const today = useTodayKey();
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: queryKeys.dashboard(user?.id ?? ""),
+    queryFn: () => fetchDashboardData(user?.id ?? ""),
+    enabled: !!user,
   });
 
-  async function fetchData() {
-    if (!user) return;
-
-    setIsLoading(true);
-    try {
-      // Fetch entities
-      const { data: entitiesData, error: entitiesError } = await supabase
-        .from("entities")
-        .select("*")
-        .eq("user_id", user.id)
-        .is("deleted_at", null)
-        .order("name", { ascending: true });
-
-      if (entitiesError) throw entitiesError;
-      setEntities(entitiesData || []);
-
-      const entityIds = entitiesData?.map((e) => e.id) || [];
-
-      // Fetch programs (even if no entities, though usually they are linked)
-      // If no entities, we might still want to fetch programs if they aren't strictly enforced to have an entity_id in RLS or query
-      // But web checks `in('entity_id', entityIds)`. Let's stick to that if entityIds exist.
-
-      let programsQuery = supabase
-        .from("programs")
-        .select("*") // We'll map client names manually from entities list
-        .order("created_at", { ascending: false });
-
-      if (entityIds.length > 0) {
-        programsQuery = programsQuery.in("entity_id", entityIds);
-      } else {
-        // If no entities, user probably has no programs either if the app enforces entity linkage
-        // But let's just return empty if we are strictly filtering by entity
-        setPrograms([]);
-        setStats({ totalPrograms: 0, activeWorkouts: 0, upcomingWorkouts: 0 });
-        setIsLoading(false);
-        return;
-      }
-
-      const { data: programsData, error: programsError } = await programsQuery;
-
-      if (programsError) throw programsError;
-
-      // Map client_name for UI
-      const programsWithClientName = programsData?.map((p) => ({
+  const programs = useMemo(() => {
+    if (!data) return [];
+    return data.programs.map((p) => {
+      const workouts = data.workouts.filter((w) => w.program_id === p.id);
+      return {
         ...p,
-        client_name: entitiesData?.find((e) => e.id === p.entity_id)?.name,
-      }));
-
-      setPrograms(programsWithClientName || []);
-
-      // Calculate stats
-      const programIds = programsData?.map((p) => p.id) || [];
-
-      if (programIds.length > 0) {
-        const { data: workoutsData, error: workoutsError } = await supabase
-          .from("program_workouts")
-          .select("id, scheduled_date, tags")
-          .in("program_id", programIds);
-
-        if (workoutsError)
-          console.error("Error fetching workouts for stats:", workoutsError);
-
-        if (workoutsData) {
-          const today = new Date();
-          const todayStr = today.toISOString().split("T")[0];
-          const nextWeek = new Date(today);
-          nextWeek.setDate(today.getDate() + 7);
-          const nextWeekStr = nextWeek.toISOString().split("T")[0];
-
-          let todaysCount = 0;
-          let upcomingCount = 0;
-
-          workoutsData.forEach((workout) => {
-            let dateStr = null;
-            if (workout.scheduled_date) {
-              dateStr = new Date(workout.scheduled_date)
-                .toISOString()
-                .split("T")[0];
-            } else if (workout.tags?.scheduled_date || workout.tags?.date) {
-              try {
-                const d = new Date(
-                  workout.tags?.scheduled_date || workout.tags?.date,
-                );
-                if (!isNaN(d.getTime()))
-                  dateStr = d.toISOString().split("T")[0];
-              } catch (e) {}
-            }
-
-            if (dateStr === todayStr) todaysCount++;
-            if (dateStr && dateStr > todayStr && dateStr <= nextWeekStr)
-              upcomingCount++;
-          });
-
-          setStats({
-            totalPrograms: programsData?.length || 0,
-            activeWorkouts: todaysCount,
-            upcomingWorkouts: upcomingCount,
-          });
-        }
-      } else {
-        setStats({
-          totalPrograms: 0,
-          activeWorkouts: 0,
-          upcomingWorkouts: 0,
-        });
-      }
-    } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-    } finally {
-      setIsLoading(false);
+        // Map client_name for UI
+        client_name: data.entities.find((e) => e.id === p.entity_id)?.name,
+        workout_count: workouts.length,
+        completed_count: workouts.filter((w) => w.completed).length,
+      };
+    });
+  }, [data]);
+
+  const stats = useMemo(() => {
+    const nextWeek = addDays(today, 7);
+
+    let todaysCount = 0;
+    let upcomingCount = 0;
+
+    for (const workout of data?.workouts ?? []) {
+      const dateStr = workoutDateKey(workout);
+      if (dateStr === today) todaysCount++;
+      if (dateStr && dateStr > today && dateStr <= nextWeek) upcomingCount++;
     }
-  }
 
-  useEffect(() => {
-    fetchData();
-  }, [user]);
+    return {
+      totalPrograms: data?.programs.length ?? 0,
+      activeWorkouts: todaysCount,
+      upcomingWorkouts: upcomingCount,
+    };
+  }, [data, today]);
 
   return {
     programs,
-    entities,
+    entities: data?.entities ?? [],
     stats,
-    isLoading,
-    refetch: fetchData,
+    isLoading: !!user && isLoading,
+    refetch,
   };
 }
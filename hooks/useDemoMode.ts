@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import {
+  type DemoSettings,
+  getDemoSettings,
+  isMockApiUrl,
+  subscribeToDemoSettings,
+  updateDemoSettings,
+} from "@/lib/demo/demoMode";
+
+export function useDemoMode() {
+  const [settings, setSettings] = useState<DemoSettings>(getDemoSettings);
+
+  useEffect(() => subscribeToDemoSettings(setSettings), []);
+
+  return {
+    ...settings,
+    // Forced on by EXPO_PUBLIC_API_URL=mock; the toggle can't turn it off
+    isForced: isMockApiUrl(),
+    updateSettings: updateDemoSettings,
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useRef } from "react";
+import type { View } from "react-native";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Views something can be dragged onto, keyed by id. Positions are measured
+// when a drag starts, so scrolling beforehand doesn't throw them off.
+export function useDropTargets() {
+  const views = useRef(new Map<string, View>());
+  const rects = useRef(new Map<string, Rect>());
+
+  // Ref callback for a target view
+  const register = useCallback(
+    (key: string) => (view: View | null) => {
+      if (view) views.current.set(key, view);
+      else views.current.delete(key);
+    },
+    [],
+  );
+
+  const measure = useCallback(() => {
+    rects.current.clear();
+    for (const [key, view] of views.current) {
+      view.measureInWindow((x, y, width, height) => {
+        rects.current.set(key, { x, y, width, height });
+      });
+    }
+  }, []);
+
+  // The target under a point in window coordinates
+  const targetAt = useCallback((x: number, y: number): string | null => {
+    for (const [key, rect] of rects.current) {
+      if (
+        x >= rect.x &&
+        x <= rect.x + rect.width &&
+        y >= rect.y &&
+        y <= rect.y + rect.height
+      ) {
+        return key;
+      }
+    }
+    return null;
+  }, []);
+
+  return { register, measure, targetAt };
+}
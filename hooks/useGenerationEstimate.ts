@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  estimateGeneration,
+  type GenerationEstimate,
+  type GenerationRunRecord,
+  loadGenerationRuns,
+} from "@/lib/generation/generationEstimate";
+
+export type { GenerationEstimate };
+
+/**
+ * Estimate for a run of `workouts` workouts over `numberOfWeeks` weeks
+ * Past run durations are reloaded whenever `active` turns on (e.g. when the
+ * confirm modal opens) so the latest run is taken into account.
+ */
+export function useGenerationEstimate(
+  workouts: number,
+  numberOfWeeks: number,
+  active: boolean = true,
+): GenerationEstimate {
+  const [runs, setRuns] = useState<GenerationRunRecord[]>([]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    loadGenerationRuns().then((loaded) => {
+      if (!cancelled) setRuns(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [active]);
+
+  return useMemo(
+    () => estimateGeneration(runs, workouts, numberOfWeeks),
+    [runs, workouts, numberOfWeeks],
+  );
+}
@@ -0,0 +1,97 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase/client";
+
+// Credits a single generation run uses, whole-program or scoped
+export const GENERATION_COST = 1;
+
+export type GenerationQuota = {
+  remaining: number;
+  usedToday: number;
+  freeUsed: number;
+  subscriptionStatus: string | null;
+  subscriptionPlan: string | null;
+  isSubscribed: boolean;
+  trialEndDate: string | null;
+};
+
+export type QuotaCheck = {
+  allowed: boolean;
+  // The run would use the last of the remaining credits
+  exhausts: boolean;
+  message?: string;
+};
+
+/**
+ * Whether a run costing `cost` credits can start
+ * An unknown quota (not loaded, or failed to load) never blocks; the server
+ * still has the final say.
+ */
+export function checkGenerationQuota(
+  quota: GenerationQuota | null | undefined,
+  cost: number = GENERATION_COST,
+): QuotaCheck {
+  if (!quota) return { allowed: true, exhausts: false };
+
+  if (quota.remaining < cost) {
+    return {
+      allowed: false,
+      exhausts: false,
+      message: quota.isSubscribed
+        ? "You have no generations remaining this period."
+        : "You've used all of your free generations. Subscribe on halteres.ai to keep generating programs.",
+    };
+  }
+
+  if (quota.remaining === cost) {
+    return {
+      allowed: true,
+      exhausts: true,
+      message: "This will use your last remaining generation.",
+    };
+  }
+
+  return { allowed: true, exhausts: false };
+}
+
+export function useGenerationQuota() {
+  return useQuery<GenerationQuota>({
+    queryKey: ["generation-quota"],
+    queryFn: async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error("Not authenticated");
+      }
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(
+          "generations_remaining, generations_today, last_generation_date, free_generations_used, subscription_status, subscription_plan, trial_end_date",
+        )
+        .eq("id", user.id)
+        .single();
+
+      if (error) throw error;
+
+      // generations_today is only reset on the next generation
+      const today = new Date().toISOString().split("T")[0];
+      const usedToday =
+        data.last_generation_date === today ? data.generations_today || 0 : 0;
+
+      return {
+        remaining: data.generations_remaining ?? 0,
+        usedToday,
+        freeUsed: data.free_generations_used || 0,
+        subscriptionStatus: data.subscription_status,
+        subscriptionPlan: data.subscription_plan,
+        isSubscribed:
+          data.subscription_status === "active" ||
+          data.subscription_status === "trialing",
+        trialEndDate: data.trial_end_date,
+      };
+    },
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
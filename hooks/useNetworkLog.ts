@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import {
+  getNetworkLog,
+  type NetworkLogEntry,
+  subscribeToNetworkLog,
+} from "@/lib/debug/networkLog";
+
+export function useNetworkLog() {
+  const [entries, setEntries] = useState<NetworkLogEntry[]>(getNetworkLog);
+
+  useEffect(() => subscribeToNetworkLog(setEntries), []);
+
+  return entries;
+}
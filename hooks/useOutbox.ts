@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { isOnline, subscribeToConnectivity } from "@/lib/offline/connectivity";
+import {
+  dismissOutboxIssues,
+  flushOutbox,
+  getOutboxState,
+  type OutboxState,
+  subscribeToOutbox,
+} from "@/lib/offline/outbox";
+
+export function useOutbox() {
+  const [state, setState] = useState<OutboxState>(getOutboxState);
+  const [online, setOnline] = useState(isOnline);
+
+  useEffect(() => subscribeToOutbox(setState), []);
+  useEffect(() => subscribeToConnectivity(setOnline), []);
+
+  return {
+    ...state,
+    isOnline: online,
+    sync: flushOutbox,
+    dismissIssues: dismissOutboxIssues,
+  };
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query/queryKeys";
+import {
+  groupSetLogs,
+  listSetLogs,
+  type MovementLog,
+  saveSetLogs,
+} from "@/lib/workouts/performanceLog";
+
+export type { MovementLog };
+
+export function usePerformanceLog(workoutId: string) {
+  return useQuery<MovementLog[]>({
+    queryKey: queryKeys.setLogs(workoutId),
+    queryFn: async () => groupSetLogs(await listSetLogs(workoutId)),
+    enabled: !!workoutId,
+  });
+}
+
+export function useSavePerformanceLog(target: {
+  workoutId: string;
+  programId: string | null;
+  entityId: string | null;
+}) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (logs: MovementLog[]) => saveSetLogs(target, logs),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.setLogs(target.workoutId),
+      });
+    },
+  });
+}
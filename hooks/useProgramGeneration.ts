@@ -1,17 +1,66 @@
-import { useState, useRef, useCallback } from "react";
-import { supabase } from "@/lib/supabase/client";
-import { createSSEClientWithPost } from "@/lib/api/sseClient";
-import { equipmentList, dayNameToNumber } from "@/lib/constants/programConfig";
-
-// Debug: Log what Expo sees for the env var
-console.log(
-  "[Generation] EXPO_PUBLIC_API_URL from env:",
-  process.env.EXPO_PUBLIC_API_URL,
-);
-
-const API_BASE = process.env.EXPO_PUBLIC_API_URL || "https://halteres.ai";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+import { apiClient } from "@/lib/api/client";
+import { isRetryableSSEError } from "@/lib/api/sseClient";
+import { loadClassRequestFields } from "@/lib/clients/classRoster";
+import {
+  loadEntityRestrictions,
+  restrictionRequestFields,
+} from "@/lib/clients/restrictions";
+import { dayNameToNumber, equipmentList } from "@/lib/constants/programConfig";
+import { isDemoMode } from "@/lib/demo/demoMode";
+import { DEMO_GENERATION_TIMEOUT_MS } from "@/lib/demo/mockServer";
+import {
+  commitGenerationDraft,
+  type DraftWorkout,
+  findPersistedDraftWorkouts,
+  type GenerationDraft,
+} from "@/lib/generation/generationDraft";
+import {
+  getGenerationTimeout,
+  recordGenerationRun,
+} from "@/lib/generation/generationEstimate";
+import {
+  clearGenerationJob,
+  type GenerationJob,
+  getGenerationJobCoverage,
+  isGenerationJobExpired,
+  loadGenerationJob,
+  loadPrivateRequestFields,
+  type ReconciledJob,
+  reconcileGenerationJob,
+  saveGenerationJob,
+} from "@/lib/generation/generationJobs";
+import {
+  type DateRange,
+  getProgramSlots,
+  type ProgramSchedule,
+  type ProgramSlot,
+  type SlotCoverage,
+  toDateKey,
+} from "@/lib/generation/programSlots";
+import {
+  createProgramVersion,
+  ensureBaselineVersion,
+} from "@/lib/generation/programVersions";
+import {
+  prepareScopedGeneration,
+  removeReplacedWorkouts,
+  type ScopedGenerationPlan,
+} from "@/lib/generation/scopedGeneration";
+import {
+  type GenerationWarning,
+  type ProgramMetadataEvent,
+  parseGenerationEvent,
+  type StatusEvent,
+  type StreamingWorkout,
+} from "@/lib/validations/generation.schema";
+
+export type { GenerationWarning, StreamingWorkout };
+
 const MAX_RETRIES = 2;
 const RETRY_DELAY = 3000;
+const MAX_RECONNECTS = 5;
 
 export type GenerationStage =
   | "idle"
@@ -20,15 +69,12 @@ export type GenerationStage =
   | "streaming"
   | "complete"
   | "error"
-  | "retrying";
-
-export type StreamingWorkout = {
-  id: string;
-  title: string;
-  body: string;
-  scheduled_date?: string;
-  tags?: string[];
-};
+  | "retrying"
+  | "resuming"
+  | "review";
+
+export type GenerationStatus = Omit<StatusEvent, "type">;
+export type ProgramMetadata = Omit<ProgramMetadataEvent, "type">;
 
 export type ProgramFormData = {
   name: string;
@@ -54,12 +100,268 @@ export type ProgramFormData = {
   gymDetails?: Record<string, unknown>;
 };
 
+export type GenerationOutcome = "complete" | "partial" | "failed";
+
 export type GenerationResult = {
+  success: boolean;
+  outcome: GenerationOutcome;
+  workoutsCreated: number;
+  error?: string;
+  // Only set for a partial outcome
+  filledSlots?: ProgramSlot[];
+  missingSlots?: ProgramSlot[];
+  // Review mode: workouts are held as a draft rather than saved
+  isDraft?: boolean;
+};
+
+export type GenerateOptions = {
+  // Hold the streamed workouts as a draft to review before saving
+  review?: boolean;
+};
+
+export type DraftCommitResult = {
   success: boolean;
   workoutsCreated: number;
   error?: string;
 };
 
+export type {
+  DateRange,
+  DraftWorkout,
+  GenerationDraft,
+  ProgramSlot,
+  SlotCoverage,
+};
+
+// Programs with a run in progress in this JS context, so two mounted
+// instances of the hook never stream the same job at once
+const activeRuns = new Set<string>();
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Convert day names to numbers
+function toDayNumbers(daysOfWeek: ProgramFormData["daysOfWeek"]): number[] {
+  const daysOfWeekNumbers = daysOfWeek
+    .map((day) => {
+      if (typeof day === "number") return day;
+      if (!day || typeof day !== "string") return null;
+
+      // Try exact match
+      if (dayNameToNumber[day] !== undefined) {
+        return dayNameToNumber[day];
+      }
+
+      // Try capitalized
+      const capitalizedDay =
+        day.charAt(0).toUpperCase() + day.slice(1).toLowerCase();
+      if (dayNameToNumber[capitalizedDay] !== undefined) {
+        return dayNameToNumber[capitalizedDay];
+      }
+
+      return null;
+    })
+    .filter((dayNum) => dayNum !== null);
+
+  // Fallback to Mon/Wed/Fri if no valid days
+  if (daysOfWeekNumbers.length === 0) {
+    daysOfWeekNumbers.push(1, 3, 5);
+  }
+
+  return daysOfWeekNumbers;
+}
+
+function toProgramSchedule(formData: ProgramFormData): ProgramSchedule {
+  return {
+    startDate: formData.startDate,
+    daysOfWeek: toDayNumbers(formData.daysOfWeek),
+    weeks: formData.numberOfWeeks,
+  };
+}
+
+// Build request body matching web app
+function buildRequestBody(
+  programId: string,
+  formData: ProgramFormData,
+  isRegeneration: boolean,
+): Record<string, unknown> {
+  // Convert equipment IDs to labels
+  const selectedEquipmentNames = formData.equipment
+    .map((id) => {
+      const equipment = equipmentList.find((item) => item.value === id);
+      return equipment ? equipment.label : "";
+    })
+    .filter(Boolean);
+
+  const daysOfWeekNumbers = toDayNumbers(formData.daysOfWeek);
+
+  // Prepare gym details
+  const gymDetails = {
+    ...formData.gymDetails,
+    equipment: selectedEquipmentNames,
+    gym_type: formData.gymType,
+  };
+
+  // Prepare periodization
+  const periodizationData = {
+    program_type: formData.programType,
+  };
+
+  return {
+    ...(programId ? { programId } : {}),
+    name: formData.name,
+    description: formData.description,
+    goal: formData.goal,
+    difficulty: formData.difficulty,
+    focus_area: formData.focusArea,
+    personalization: formData.personalization,
+    referenceInput: formData.referenceInput || "",
+    trainingMethodology: formData.trainingMethodology,
+    duration_weeks: parseInt(String(formData.numberOfWeeks), 10),
+    days_per_week: parseInt(String(formData.daysPerWeek), 10),
+    entityId: formData.entityId,
+    gym_details: gymDetails,
+    periodization: periodizationData,
+    calendar_data: {
+      start_date: formData.startDate,
+      end_date: formData.endDate,
+      days_per_week: parseInt(String(formData.daysPerWeek), 10),
+      days_of_week: daysOfWeekNumbers,
+    },
+    session_details: formData.sessionDetails,
+    program_overview: formData.programOverview,
+    workout_format: formData.workoutFormats || [],
+    forceRegenerate: isRegeneration,
+  };
+}
+
+function toGenerationDraft(
+  programId: string,
+  jobDraft: NonNullable<GenerationJob["draft"]>,
+): GenerationDraft {
+  return {
+    programId,
+    entityId: jobDraft.entityId,
+    replaceExisting: jobDraft.replaceExisting,
+    workouts: jobDraft.workouts.map((workout) => ({
+      ...workout,
+      rejected: false,
+    })),
+  };
+}
+
+function mapDraftWorkouts(
+  draft: GenerationDraft | null,
+  update: (workout: DraftWorkout) => DraftWorkout,
+): GenerationDraft | null {
+  return draft ? { ...draft, workouts: draft.workouts.map(update) } : draft;
+}
+
+// First to last date a run writes: its target dates, or the whole program
+function generationRange(
+  schedule?: ProgramSchedule,
+  targetDates?: string[],
+): DateRange | undefined {
+  const dates = targetDates
+    ? [...targetDates].sort()
+    : schedule
+      ? getProgramSlots(schedule).map((slot) => slot.date)
+      : [];
+  if (dates.length === 0) return undefined;
+  return { startDate: dates[0], endDate: dates[dates.length - 1] };
+}
+
+// Adds the client's injuries and restrictions in effect during the run's
+// dates to the request, and for classes the scaling tiers to write. Best
+// effort: a failed lookup generates without them rather than failing.
+async function withEntityContext(
+  requestBody: Record<string, unknown>,
+  entityId: string,
+  range?: DateRange,
+): Promise<Record<string, unknown>> {
+  if (!entityId) return requestBody;
+  let context = requestBody;
+  try {
+    const restrictions = await loadEntityRestrictions(entityId);
+    context = { ...context, ...restrictionRequestFields(restrictions, range) };
+  } catch (err) {
+    console.error("[Generation] Failed to load client restrictions:", err);
+  }
+  try {
+    context = { ...context, ...(await loadClassRequestFields(entityId)) };
+  } catch (err) {
+    console.error("[Generation] Failed to load class roster:", err);
+  }
+  return context;
+}
+
+// Restores the request fields a persisted job leaves out, so a run resumed
+// after a restart sends the same context it started with
+async function withPrivateContext(
+  job: GenerationJob,
+): Promise<Record<string, unknown>> {
+  let requestBody = job.requestBody;
+  try {
+    requestBody = {
+      ...requestBody,
+      ...(await loadPrivateRequestFields(job.programId)),
+    };
+  } catch (err) {
+    console.error("[Generation] Failed to reload personalization:", err);
+  }
+  const entityId =
+    typeof requestBody.entityId === "string" ? requestBody.entityId : "";
+  return withEntityContext(
+    requestBody,
+    entityId,
+    generationRange(job.schedule, job.targetDates),
+  );
+}
+
+// Version history is best effort and never fails a generation
+async function recordProgramVersion(programId: string) {
+  try {
+    await createProgramVersion(programId, "generation");
+  } catch (err) {
+    console.error("[Generation] Failed to record program version:", err);
+  }
+}
+
+// Keeps the pre-generation state restorable for programs with no history
+async function recordBaselineVersion(programId: string) {
+  try {
+    await ensureBaselineVersion(programId);
+  } catch (err) {
+    console.error("[Generation] Failed to record baseline version:", err);
+  }
+}
+
+// Deletes the workouts a scoped run replaced on the dates it filled. Best
+// effort: a failure leaves the old workout next to the new one. Demo runs
+// never save their workouts, so the real ones stay.
+async function settleReplacedWorkouts(
+  job: GenerationJob,
+  filledDates: string[],
+) {
+  if (!job.replacedWorkouts?.length || isDemoMode()) return;
+  try {
+    await removeReplacedWorkouts(job.replacedWorkouts, filledDates);
+  } catch (err) {
+    console.error("[Generation] Failed to remove replaced workouts:", err);
+  }
+}
+
+// Slot coverage for a failed job; null if it can't be worked out
+async function loadJobCoverage(
+  job: GenerationJob,
+): Promise<SlotCoverage | null> {
+  try {
+    return await getGenerationJobCoverage(job);
+  } catch (err) {
+    console.error("[Generation] Failed to load slot coverage:", err);
+    return null;
+  }
+}
+
 export function useProgramGeneration(programId: string) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [stage, setStage] = useState<GenerationStage>("idle");
@@ -69,11 +371,25 @@ export function useProgramGeneration(programId: string) {
   >([]);
   const [error, setError] = useState<string | null>(null);
   const [duration, setDuration] = useState(0);
+  const [status, setStatus] = useState<GenerationStatus | null>(null);
+  const [programMetadata, setProgramMetadata] =
+    useState<ProgramMetadata | null>(null);
+  const [warnings, setWarnings] = useState<GenerationWarning[]>([]);
+  // Filled/missing slots after a run that stopped part way through
+  const [partial, setPartial] = useState<SlotCoverage | null>(null);
+  const [draft, setDraft] = useState<GenerationDraft | null>(null);
+  const [isCommittingDraft, setIsCommittingDraft] = useState(false);
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Workout ids seen in the current run, from the stream or reconciliation
+  const processedWorkoutsRef = useRef(new Set<string>());
+  // Set when the run is stopped on purpose rather than by a failure
+  const cancelledRef = useRef(false);
+  const completedExternallyRef = useRef(false);
 
   const clearStreamingWorkouts = useCallback(() => {
+    processedWorkoutsRef.current = new Set();
     setStreamingWorkouts([]);
   }, []);
 
@@ -81,267 +397,735 @@ export function useProgramGeneration(programId: string) {
     setStreamingWorkouts((prev) => [...prev, workout]);
   }, []);
 
-  const getTimeout = (weeks: number): number => {
-    if (weeks < 5) return 5 * 60 * 1000; // 5 minutes
-    if (weeks < 8) return 7.5 * 60 * 1000; // 7.5 minutes
-    return 30 * 60 * 1000; // 30 minutes
-  };
+  // Merge workouts found in the database into the streamed list
+  const mergeStreamingWorkouts = useCallback(
+    (workouts: StreamingWorkout[], expectedTotal: number) => {
+      const added = workouts.filter(
+        (workout) => !processedWorkoutsRef.current.has(workout.id),
+      );
+      for (const workout of added) {
+        processedWorkoutsRef.current.add(workout.id);
+      }
+      if (added.length > 0) {
+        setStreamingWorkouts((prev) => [...prev, ...added]);
+      }
+      setProgress({
+        current: processedWorkoutsRef.current.size,
+        total: expectedTotal,
+      });
+    },
+    [],
+  );
 
-  const delay = (ms: number) =>
-    new Promise((resolve) => setTimeout(resolve, ms));
+  const addWarning = useCallback((warning: GenerationWarning) => {
+    console.warn(`[Generation] ${warning.kind}: ${warning.message}`);
+    setWarnings((prev) => [...prev, warning]);
+  }, []);
 
-  const generateProgram = useCallback(
+  const startTimer = useCallback((startTime: number) => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+    }
+    setDuration(Math.floor((Date.now() - startTime) / 1000));
+    timerRef.current = setInterval(() => {
+      setDuration(Math.floor((Date.now() - startTime) / 1000));
+    }, 1000);
+  }, []);
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Streams one connection's worth of a job, resuming from job.lastEventId
+   * Keeps the persisted job up to date as workouts arrive.
+   */
+  const streamJob = useCallback(
+    async (job: GenerationJob) => {
+      // Create abort controller with timeout for whatever is left of the run
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      let timedOut = false;
+      const remaining = Date.parse(job.startedAt) + job.timeoutMs - Date.now();
+      const timeoutId = setTimeout(
+        () => {
+          timedOut = true;
+          controller.abort();
+        },
+        Math.max(remaining, 0),
+      );
+
+      // An `error` event from the server; thrown once the stream is closed
+      let serverError: Error | null = null;
+      let reportedScopeIgnored = false;
+
+      // Start SSE stream (reconnects with Last-Event-ID on drops)
+      await apiClient.stream(
+        "/api/generate-program-anthropic",
+        job.requestBody,
+        {
+          signal: controller.signal,
+          lastEventId: job.lastEventId,
+          maxReconnects: MAX_RECONNECTS,
+          defaultRetryDelay: RETRY_DELAY,
+          onOpen: () => {
+            setStage("streaming");
+          },
+          onReconnect: (attempt, resumeFromId) => {
+            console.log(
+              `[Generation] Resuming after event ${resumeFromId} (attempt ${attempt})`,
+            );
+            setStage("resuming");
+          },
+          onMessage: (event) => {
+            if (event.id) {
+              job.lastEventId = event.id;
+            }
+
+            const parsed = parseGenerationEvent(event.data);
+            if (!parsed.ok) {
+              addWarning(parsed.warning);
+              return;
+            }
+
+            const { type, ...payload } = parsed.event;
+            switch (parsed.event.type) {
+              case "status":
+                console.log("[Generation]", parsed.event.message);
+                setStatus(payload as GenerationStatus);
+                break;
+              case "workout_chunk": {
+                // New workout streamed
+                const { workout } = parsed.event;
+                // A server without generation_scope support writes the
+                // whole program (see docs/backend-modifications.md)
+                const dateKey = toDateKey(workout.scheduled_date);
+                if (
+                  job.targetDates &&
+                  dateKey &&
+                  !job.targetDates.includes(dateKey) &&
+                  !reportedScopeIgnored
+                ) {
+                  reportedScopeIgnored = true;
+                  addWarning({
+                    kind: "unsupported_option",
+                    message:
+                      "The server ignored the generation scope and wrote workouts outside the selected dates",
+                    eventType: type,
+                  });
+                }
+                const processedWorkouts = processedWorkoutsRef.current;
+                if (!processedWorkouts.has(workout.id)) {
+                  processedWorkouts.add(workout.id);
+                  addStreamingWorkout(workout);
+                  setProgress((prev) => ({
+                    ...prev,
+                    current: processedWorkouts.size,
+                  }));
+                  job.receivedWorkoutIds = [...processedWorkouts];
+                  job.draft?.workouts.push(workout);
+                  saveGenerationJob(job);
+                }
+                break;
+              }
+              case "program_metadata":
+                console.log("[Generation] Program metadata received");
+                setProgramMetadata(payload as ProgramMetadata);
+                break;
+              case "warning":
+                addWarning({
+                  kind: "server",
+                  message: parsed.event.message,
+                  eventType: type,
+                });
+                break;
+              case "error":
+                // Throwing here would escape the XHR callback, so stop the
+                // stream and report the error after it closes
+                serverError = new Error(parsed.event.message);
+                controller.abort();
+                break;
+              case "complete":
+                console.log("[Generation] Complete");
+                break;
+            }
+          },
+          onError: (err) => {
+            clearTimeout(timeoutId);
+            throw err;
+          },
+          onClose: () => {
+            clearTimeout(timeoutId);
+          },
+        },
+      );
+
+      if (serverError) {
+        throw serverError;
+      }
+      if (timedOut) {
+        throw new Error("Generation timed out");
+      }
+    },
+    [addStreamingWorkout, addWarning],
+  );
+
+  // Review runs rely on the server honouring `persist: false`. Committing
+  // skips anything it saved anyway, but the coach should know it's there.
+  const checkDraftPersisted = useCallback(
+    async (job: GenerationJob) => {
+      if (!job.draft || job.draft.workouts.length === 0) return;
+      try {
+        const persisted = await findPersistedDraftWorkouts({
+          programId: job.programId,
+          workouts: job.draft.workouts,
+        });
+        if (persisted.size > 0) {
+          addWarning({
+            kind: "unsupported_option",
+            message: `The server saved ${persisted.size} draft workout${persisted.size !== 1 ? "s" : ""} while streaming; they're already in the program`,
+          });
+        }
+      } catch (err) {
+        console.error("[Generation] Failed to check draft workouts:", err);
+      }
+    },
+    [addWarning],
+  );
+
+  /**
+   * Runs a job to completion, then settles hook state
+   * A fresh job may be restarted from scratch if it fails before any event
+   * arrives; a resumed job only ever continues from its last event id.
+   */
+  const runJob = useCallback(
+    async (
+      job: GenerationJob,
+      canRestart: boolean,
+    ): Promise<GenerationResult> => {
+      activeRuns.add(job.programId);
+      cancelledRef.current = false;
+      completedExternallyRef.current = false;
+
+      let retryCount = 0;
+      let lastError: Error | null = null;
+
+      try {
+        while (retryCount <= MAX_RETRIES) {
+          try {
+            if (retryCount > 0) {
+              setStage("retrying");
+              clearStreamingWorkouts();
+              await delay(RETRY_DELAY);
+              job.startedAt = new Date().toISOString();
+              job.receivedWorkoutIds = [];
+              job.lastEventId = undefined;
+              if (job.draft) job.draft.workouts = [];
+            }
+            await saveGenerationJob(job);
+
+            await streamJob(job);
+            lastError = null;
+            break;
+          } catch (err) {
+            lastError = err instanceof Error ? err : new Error("Unknown error");
+
+            // Restart from scratch only if the stream never got going;
+            // mid-stream drops were already resumed by the SSE client
+            if (
+              canRestart &&
+              !job.lastEventId &&
+              isRetryableSSEError(lastError)
+            ) {
+              retryCount++;
+              if (retryCount <= MAX_RETRIES) {
+                continue; // Retry
+              }
+            }
+
+            // Non-retryable error or max retries exceeded
+            break;
+          }
+        }
+      } finally {
+        activeRuns.delete(job.programId);
+      }
+
+      if (cancelledRef.current) {
+        // Dates the server filled before the cancel swap to the new workout
+        const coverage = job.replacedWorkouts
+          ? await loadJobCoverage(job)
+          : null;
+        await settleReplacedWorkouts(
+          job,
+          coverage?.filled.map((slot) => slot.date) ?? [],
+        );
+        // A workout saved just before the cancel may have re-stored the job
+        await clearGenerationJob(job.programId);
+        return {
+          success: false,
+          outcome: "failed",
+          workoutsCreated: processedWorkoutsRef.current.size,
+          error: "Generation cancelled",
+        };
+      }
+
+      // The stream can fail while the server keeps going (e.g. the app was
+      // backgrounded), so check the database before reporting a failure
+      if (lastError && !completedExternallyRef.current) {
+        try {
+          const reconciled = await reconcileGenerationJob(job);
+          mergeStreamingWorkouts(reconciled.workouts, job.expectedTotal);
+          if (reconciled.isComplete) {
+            lastError = null;
+          }
+        } catch (err) {
+          console.error("[Generation] Reconciliation failed:", err);
+        }
+      }
+
+      const coverage = lastError ? await loadJobCoverage(job) : null;
+      await settleReplacedWorkouts(
+        job,
+        lastError
+          ? (coverage?.filled.map((slot) => slot.date) ?? [])
+          : (job.targetDates ?? []),
+      );
+
+      await clearGenerationJob(job.programId);
+      stopTimer();
+      setIsGenerating(false);
+
+      // Whatever arrived is kept for review, even if the run failed
+      if (job.draft && job.draft.workouts.length > 0) {
+        await checkDraftPersisted(job);
+        setDraft(toGenerationDraft(job.programId, job.draft));
+      }
+
+      if (lastError) {
+        // Failed after retries
+        setStage("error");
+        setError(lastError.message || "Generation failed");
+
+        // Some workouts made it into the program; report what's missing
+        if (coverage && coverage.filled.length > 0) {
+          await recordProgramVersion(job.programId);
+          setPartial(coverage);
+          return {
+            success: false,
+            outcome: "partial",
+            workoutsCreated: coverage.filled.length,
+            error: lastError.message,
+            filledSlots: coverage.filled,
+            missingSlots: coverage.missing,
+          };
+        }
+
+        return {
+          success: false,
+          outcome: "failed",
+          workoutsCreated: 0,
+          error: lastError.message,
+        };
+      }
+
+      // Calibrates the pre-flight estimate for future runs
+      await recordGenerationRun(
+        processedWorkoutsRef.current.size,
+        Date.now() - Date.parse(job.startedAt),
+      );
+
+      if (job.draft) {
+        setStage("review");
+        return {
+          success: true,
+          outcome: "complete",
+          workoutsCreated: 0,
+          isDraft: true,
+        };
+      }
+
+      // Success!
+      await recordProgramVersion(job.programId);
+      setStage("complete");
+      return {
+        success: true,
+        outcome: "complete",
+        workoutsCreated: processedWorkoutsRef.current.size,
+      };
+    },
+    [
+      checkDraftPersisted,
+      clearStreamingWorkouts,
+      mergeStreamingWorkouts,
+      stopTimer,
+      streamJob,
+    ],
+  );
+
+  // Resets hook state and runs a new job for the given request
+  const startJob = useCallback(
     async (
       formData: ProgramFormData,
-      isRegeneration: boolean = false,
+      requestBody: Record<string, unknown>,
+      expectedTotal: number,
+      targetDates?: string[],
+      draft?: GenerationJob["draft"],
+      replacedWorkouts?: GenerationJob["replacedWorkouts"],
     ): Promise<GenerationResult> => {
       // Reset state
       setIsGenerating(true);
       setError(null);
       setStage("preparing");
       setProgress({ current: 0, total: 0 });
+      setStatus(null);
+      setProgramMetadata(null);
+      setWarnings([]);
+      setPartial(null);
+      setDraft(null);
       clearStreamingWorkouts();
 
       // Start duration timer
       const startTime = Date.now();
-      timerRef.current = setInterval(() => {
-        setDuration(Math.floor((Date.now() - startTime) / 1000));
-      }, 1000);
+      startTimer(startTime);
 
-      let retryCount = 0;
-      let lastError: Error | null = null;
+      setProgress({ current: 0, total: expectedTotal });
+      setStage("generating");
 
-      while (retryCount <= MAX_RETRIES) {
-        try {
-          if (retryCount > 0) {
-            setStage("retrying");
-            clearStreamingWorkouts();
-            await delay(RETRY_DELAY);
-          }
+      const job: GenerationJob = {
+        programId,
+        requestBody: await withEntityContext(
+          requestBody,
+          formData.entityId,
+          generationRange(toProgramSchedule(formData), targetDates),
+        ),
+        expectedTotal,
+        receivedWorkoutIds: [],
+        startedAt: new Date(startTime).toISOString(),
+        timeoutMs: isDemoMode()
+          ? DEMO_GENERATION_TIMEOUT_MS
+          : getGenerationTimeout(formData.numberOfWeeks),
+        schedule: toProgramSchedule(formData),
+        targetDates,
+        replacedWorkouts,
+        draft,
+      };
 
-          // Get auth token
-          const {
-            data: { session },
-          } = await supabase.auth.getSession();
+      return runJob(job, true);
+    },
+    [programId, clearStreamingWorkouts, runJob, startTimer],
+  );
 
-          if (!session?.access_token) {
-            throw new Error("No authentication token");
-          }
+  const generateProgram = useCallback(
+    async (
+      formData: ProgramFormData,
+      isRegeneration: boolean = false,
+      options: GenerateOptions = {},
+    ): Promise<GenerationResult> => {
+      // Calculate expected total
+      const expectedTotal = formData.numberOfWeeks * formData.daysPerWeek;
 
-          // Convert equipment IDs to labels
-          const selectedEquipmentNames = formData.equipment
-            .map((id) => {
-              const equipment = equipmentList.find((item) => item.value === id);
-              return equipment ? equipment.label : "";
-            })
-            .filter(Boolean);
-
-          // Convert day names to numbers
-          const daysOfWeekNumbers = formData.daysOfWeek
-            .map((day) => {
-              if (typeof day === "number") return day;
-              if (!day || typeof day !== "string") return null;
-
-              // Try exact match
-              if (dayNameToNumber[day] !== undefined) {
-                return dayNameToNumber[day];
-              }
+      if (isRegeneration && !options.review) {
+        await recordBaselineVersion(programId);
+      }
 
-              // Try capitalized
-              const capitalizedDay =
-                day.charAt(0).toUpperCase() + day.slice(1).toLowerCase();
-              if (dayNameToNumber[capitalizedDay] !== undefined) {
-                return dayNameToNumber[capitalizedDay];
-              }
+      if (options.review) {
+        // The server only streams; existing workouts stay until the draft
+        // is committed
+        return startJob(
+          formData,
+          {
+            ...buildRequestBody(programId, formData, false),
+            persist: false,
+          },
+          expectedTotal,
+          undefined,
+          {
+            entityId: formData.entityId,
+            replaceExisting: isRegeneration,
+            workouts: [],
+          },
+        );
+      }
 
-              return null;
-            })
-            .filter((dayNum) => dayNum !== null);
+      return startJob(
+        formData,
+        buildRequestBody(programId, formData, isRegeneration),
+        expectedTotal,
+      );
+    },
+    [programId, startJob],
+  );
 
-          // Fallback to Mon/Wed/Fri if no valid days
-          if (daysOfWeekNumbers.length === 0) {
-            daysOfWeekNumbers.push(1, 3, 5);
-          }
+  /**
+   * Regenerates a single week or date range
+   * Incomplete workouts in the range are replaced once the new ones arrive;
+   * completed or logged ones are kept and sent, with the surrounding weeks,
+   * as context.
+   */
+  const generateRange = useCallback(
+    async (
+      formData: ProgramFormData,
+      range: DateRange,
+    ): Promise<GenerationResult> => {
+      setIsGenerating(true);
+      setError(null);
+      setStage("preparing");
+      await recordBaselineVersion(programId);
 
-          // Prepare gym details
-          const gymDetails = {
-            ...formData.gymDetails,
-            equipment: selectedEquipmentNames,
-            gym_type: formData.gymType,
-          };
+      let plan: ScopedGenerationPlan;
+      try {
+        plan = await prepareScopedGeneration(
+          programId,
+          range,
+          getProgramSlots(toProgramSchedule(formData)),
+        );
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to prepare generation";
+        console.error("[Generation] Failed to prepare scoped run:", err);
+        setIsGenerating(false);
+        setStage("error");
+        setError(message);
+        return {
+          success: false,
+          outcome: "failed",
+          workoutsCreated: 0,
+          error: message,
+        };
+      }
 
-          // Prepare periodization
-          const periodizationData = {
-            program_type: formData.programType,
-          };
+      // Every slot in the range already has a completed workout
+      if (plan.targetSlots.length === 0) {
+        setIsGenerating(false);
+        setStage("complete");
+        return { success: true, outcome: "complete", workoutsCreated: 0 };
+      }
 
-          // Build request body matching web app
-          const requestBody = {
-            ...(programId ? { programId } : {}),
-            name: formData.name,
-            description: formData.description,
-            goal: formData.goal,
-            difficulty: formData.difficulty,
-            focus_area: formData.focusArea,
-            personalization: formData.personalization,
-            referenceInput: formData.referenceInput || "",
-            trainingMethodology: formData.trainingMethodology,
-            duration_weeks: parseInt(String(formData.numberOfWeeks), 10),
-            days_per_week: parseInt(String(formData.daysPerWeek), 10),
-            entityId: formData.entityId,
-            gym_details: gymDetails,
-            periodization: periodizationData,
-            calendar_data: {
-              start_date: formData.startDate,
-              end_date: formData.endDate,
-              days_per_week: parseInt(String(formData.daysPerWeek), 10),
-              days_of_week: daysOfWeekNumbers,
-            },
-            session_details: formData.sessionDetails,
-            program_overview: formData.programOverview,
-            workout_format: formData.workoutFormats || [],
-            forceRegenerate: isRegeneration,
-          };
+      const targetDates = plan.targetSlots.map((slot) => slot.date);
+      return startJob(
+        formData,
+        {
+          ...buildRequestBody(programId, formData, false),
+          generation_scope: {
+            mode: "range",
+            start_date: range.startDate,
+            end_date: range.endDate,
+            dates: targetDates,
+            context_workouts: plan.contextWorkouts,
+          },
+        },
+        targetDates.length,
+        targetDates,
+        undefined,
+        plan.replacedWorkouts,
+      );
+    },
+    [programId, startJob],
+  );
 
-          setStage("generating");
-
-          // Calculate expected total
-          const expectedTotal = formData.numberOfWeeks * formData.daysPerWeek;
-          setProgress({ current: 0, total: expectedTotal });
-
-          // Create abort controller with timeout
-          const controller = new AbortController();
-          abortControllerRef.current = controller;
-
-          const timeout = getTimeout(formData.numberOfWeeks);
-          const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-          // Track processed workouts
-          const processedWorkouts = new Set<string>();
-
-          const apiUrl = `${API_BASE}/api/generate-program-anthropic`;
-          console.log("[Generation] Starting API call to:", apiUrl);
-          console.log(
-            "[Generation] Request body:",
-            JSON.stringify(requestBody, null, 2).slice(0, 500),
-          );
-
-          // Start SSE stream
-          await createSSEClientWithPost(apiUrl, requestBody, {
-            headers: {
-              Authorization: `Bearer ${session.access_token}`,
-            },
-            signal: controller.signal,
-            onOpen: () => {
-              setStage("streaming");
-            },
-            onMessage: (event) => {
-              // Parse data as JSON
-              let data;
-              try {
-                data = JSON.parse(event.data);
-              } catch {
-                // Not JSON, ignore
-                return;
-              }
+  /**
+   * Fills only the given slots, leaving existing workouts in place
+   * Used to finish a program after a partial generation.
+   */
+  const generateMissingWorkouts = useCallback(
+    async (
+      formData: ProgramFormData,
+      missingSlots: ProgramSlot[],
+    ): Promise<GenerationResult> => {
+      const targetDates = missingSlots.map((slot) => slot.date);
+      return startJob(
+        formData,
+        {
+          ...buildRequestBody(programId, formData, false),
+          generation_scope: { mode: "slots", dates: targetDates },
+        },
+        missingSlots.length,
+        targetDates,
+      );
+    },
+    [programId, startJob],
+  );
 
-              // Handle different event types
-              if (data.type === "status") {
-                // Status update
-                console.log("[Generation]", data.message);
-              } else if (data.type === "workout_chunk") {
-                // New workout streamed
-                const workout = data.workout;
-                if (workout && !processedWorkouts.has(workout.id)) {
-                  processedWorkouts.add(workout.id);
-                  addStreamingWorkout(workout);
-                  setProgress((prev) => ({
-                    ...prev,
-                    current: processedWorkouts.size,
-                  }));
-                }
-              } else if (data.type === "program_metadata") {
-                // Program metadata update
-                console.log("[Generation] Program metadata received");
-              } else if (data.type === "warning") {
-                console.warn("[Generation]", data.message);
-              } else if (data.type === "error") {
-                throw new Error(data.message || "Generation failed");
-              } else if (data.type === "complete") {
-                console.log("[Generation] Complete");
-              }
-            },
-            onError: (err) => {
-              clearTimeout(timeoutId);
-              throw err;
-            },
-            onClose: () => {
-              clearTimeout(timeoutId);
-            },
-          });
+  /**
+   * Picks up a persisted job after the app returns to the foreground or is
+   * relaunched: reconciles it against program_workouts, then finishes it,
+   * leaves a live stream to carry on, or resumes the stream from its last
+   * event id.
+   */
+  const recoverJob = useCallback(async () => {
+    const job = await loadGenerationJob(programId);
+    if (!job) return;
 
-          // Success!
-          setStage("complete");
-          if (timerRef.current) {
-            clearInterval(timerRef.current);
-          }
-          setIsGenerating(false);
+    const isLive = activeRuns.has(programId);
+    let reconciled: ReconciledJob;
+    try {
+      reconciled = await reconcileGenerationJob(job);
+    } catch (err) {
+      console.error("[Generation] Reconciliation failed:", err);
+      return;
+    }
 
-          return {
-            success: true,
-            workoutsCreated: processedWorkouts.size,
-          };
-        } catch (err) {
-          lastError = err instanceof Error ? err : new Error("Unknown error");
-
-          // Check if it's a retryable error
-          if (
-            lastError.message.includes("503") ||
-            lastError.message.includes("504") ||
-            lastError.message.includes("Network")
-          ) {
-            retryCount++;
-            if (retryCount <= MAX_RETRIES) {
-              continue; // Retry
-            }
-          }
+    if (isLive) {
+      mergeStreamingWorkouts(reconciled.workouts, job.expectedTotal);
+      if (reconciled.isComplete) {
+        // Everything is saved; stop waiting on a stream that may be dead
+        completedExternallyRef.current = true;
+        abortControllerRef.current?.abort();
+      }
+      // Otherwise the live stream reconnects on its own
+      return;
+    }
 
-          // Non-retryable error or max retries exceeded
-          break;
-        }
+    // No stream in this JS context: the app was restarted mid-run
+    clearStreamingWorkouts();
+    mergeStreamingWorkouts(reconciled.workouts, job.expectedTotal);
+
+    if (reconciled.isComplete) {
+      await settleReplacedWorkouts(job, job.targetDates ?? []);
+      await clearGenerationJob(programId);
+      if (job.draft) {
+        setDraft(toGenerationDraft(programId, job.draft));
+        setStage("review");
+        return;
       }
+      setStage("complete");
+      return;
+    }
 
-      // Failed after retries
+    if (!job.lastEventId || isGenerationJobExpired(job)) {
+      const coverage = await loadJobCoverage(job);
+      await settleReplacedWorkouts(
+        job,
+        coverage?.filled.map((slot) => slot.date) ?? [],
+      );
+      await clearGenerationJob(programId);
+      if (job.draft && job.draft.workouts.length > 0) {
+        setDraft(toGenerationDraft(programId, job.draft));
+      }
       setStage("error");
-      setError(lastError?.message || "Generation failed");
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
+      setError(
+        `Generation was interrupted after ${reconciled.workouts.length} of ${job.expectedTotal} workouts`,
+      );
+      if (coverage && coverage.filled.length > 0) {
+        setPartial(coverage);
       }
-      setIsGenerating(false);
+      return;
+    }
 
-      return {
-        success: false,
-        workoutsCreated: 0,
-        error: lastError?.message,
-      };
-    },
-    [programId, addStreamingWorkout, clearStreamingWorkouts],
-  );
+    setIsGenerating(true);
+    setError(null);
+    setStage("resuming");
+    startTimer(Date.parse(job.startedAt));
+    job.requestBody = await withPrivateContext(job);
+    await runJob(job, false);
+  }, [
+    programId,
+    clearStreamingWorkouts,
+    mergeStreamingWorkouts,
+    runJob,
+    startTimer,
+  ]);
+
+  // Recover on mount and whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!programId) return;
+
+    recoverJob();
+
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") {
+        recoverJob();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [programId, recoverJob]);
 
   const cancel = useCallback(() => {
+    cancelledRef.current = true;
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
+    stopTimer();
+    clearGenerationJob(programId);
     setIsGenerating(false);
     setStage("idle");
     setError("Generation cancelled");
+  }, [programId, stopTimer]);
+
+  // Draft review actions
+  const updateDraftWorkout = useCallback(
+    (
+      workoutId: string,
+      changes: Partial<Pick<DraftWorkout, "title" | "body">>,
+    ) => {
+      setDraft((prev) =>
+        mapDraftWorkouts(prev, (workout) =>
+          workout.id === workoutId ? { ...workout, ...changes } : workout,
+        ),
+      );
+    },
+    [],
+  );
+
+  const setDraftWorkoutRejected = useCallback(
+    (workoutId: string, rejected: boolean) => {
+      setDraft((prev) =>
+        mapDraftWorkouts(prev, (workout) =>
+          workout.id === workoutId ? { ...workout, rejected } : workout,
+        ),
+      );
+    },
+    [],
+  );
+
+  const acceptAllDraftWorkouts = useCallback(() => {
+    setDraft((prev) =>
+      mapDraftWorkouts(prev, (workout) => ({ ...workout, rejected: false })),
+    );
   }, []);
 
+  const discardDraft = useCallback(() => {
+    setDraft(null);
+    setError(null);
+    setStage("idle");
+    clearStreamingWorkouts();
+  }, [clearStreamingWorkouts]);
+
+  const commitDraft = useCallback(async (): Promise<DraftCommitResult> => {
+    if (!draft) {
+      return { success: false, workoutsCreated: 0, error: "Nothing to save" };
+    }
+
+    setIsCommittingDraft(true);
+    try {
+      if (draft.replaceExisting) {
+        await recordBaselineVersion(draft.programId);
+      }
+      const workoutsCreated = await commitGenerationDraft(draft);
+      await recordProgramVersion(draft.programId);
+      setDraft(null);
+      setError(null);
+      setStage("complete");
+      return { success: true, workoutsCreated };
+    } catch (err) {
+      console.error("[Generation] Failed to commit draft:", err);
+      const message =
+        err instanceof Error ? err.message : "Failed to save workouts";
+      return { success: false, workoutsCreated: 0, error: message };
+    } finally {
+      setIsCommittingDraft(false);
+    }
+  }, [draft]);
+
   return {
     isGenerating,
     stage,
@@ -349,7 +1133,20 @@ export function useProgramGeneration(programId: string) {
     streamingWorkouts,
     error,
     duration,
+    status,
+    programMetadata,
+    warnings,
+    partial,
+    draft,
+    isCommittingDraft,
     generateProgram,
+    generateRange,
+    generateMissingWorkouts,
     cancel,
+    updateDraftWorkout,
+    setDraftWorkoutRejected,
+    acceptAllDraftWorkouts,
+    discardDraft,
+    commitDraft,
   };
 }
@@ -0,0 +1,76 @@
+import {
+  type QueryClient,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query/queryKeys";
+import {
+  pauseProgram,
+  resumeProgram,
+  shiftProgram,
+} from "@/lib/schedule/programDates";
+
+// Both the program's dates and its workouts' dates change
+function invalidateProgramDates(queryClient: QueryClient, programId: string) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.program(programId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.programWorkouts(programId),
+  });
+  queryClient.invalidateQueries({ queryKey: queryKeys.calendar });
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
+}
+
+export function useShiftProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      programId,
+      fromDate,
+      days,
+    }: {
+      programId: string;
+      fromDate: string;
+      days: number;
+    }) => shiftProgram(programId, fromDate, days),
+    onSettled: (_result, _error, { programId }) => {
+      invalidateProgramDates(queryClient, programId);
+    },
+  });
+}
+
+export function usePauseProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      programId,
+      fromDate,
+    }: {
+      programId: string;
+      fromDate: string;
+    }) => pauseProgram(programId, fromDate),
+    onSuccess: (_result, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.program(programId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+    },
+  });
+}
+
+export function useResumeProgram() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      programId,
+      resumeOn,
+    }: {
+      programId: string;
+      resumeOn: string;
+    }) => resumeProgram(programId, resumeOn),
+    onSettled: (_result, _error, { programId }) => {
+      invalidateProgramDates(queryClient, programId);
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  listProgramVersions,
+  type ProgramVersion,
+  restoreProgramVersion,
+} from "@/lib/generation/programVersions";
+import { queryKeys } from "@/lib/query/queryKeys";
+
+export type { ProgramVersion };
+
+export function useProgramVersions(programId: string) {
+  return useQuery<ProgramVersion[]>({
+    queryKey: ["program-versions", programId],
+    queryFn: () => listProgramVersions(programId),
+    enabled: !!programId,
+  });
+}
+
+export function useRestoreProgramVersion(programId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (version: ProgramVersion) => restoreProgramVersion(version),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["program-versions", programId],
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.program(programId) });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.programWorkouts(programId),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+    },
+  });
+}
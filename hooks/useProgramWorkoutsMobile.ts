@@ -1,4 +1,9 @@
-import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useOutbox } from "@/hooks/useOutbox";
+import { cacheKeys, fetchSnapshot } from "@/lib/offline/cache";
+import { applyPendingMutations } from "@/lib/offline/outbox";
+import { queryKeys } from "@/lib/query/queryKeys";
 import { supabase } from "@/lib/supabase/client";
 
 export type Workout = {
@@ -15,140 +20,70 @@ export type Workout = {
   updated_at: string;
 };
 
-export function useProgramWorkoutsMobile(programId: string) {
-  const [workouts, setWorkouts] = useState<Workout[]>([]);
-  const [referenceWorkouts, setReferenceWorkouts] = useState<Workout[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch all workouts for a program
-  const fetchWorkouts = async () => {
-    if (!programId) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Fetch regular workouts
-      const { data: regularWorkouts, error: workoutsError } = await supabase
-        .from("program_workouts")
-        .select("*")
-        .eq("program_id", programId)
-        .eq("is_reference", false)
-        .order("scheduled_date", { ascending: true });
-
-      if (workoutsError) throw workoutsError;
+// Scheduled workouts first, in date order; unscheduled ones last
+function sortBySchedule(a: Workout, b: Workout) {
+  if (!a.scheduled_date && !b.scheduled_date) return 0;
+  if (!a.scheduled_date) return 1;
+  if (!b.scheduled_date) return -1;
+  return (
+    new Date(a.scheduled_date).getTime() - new Date(b.scheduled_date).getTime()
+  );
+}
 
-      // Fetch reference workouts
-      const { data: refWorkouts, error: refError } = await supabase
-        .from("program_workouts")
-        .select("*")
-        .eq("program_id", programId)
-        .eq("is_reference", true)
-        .order("created_at", { ascending: false });
+async function fetchProgramWorkouts(programId: string): Promise<Workout[]> {
+  // Fetch regular workouts
+  const { data: regularWorkouts, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select("*")
+    .eq("program_id", programId)
+    .eq("is_reference", false)
+    .order("scheduled_date", { ascending: true });
 
-      if (refError) throw refError;
+  if (workoutsError) throw workoutsError;
 
-      setWorkouts((regularWorkouts || []) as Workout[]);
-      setReferenceWorkouts((refWorkouts || []) as Workout[]);
-    } catch (err: any) {
-      console.error("Error fetching workouts:", err);
-      setError(err.message);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Fetch reference workouts
+  const { data: refWorkouts, error: refError } = await supabase
+    .from("program_workouts")
+    .select("*")
+    .eq("program_id", programId)
+    .eq("is_reference", true)
+    .order("created_at", { ascending: false });
 
-  // Real-time subscription
-  useEffect(() => {
-    if (!programId) return;
+  if (refError) throw refError;
 
-    // Initial fetch
-    fetchWorkouts();
+  return [...(regularWorkouts || []), ...(refWorkouts || [])] as Workout[];
+}
 
-    // Subscribe to changes
-    const subscription = supabase
-      .channel(`program_workouts:${programId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "program_workouts",
-          filter: `program_id=eq.${programId}`,
-        },
-        (payload) => {
-          if (payload.eventType === "INSERT") {
-            const newWorkout = payload.new as Workout;
-            if (newWorkout.is_reference) {
-              setReferenceWorkouts((prev) => {
-                if (prev.some((w) => w.id === newWorkout.id)) {
-                  return prev;
-                }
-                return [...prev, newWorkout];
-              });
-            } else {
-              setWorkouts((prev) => {
-                if (prev.some((w) => w.id === newWorkout.id)) {
-                  return prev;
-                }
-                return [...prev, newWorkout].sort((a, b) => {
-                  if (!a.scheduled_date && !b.scheduled_date) return 0;
-                  if (!a.scheduled_date) return 1;
-                  if (!b.scheduled_date) return -1;
-                  return (
-                    new Date(a.scheduled_date).getTime() -
-                    new Date(b.scheduled_date).getTime()
-                  );
-                });
-              });
-            }
-          } else if (payload.eventType === "UPDATE") {
-            const updatedWorkout = payload.new as Workout;
-            if (updatedWorkout.is_reference) {
-              setReferenceWorkouts((prev) =>
-                prev.map((w) =>
-                  w.id === updatedWorkout.id ? updatedWorkout : w,
-                ),
-              );
-            } else {
-              setWorkouts((prev) =>
-                prev
-                  .map((w) => (w.id === updatedWorkout.id ? updatedWorkout : w))
-                  .sort((a, b) => {
-                    if (!a.scheduled_date && !b.scheduled_date) return 0;
-                    if (!a.scheduled_date) return 1;
-                    if (!b.scheduled_date) return -1;
-                    return (
-                      new Date(a.scheduled_date).getTime() -
-                      new Date(b.scheduled_date).getTime()
-                    );
-                  }),
-              );
-            }
-          } else if (payload.eventType === "DELETE") {
-            setWorkouts((prev) => prev.filter((w) => w.id !== payload.old.id));
-            setReferenceWorkouts((prev) =>
-              prev.filter((w) => w.id !== payload.old.id),
-            );
-          }
-        },
-      )
-      .subscribe();
+export function useProgramWorkoutsMobile(programId: string) {
+  const { pending } = useOutbox();
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: queryKeys.programWorkouts(programId),
+    // Falls back to the cached copy offline
+    queryFn: () =>
+      fetchSnapshot(cacheKeys.programWorkouts(programId), () =>
+        fetchProgramWorkouts(programId),
+      ),
+    enabled: !!programId,
+  });
 
-    return () => {
-      subscription.unsubscribe();
+  // Changes still waiting in the outbox are shown on top of server rows
+  const { workouts, referenceWorkouts } = useMemo(() => {
+    const visible = applyPendingMutations(data?.value ?? [], pending);
+    return {
+      workouts: visible.filter((w) => !w.is_reference).sort(sortBySchedule),
+      referenceWorkouts: visible
+        .filter((w) => w.is_reference)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
     };
-  }, [programId]);
+  }, [data, pending]);
 
   return {
     workouts,
     referenceWorkouts,
-    loading,
-    error,
-    refetch: fetchWorkouts,
+    loading: isLoading,
+    error: error ? error.message : null,
+    // Set when showing the offline cache; when it was last refreshed
+    cachedAt: data?.cachedAt ?? null,
+    refetch,
   };
 }
@@ -1,6 +1,9 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/lib/supabase/client";
 import { apiClient } from "@/lib/api/client";
+import { redact } from "@/lib/debug/redact";
+import { cacheKeys, fetchWithCache } from "@/lib/offline/cache";
+import { queryKeys } from "@/lib/query/queryKeys";
+import { supabase } from "@/lib/supabase/client";
 import type { ProgramInput } from "@/lib/validations/program.schema";
 
 // JSON field types for program data
@@ -11,6 +14,8 @@ export type CalendarData = {
   days_per_week?: number;
   days_of_week?: number[];
   days_of_week_names?: string[];
+  // Set while the program is paused (see lib/schedule/programDates)
+  paused_from?: string;
 };
 
 export type GymDetails = {
@@ -54,60 +59,70 @@ export type Program = {
 
 export function usePrograms() {
   return useQuery<Program[]>({
-    queryKey: ["programs"],
+    queryKey: queryKeys.programs,
     queryFn: async () => {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      // Falls back to the cached list offline
+      const { data } = await fetchWithCache(cacheKeys.programs, fetchPrograms);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
 
-      if (!user) {
-        throw new Error("Not authenticated");
-      }
+export async function fetchPrograms(): Promise<Program[]> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
 
-      // First get user's entities (clients/classes)
-      const { data: entities, error: entitiesError } = await supabase
-        .from("entities")
-        .select("id")
-        .eq("user_id", user.id)
-        .is("deleted_at", null);
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
 
-      if (entitiesError) throw entitiesError;
+  // First get user's entities (clients/classes)
+  const { data: entities, error: entitiesError } = await supabase
+    .from("entities")
+    .select("id")
+    .eq("user_id", user.id)
+    .is("deleted_at", null);
 
-      if (!entities || entities.length === 0) {
-        return [];
-      }
+  if (entitiesError) throw entitiesError;
 
-      const entityIds = entities.map((e) => e.id);
+  if (!entities || entities.length === 0) {
+    return [];
+  }
 
-      // Then get programs for those entities
-      const { data, error } = await supabase
-        .from("programs")
-        .select("*")
-        .in("entity_id", entityIds)
-        .is("deleted_at", null)
-        .order("created_at", { ascending: false });
+  const entityIds = entities.map((e) => e.id);
 
-      if (error) throw error;
+  // Then get programs for those entities
+  const { data, error } = await supabase
+    .from("programs")
+    .select("*")
+    .in("entity_id", entityIds)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false });
 
-      return data as Program[];
-    },
-    staleTime: 5 * 60 * 1000, // 5 minutes
-  });
+  if (error) throw error;
+
+  return data as Program[];
 }
 
 export function useProgram(id: string) {
   return useQuery<Program>({
-    queryKey: ["program", id],
+    queryKey: queryKeys.program(id),
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("programs")
-        .select("*")
-        .eq("id", id)
-        .single();
-
-      if (error) throw error;
-
-      return data as Program;
+      // Falls back to the cached copy offline
+      const { data } = await fetchWithCache(cacheKeys.program(id), async () => {
+        const { data, error } = await supabase
+          .from("programs")
+          .select("*")
+          .eq("id", id)
+          .single();
+
+        if (error) throw error;
+
+        return data as Program;
+      });
+      return data;
     },
     enabled: !!id,
   });
@@ -120,7 +135,7 @@ export function useCreateProgram() {
     mutationFn: async (data: ProgramInput) => {
       console.log(
         "[useCreateProgram] Starting program creation with data:",
-        data,
+        redact(data),
       );
 
       const {
@@ -178,7 +193,7 @@ export function useCreateProgram() {
 
       console.log(
         "[useCreateProgram] Inserting program into Supabase:",
-        programData,
+        redact(programData),
       );
 
       const { data: program, error } = await supabase
@@ -192,12 +207,16 @@ export function useCreateProgram() {
         throw error;
       }
 
-      console.log("[useCreateProgram] Program created successfully:", program);
+      console.log(
+        "[useCreateProgram] Program created successfully:",
+        redact(program),
+      );
 
       return program;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["programs"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
     },
   });
 }
@@ -219,8 +238,8 @@ export function useUpdateProgram(id: string) {
       return program;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["programs"] });
-      queryClient.invalidateQueries({ queryKey: ["program", id] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+      queryClient.invalidateQueries({ queryKey: queryKeys.program(id) });
     },
   });
 }
@@ -235,7 +254,8 @@ export function useDeleteProgram() {
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["programs"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
     },
   });
 }
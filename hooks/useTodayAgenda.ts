@@ -0,0 +1,86 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { runOrQueueMutation, type WorkoutChanges } from "@/lib/offline/outbox";
+import { upsertWorkoutInCache } from "@/lib/query/cachePatches";
+import { buildAgenda } from "@/lib/schedule/agenda";
+import type { CalendarWorkout } from "@/lib/schedule/calendar";
+import { useCalendar } from "./useCalendar";
+import { useClients } from "./useClients";
+import { useTodayKey } from "./useTodayKey";
+
+// Today's workouts across every client and class, plus the week ahead.
+// Shares its data with the calendar, so completions and notes made here
+// show up there (and on the dashboard) straight away.
+export function useTodayAgenda() {
+  const queryClient = useQueryClient();
+  const { programs, workouts, isLoading, error, refetch } = useCalendar();
+  const { data: clients } = useClients();
+  const today = useTodayKey();
+
+  const agenda = useMemo(
+    () =>
+      buildAgenda(
+        workouts,
+        programs,
+        new Map((clients ?? []).map((client) => [client.id, client.name])),
+        today,
+      ),
+    [workouts, programs, clients, today],
+  );
+
+  // Optimistic, queued while offline, rolled back on failure
+  const updateWorkout = async (
+    workout: CalendarWorkout,
+    kind: "complete" | "edit",
+    changes: WorkoutChanges,
+    fallbackError: string,
+  ): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
+    upsertWorkoutInCache(queryClient, {
+      ...workout,
+      ...changes,
+      updated_at: new Date().toISOString(),
+    });
+
+    try {
+      const { queued } = await runOrQueueMutation({
+        kind,
+        workoutId: workout.id,
+        programId: workout.program_id,
+        changes,
+      });
+      return { success: true, queued };
+    } catch (err: unknown) {
+      upsertWorkoutInCache(queryClient, workout);
+      const errorMessage = err instanceof Error ? err.message : fallbackError;
+      console.error("[Today] Error updating workout:", err);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const toggleComplete = (workout: CalendarWorkout) => {
+    const completed = !workout.completed;
+    return updateWorkout(
+      workout,
+      "complete",
+      {
+        completed,
+        completed_at: completed ? new Date().toISOString() : null,
+      },
+      "Failed to update workout",
+    );
+  };
+
+  const saveNotes = (workout: CalendarWorkout, notes: string) =>
+    updateWorkout(workout, "edit", { notes }, "Failed to save notes");
+
+  return {
+    today,
+    todayByEntity: agenda.today,
+    upcoming: agenda.upcoming,
+    isLoading,
+    error,
+    refetch,
+    toggleComplete,
+    saveNotes,
+  };
+}
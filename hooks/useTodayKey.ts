@@ -0,0 +1,31 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
+import { localDateKey } from "@/lib/schedule/calendar";
+
+// Today's local date key, kept current while the app stays open: rechecked
+// when the screen regains focus, when the app returns to the foreground and
+// at local midnight
+export function useTodayKey(): string {
+  const [today, setToday] = useState(() => localDateKey());
+  const refresh = useCallback(() => setToday(localDateKey()), []);
+
+  useFocusEffect(refresh);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") refresh();
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  // Local midnight at the end of `today`
+  useEffect(() => {
+    const [year, month, day] = today.split("-").map(Number);
+    const midnight = new Date(year, month - 1, day + 1);
+    const timeoutId = setTimeout(refresh, midnight.getTime() - Date.now());
+    return () => clearTimeout(timeoutId);
+  }, [today, refresh]);
+
+  return today;
+}
@@ -1,4 +1,23 @@
-import { useCallback, useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useOutbox } from "@/hooks/useOutbox";
+import { apiClient } from "@/lib/api/client";
+import type { ClientRestriction } from "@/lib/clients/restrictions";
+import { findCachedWorkout, type OfflineSnapshot } from "@/lib/offline/cache";
+import {
+  isNetworkError,
+  markOffline,
+  markOnline,
+} from "@/lib/offline/connectivity";
+import {
+  applyPendingMutations,
+  runOrQueueMutation,
+} from "@/lib/offline/outbox";
+import {
+  removeWorkoutFromCache,
+  upsertWorkoutInCache,
+} from "@/lib/query/cachePatches";
+import { queryKeys } from "@/lib/query/queryKeys";
 import { supabase } from "@/lib/supabase/client";
 import type { Workout } from "./useProgramWorkoutsMobile";
 
@@ -14,74 +33,54 @@ type EnhancePayload = {
   methodology: string;
   gymEquipment: string[];
   injuries?: string[];
+  restrictions?: ClientRestriction[];
 };
 
-export function useWorkout(workoutId: string) {
-  const [workout, setWorkout] = useState<Workout | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch workout
-  const fetchWorkout = useCallback(async () => {
-    if (!workoutId) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error: fetchError } = await supabase
-        .from("program_workouts")
-        .select("*")
-        .eq("id", workoutId)
-        .single();
-
-      if (fetchError) throw fetchError;
-      setWorkout(data as Workout);
-    } catch (err: unknown) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to fetch workout";
-      console.error("Error fetching workout:", err);
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+async function fetchWorkout(
+  workoutId: string,
+): Promise<OfflineSnapshot<Workout | null>> {
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select("*")
+    .eq("id", workoutId)
+    .single();
+
+  if (error) {
+    // Offline: fall back to the copy cached with its program
+    if (isNetworkError(error)) {
+      markOffline();
+      const cached = await findCachedWorkout<Workout>(workoutId);
+      if (cached) return { value: cached.data, cachedAt: cached.cachedAt };
     }
-  }, [workoutId]);
-
-  // Real-time subscription
-  useEffect(() => {
-    if (!workoutId) return;
-
-    fetchWorkout();
-
-    const subscription = supabase
-      .channel(`workout:${workoutId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "program_workouts",
-          filter: `id=eq.${workoutId}`,
-        },
-        (payload) => {
-          if (payload.eventType === "UPDATE") {
-            setWorkout(payload.new as Workout);
-          } else if (payload.eventType === "DELETE") {
-            setWorkout(null);
-          }
-        },
-      )
-      .subscribe();
+    throw error;
+  }
 
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [workoutId, fetchWorkout]);
+  markOnline();
+  return { value: data as Workout, cachedAt: null };
+}
 
-  // Update workout
+export function useWorkout(workoutId: string) {
+  const queryClient = useQueryClient();
+  const { pending } = useOutbox();
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: queryKeys.workout(workoutId),
+    queryFn: () => fetchWorkout(workoutId),
+    enabled: !!workoutId,
+  });
+
+  // Changes still waiting in the outbox are shown on top
+  const workout = useMemo(
+    () =>
+      data?.value
+        ? (applyPendingMutations([data.value], pending)[0] ?? null)
+        : null,
+    [data, pending],
+  );
+
+  // Patches the workout everywhere it's cached (program list, dashboard)
+  const setWorkout = (next: Workout) => upsertWorkoutInCache(queryClient, next);
+
+  // Update workout (queued while offline)
   const updateWorkout = async (
     updates: Partial<Pick<Workout, "title" | "body" | "tags">>,
   ) => {
@@ -100,16 +99,13 @@ export function useWorkout(workoutId: string) {
     }
 
     try {
-      const { error: updateError } = await supabase
-        .from("program_workouts")
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", workoutId);
-
-      if (updateError) throw updateError;
-      return { success: true };
+      const { queued } = await runOrQueueMutation({
+        kind: "edit",
+        workoutId,
+        programId: workout?.program_id,
+        changes: updates,
+      });
+      return { success: true, queued };
     } catch (err: unknown) {
       // Rollback on error
       if (previousWorkout) {
@@ -122,7 +118,7 @@ export function useWorkout(workoutId: string) {
     }
   };
 
-  // Toggle completion status
+  // Toggle completion status (queued while offline)
   const toggleComplete = async () => {
     if (!workout) return { success: false, error: "No workout loaded" };
 
@@ -141,17 +137,16 @@ export function useWorkout(workoutId: string) {
     });
 
     try {
-      const { error: updateError } = await supabase
-        .from("program_workouts")
-        .update({
+      const { queued } = await runOrQueueMutation({
+        kind: "complete",
+        workoutId,
+        programId: workout.program_id,
+        changes: {
           completed: newCompleted,
           completed_at: newCompletedAt || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", workoutId);
-
-      if (updateError) throw updateError;
-      return { success: true, completed: newCompleted };
+        },
+      });
+      return { success: true, completed: newCompleted, queued };
     } catch (err: unknown) {
       // Rollback on error
       setWorkout(previousWorkout);
@@ -162,18 +157,19 @@ export function useWorkout(workoutId: string) {
     }
   };
 
-  // Delete workout
+  // Delete workout (queued while offline)
   const deleteWorkout = async () => {
     if (!workoutId) return { success: false, error: "No workout ID" };
 
     try {
-      const { error: deleteError } = await supabase
-        .from("program_workouts")
-        .delete()
-        .eq("id", workoutId);
-
-      if (deleteError) throw deleteError;
-      return { success: true };
+      const { queued } = await runOrQueueMutation({
+        kind: "delete",
+        workoutId,
+        programId: workout?.program_id,
+      });
+      // Queued deletes are hidden by the outbox overlay until they replay
+      if (!queued) removeWorkoutFromCache(queryClient, workoutId);
+      return { success: true, queued };
     } catch (err: unknown) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to delete workout";
@@ -191,37 +187,10 @@ export function useWorkout(workoutId: string) {
     error?: string;
   }> => {
     try {
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-
-      if (!session?.access_token) {
-        return { success: false, error: "Not authenticated" };
-      }
-
-      const apiUrl = process.env.EXPO_PUBLIC_API_URL;
-      if (!apiUrl) {
-        return { success: false, error: "API URL not configured" };
-      }
-
-      const response = await fetch(`${apiUrl}/api/enhance-workout`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          success: false,
-          error: errorData.error || "Failed to enhance workout",
-        };
-      }
-
-      const data = await response.json();
+      const data = await apiClient.post<{ enhancedWorkout: EnhancedWorkout }>(
+        "/api/enhance-workout",
+        payload,
+      );
       return { success: true, enhanced: data.enhancedWorkout };
     } catch (err: unknown) {
       const errorMessage =
@@ -241,9 +210,11 @@ export function useWorkout(workoutId: string) {
 
   return {
     workout,
-    loading,
-    error,
-    refetch: fetchWorkout,
+    loading: isLoading,
+    error: error ? error.message : null,
+    // Set when showing the offline cache; when it was last refreshed
+    cachedAt: data?.cachedAt ?? null,
+    refetch,
     updateWorkout,
     toggleComplete,
     deleteWorkout,
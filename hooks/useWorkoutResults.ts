@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query/queryKeys";
+import {
+  deleteWorkoutResult,
+  listWorkoutResults,
+  saveWorkoutResult,
+  type WorkoutResult,
+  type WorkoutResultInput,
+} from "@/lib/workouts/workoutResults";
+
+export type { WorkoutResult };
+
+export function useWorkoutResults(workoutId: string) {
+  return useQuery<WorkoutResult[]>({
+    queryKey: queryKeys.workoutResults(workoutId),
+    queryFn: () => listWorkoutResults(workoutId),
+    enabled: !!workoutId,
+  });
+}
+
+export function useSaveWorkoutResult(workoutId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: WorkoutResultInput) => saveWorkoutResult(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.workoutResults(workoutId),
+      });
+    },
+  });
+}
+
+export function useDeleteWorkoutResult(workoutId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (resultId: string) => deleteWorkoutResult(resultId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.workoutResults(workoutId),
+      });
+    },
+  });
+}
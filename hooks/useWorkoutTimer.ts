@@ -0,0 +1,178 @@
+import {
+  type AudioPlayer,
+  setAudioModeAsync,
+  useAudioPlayer,
+} from "expo-audio";
+import * as Haptics from "expo-haptics";
+import { useEffect, useRef, useState } from "react";
+import { type TimerConfig, timerSnapshot } from "@/lib/workouts/workoutTimer";
+
+export type TimerStatus = "idle" | "running" | "paused" | "finished";
+
+const TICK_MS = 100;
+
+// Cues: a short beep and tap for the last seconds of a phase, a longer,
+// higher beep and a heavy buzz when a phase or round changes, and the same
+// beep with a success buzz at the end
+const TICK_SOUND = require("@/assets/sounds/timer-tick.wav");
+const PHASE_SOUND = require("@/assets/sounds/timer-phase.wav");
+const TICK_SECONDS = 3;
+
+type Cue = "tick" | "phase" | "finish";
+
+function playCue(cue: Cue, players: { tick: AudioPlayer; phase: AudioPlayer }) {
+  const player = cue === "tick" ? players.tick : players.phase;
+  player.seekTo(0);
+  player.play();
+
+  if (cue === "tick") {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  } else if (cue === "phase") {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+  } else {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }
+}
+
+export function useWorkoutTimer(config: TimerConfig) {
+  const [status, setStatus] = useState<TimerStatus>("idle");
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // AMRAP rounds tapped in by the athlete
+  const [rounds, setRounds] = useState(0);
+  // For Time splits, as work time elapsed at each tap
+  const [splits, setSplits] = useState<number[]>([]);
+
+  // Wall-clock anchor, so ticks that arrive late don't drift the clock
+  const anchorRef = useRef({ startedAt: 0, accumulatedMs: 0 });
+  const lastPhaseRef = useRef("");
+  const lastTickRef = useRef("");
+  const tickPlayer = useAudioPlayer(TICK_SOUND);
+  const phasePlayer = useAudioPlayer(PHASE_SOUND);
+
+  // Beep over the ringer switch, and over (not instead of) the gym's music
+  useEffect(() => {
+    setAudioModeAsync({
+      playsInSilentMode: true,
+      interruptionMode: "mixWithOthers",
+      interruptionModeAndroid: "duckOthers",
+    }).catch((err) => console.error("[Timer] Failed to set audio mode:", err));
+  }, []);
+
+  useEffect(() => {
+    if (status !== "running") return;
+
+    const interval = setInterval(() => {
+      const { startedAt, accumulatedMs } = anchorRef.current;
+      setElapsedMs(accumulatedMs + Date.now() - startedAt);
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const snapshot = timerSnapshot(config, elapsedMs);
+  const secondsLeft =
+    snapshot.remainingMs === null
+      ? null
+      : Math.ceil(snapshot.remainingMs / 1000);
+
+  useEffect(() => {
+    if (status !== "running") return;
+    const players = { tick: tickPlayer, phase: phasePlayer };
+
+    if (snapshot.phase === "done") {
+      playCue("finish", players);
+      setStatus("finished");
+      return;
+    }
+
+    const phaseKey = `${snapshot.phase}-${snapshot.round}`;
+    if (lastPhaseRef.current !== phaseKey) {
+      // Skip the cue for the countdown the athlete just started
+      if (lastPhaseRef.current) playCue("phase", players);
+      lastPhaseRef.current = phaseKey;
+      return;
+    }
+
+    const tickKey = `${phaseKey}-${secondsLeft}`;
+    if (
+      secondsLeft !== null &&
+      secondsLeft <= TICK_SECONDS &&
+      lastTickRef.current !== tickKey
+    ) {
+      playCue("tick", players);
+      lastTickRef.current = tickKey;
+    }
+  }, [
+    status,
+    snapshot.phase,
+    snapshot.round,
+    secondsLeft,
+    tickPlayer,
+    phasePlayer,
+  ]);
+
+  const start = () => {
+    anchorRef.current = { startedAt: Date.now(), accumulatedMs: 0 };
+    lastPhaseRef.current = "";
+    lastTickRef.current = "";
+    setElapsedMs(0);
+    setRounds(0);
+    setSplits([]);
+    setStatus("running");
+  };
+
+  const pause = () => {
+    if (status !== "running") return;
+    const { startedAt, accumulatedMs } = anchorRef.current;
+    const elapsed = accumulatedMs + Date.now() - startedAt;
+    anchorRef.current = { startedAt: 0, accumulatedMs: elapsed };
+    setElapsedMs(elapsed);
+    setStatus("paused");
+  };
+
+  const resume = () => {
+    if (status !== "paused") return;
+    anchorRef.current.startedAt = Date.now();
+    setStatus("running");
+  };
+
+  // Stops the clock where it is, e.g. when a For Time workout is done
+  const finish = () => {
+    pause();
+    setStatus("finished");
+  };
+
+  const reset = () => {
+    anchorRef.current = { startedAt: 0, accumulatedMs: 0 };
+    lastPhaseRef.current = "";
+    lastTickRef.current = "";
+    setElapsedMs(0);
+    setRounds(0);
+    setSplits([]);
+    setStatus("idle");
+  };
+
+  const addRound = () => {
+    setRounds((count) => count + 1);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const captureSplit = () => {
+    setSplits((current) => [...current, snapshot.workElapsedMs]);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  return {
+    status,
+    snapshot,
+    rounds,
+    setRounds,
+    splits,
+    start,
+    pause,
+    resume,
+    finish,
+    reset,
+    addRound,
+    captureSplit,
+  };
+}
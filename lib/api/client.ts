@@ -1,111 +1,234 @@
+import {
+  ApiError,
+  apiErrorFromResponse,
+  isApiError,
+  toApiError,
+} from "@/lib/api/errors";
+import {
+  createResumableSSEClientWithPost,
+  type ResumableSSEClientOptions,
+} from "@/lib/api/sseClient";
+import { logNetworkEvent } from "@/lib/debug/networkLog";
+import { redactBody } from "@/lib/debug/redact";
+import { isDemoMode } from "@/lib/demo/demoMode";
+import { mockApiRequest } from "@/lib/demo/mockServer";
 import { supabase } from "@/lib/supabase/client";
 
 const API_BASE = process.env.EXPO_PUBLIC_API_URL || "https://halteres.ai";
 
-export class ApiClient {
-  private async getAuthHeader(): Promise<HeadersInit> {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
 
-    if (!session?.access_token) {
-      throw new Error("No authentication token");
-    }
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
-    return {
-      Authorization: `Bearer ${session.access_token}`,
-      "Content-Type": "application/json",
-    };
-  }
+export type RequestOptions = {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // POSTs are only retried when the endpoint is safe to call twice
+  idempotent?: boolean;
+};
 
-  async get<T>(endpoint: string): Promise<T> {
-    const headers = await this.getAuthHeader();
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      method: "GET",
-      headers,
-    });
+export type StreamOptions = Omit<ResumableSSEClientOptions, "headers">;
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API Error: ${response.statusText} - ${error}`);
-    }
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-    return response.json();
-  }
+/**
+ * Client for the halteres.ai API
+ * Every call is authenticated with the Supabase session, refreshing it once
+ * on a 401. Failures are thrown as ApiError; idempotent requests are retried
+ * with exponential backoff on network, timeout and 5xx errors.
+ */
+export class ApiClient {
+  private async getAccessToken(refresh = false): Promise<string> {
+    const { data, error } = refresh
+      ? await supabase.auth.refreshSession()
+      : await supabase.auth.getSession();
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
-    const headers = await this.getAuthHeader();
+    if (error || !data.session?.access_token) {
+      throw new ApiError("auth", "No authentication token");
+    }
 
-    console.log(`[ApiClient] POST ${API_BASE}${endpoint}`);
-    console.log(
-      `[ApiClient] Request body:`,
-      JSON.stringify(data).substring(0, 200),
-    );
+    return data.session.access_token;
+  }
 
-    // Add timeout
+  private async send<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    accessToken: string,
+    options: RequestOptions,
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    options.signal?.addEventListener("abort", abort);
+
+    const startedAt = Date.now();
+    logNetworkEvent({ kind: "request", method, url: endpoint, detail: data });
 
     try {
       const response = await fetch(`${API_BASE}${endpoint}`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(data),
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: data === undefined ? undefined : JSON.stringify(data),
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      console.log(`[ApiClient] ${method} ${endpoint} → ${response.status}`);
 
-      console.log(`[ApiClient] Response status: ${response.status}`);
-      console.log(`[ApiClient] Response headers:`, response.headers);
+      const text = await response.text();
+      logNetworkEvent({
+        kind: "response",
+        method,
+        url: endpoint,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        detail: redactBody(text),
+      });
 
       if (!response.ok) {
-        const error = await response.text();
-        console.error(`[ApiClient] Error response:`, error);
-        throw new Error(`API Error: ${response.statusText} - ${error}`);
+        throw apiErrorFromResponse(response.status, text);
       }
 
-      const json = await response.json();
-      console.log(`[ApiClient] Response JSON:`, json);
-      return json;
+      return (text ? JSON.parse(text) : null) as T;
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error("Request timed out after 30 seconds");
+      const apiError =
+        controller.signal.aborted && !options.signal?.aborted
+          ? new ApiError(
+              "timeout",
+              `Request timed out after ${Math.round(timeoutMs / 1000)} seconds`,
+            )
+          : toApiError(error);
+
+      // HTTP errors were already logged with their response
+      if (apiError.status === undefined) {
+        logNetworkEvent({
+          kind: "error",
+          method,
+          url: endpoint,
+          durationMs: Date.now() - startedAt,
+          message: `${apiError.kind}: ${apiError.message}`,
+        });
       }
-      throw error;
+      throw apiError;
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", abort);
     }
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    const headers = await this.getAuthHeader();
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      method: "PUT",
-      headers,
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API Error: ${response.statusText} - ${error}`);
+  async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: unknown,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    if (isDemoMode()) {
+      return mockApiRequest<T>(method, endpoint, data);
     }
 
-    return response.json();
+    const canRetry = method !== "POST" || !!options.idempotent;
+    let accessToken = await this.getAccessToken();
+    let refreshed = false;
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.send<T>(method, endpoint, data, accessToken, options);
+      } catch (error) {
+        const apiError = toApiError(error);
+
+        // An expired token is refreshed once, without using up a retry
+        if (apiError.status === 401 && !refreshed) {
+          refreshed = true;
+          console.log("[ApiClient] 401, refreshing session");
+          accessToken = await this.getAccessToken(true);
+          continue;
+        }
+
+        if (
+          !canRetry ||
+          !apiError.retryable ||
+          attempt >= MAX_RETRIES ||
+          options.signal?.aborted
+        ) {
+          console.error(
+            `[ApiClient] ${method} ${endpoint} failed (${apiError.kind}):`,
+            apiError.message,
+          );
+          throw apiError;
+        }
+
+        attempt++;
+        const waitMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        console.log(
+          `[ApiClient] Retrying ${method} ${endpoint} in ${waitMs}ms (attempt ${attempt}/${MAX_RETRIES})`,
+        );
+        await delay(waitMs);
+      }
+    }
+  }
+
+  get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("GET", endpoint, undefined, options);
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    const headers = await this.getAuthHeader();
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      method: "DELETE",
-      headers,
-    });
+  post<T>(
+    endpoint: string,
+    data?: unknown,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.request<T>("POST", endpoint, data, options);
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API Error: ${response.statusText} - ${error}`);
-    }
+  put<T>(
+    endpoint: string,
+    data?: unknown,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.request<T>("PUT", endpoint, data, options);
+  }
+
+  delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("DELETE", endpoint, undefined, options);
+  }
 
-    return response.json();
+  /**
+   * Opens an authenticated, resumable SSE stream to a POST endpoint
+   * A 401 before the stream opens refreshes the session and reconnects once;
+   * every other failure reaches options.onError as an ApiError.
+   */
+  async stream(
+    endpoint: string,
+    body: Record<string, unknown>,
+    options: StreamOptions,
+  ): Promise<void> {
+    let accessToken = await this.getAccessToken();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      let unauthorized = false;
+
+      await createResumableSSEClientWithPost(`${API_BASE}${endpoint}`, body, {
+        ...options,
+        headers: { Authorization: `Bearer ${accessToken}` },
+        onError: (error) => {
+          if (attempt === 0 && isApiError(error) && error.status === 401) {
+            unauthorized = true;
+            return;
+          }
+          options.onError?.(toApiError(error));
+        },
+      });
+
+      if (!unauthorized) return;
+      console.log("[ApiClient] Stream got 401, refreshing session");
+      accessToken = await this.getAccessToken(true);
+    }
   }
 }
 
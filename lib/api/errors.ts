@@ -0,0 +1,95 @@
+// Typed errors for calls to the halteres.ai API
+
+export type ApiErrorKind =
+  | "auth" // missing, expired or rejected session
+  | "validation" // the server rejected the request itself
+  | "quota" // out of generations, or rate limited
+  | "network" // no response from the server
+  | "timeout" // gave up waiting on the server
+  | "server"; // the server failed to handle a valid request
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  /** Whether the same request might succeed if sent again */
+  get retryable(): boolean {
+    return (
+      this.kind === "network" ||
+      this.kind === "timeout" ||
+      (this.kind === "server" && (this.status ?? 500) >= 500)
+    );
+  }
+}
+
+export function isApiError(
+  error: unknown,
+  kind?: ApiErrorKind,
+): error is ApiError {
+  return error instanceof ApiError && (!kind || error.kind === kind);
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 402 || status === 429) return "quota";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "server";
+  return "validation";
+}
+
+const fallbackMessages: Record<ApiErrorKind, string> = {
+  auth: "Your session has expired. Please sign in again.",
+  validation: "The request was invalid",
+  quota: "You have no generations remaining",
+  network: "Unable to reach the server",
+  timeout: "The server took too long to respond",
+  server: "Something went wrong on the server",
+};
+
+// The API reports failures as `{ error }` or `{ message }` JSON bodies
+function messageFromBody(body: string): string | null {
+  if (!body) return null;
+  try {
+    const parsed = JSON.parse(body);
+    const message = parsed?.error ?? parsed?.message;
+    return typeof message === "string" ? message : null;
+  } catch {
+    return body.length <= 200 ? body : null;
+  }
+}
+
+/**
+ * Builds the typed error for a non-2xx response
+ */
+export function apiErrorFromResponse(status: number, body = ""): ApiError {
+  const kind = kindForStatus(status);
+  return new ApiError(
+    kind,
+    messageFromBody(body) ?? fallbackMessages[kind],
+    status,
+  );
+}
+
+/**
+ * Wraps whatever a request threw as an ApiError
+ * fetch rejects with a TypeError when there is no response at all.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof Error && error.name === "AbortError") {
+    return new ApiError("timeout", fallbackMessages.timeout);
+  }
+  return new ApiError(
+    "network",
+    error instanceof Error && error.message
+      ? error.message
+      : fallbackMessages.network,
+  );
+}
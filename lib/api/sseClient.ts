@@ -1,6 +1,12 @@
 // SSE Client for React Native
 // React Native doesn't have EventSource, so we use fetch with ReadableStream
 
+import { ApiError, apiErrorFromResponse, isApiError } from "@/lib/api/errors";
+import { logNetworkEvent } from "@/lib/debug/networkLog";
+import { redactBody } from "@/lib/debug/redact";
+import { isDemoMode } from "@/lib/demo/demoMode";
+import { openMockPostStream } from "@/lib/demo/mockServer";
+
 export type SSEEvent = {
   event?: string;
   data: string;
@@ -18,6 +24,16 @@ export interface SSEClientOptions {
   onClose?: () => void;
   headers?: Record<string, string>;
   signal?: AbortSignal;
+  /** Sent as `Last-Event-ID` so the server can resume after this event */
+  lastEventId?: string;
+}
+
+export interface ResumableSSEClientOptions extends SSEClientOptions {
+  /** Reconnect attempts allowed after the stream has delivered an event id */
+  maxReconnects?: number;
+  /** Delay before reconnecting when the server has not sent a `retry:` field */
+  defaultRetryDelay?: number;
+  onReconnect?: (attempt: number, lastEventId: string) => void;
 }
 
 /**
@@ -43,7 +59,7 @@ export async function createSSEClient(
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      throw apiErrorFromResponse(response.status, await response.text());
     }
 
     if (!response.body) {
@@ -78,7 +94,7 @@ export async function createSSEClient(
         for (const message of messages) {
           if (message.trim()) {
             const event = parseSSEMessage(message);
-            if (event) {
+            if (event?.data) {
               onMessage(event);
             }
           }
@@ -105,6 +121,10 @@ export async function createSSEClient(
 /**
  * Parses a single SSE message into an SSEEvent
  * Format: "event: eventName\ndata: jsonData\nid: messageId\n"
+ *
+ * Messages without data are still returned when they carry an `id:` or
+ * `retry:` field, so callers can track stream state; only events with data
+ * should be dispatched to `onMessage`.
  */
 function parseSSEMessage(message: string): SSEEvent | null {
   const lines = message.split("\n");
@@ -129,110 +149,238 @@ function parseSSEMessage(message: string): SSEEvent | null {
     }
   }
 
-  // Only return if we have data
-  return event.data ? (event as SSEEvent) : null;
+  if (!event.data && event.id === undefined && event.retry === undefined) {
+    return null;
+  }
+
+  return event as SSEEvent;
 }
 
 /**
- * Helper to create SSE client with POST request
- * Useful for endpoints that require request body
- *
- * Note: React Native's fetch doesn't support ReadableStream.body
- * We use a workaround that reads the full response as text and polls for updates
- * For true streaming in RN, consider using react-native-sse or EventSource polyfill
+ * Whether a dropped stream is worth reconnecting to
+ * Network failures and gateway/availability errors are transient; anything
+ * else (auth, validation, quota) will fail the same way again.
  */
-export async function createSSEClientWithPost(
+export function isRetryableSSEError(error: Error): boolean {
+  if (isApiError(error)) {
+    return error.retryable;
+  }
+  return (
+    error.message.includes("502") ||
+    error.message.includes("503") ||
+    error.message.includes("504") ||
+    error.message.includes("Network")
+  );
+}
+
+/**
+ * Opens a single POST stream and resolves when the server closes it
+ * Rejects on HTTP or network errors, and resolves quietly on abort.
+ * Every parsed frame (including id-only and retry-only frames) goes to onFrame
+ * and is recorded in the network log.
+ */
+async function openPostStream(
   url: string,
   body: Record<string, unknown>,
-  options: SSEClientOptions,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onFrame: (event: SSEEvent) => void,
+  onOpen?: () => void,
 ): Promise<void> {
-  const { onMessage, onError, onOpen, onClose, headers = {}, signal } = options;
-
-  console.log("[SSE] Starting POST request to:", url);
+  const startedAt = Date.now();
+  logNetworkEvent({
+    kind: "request",
+    method: "POST",
+    url,
+    message: headers["Last-Event-ID"]
+      ? `Resuming after event ${headers["Last-Event-ID"]}`
+      : undefined,
+    detail: body,
+  });
+
+  const logFrame = (event: SSEEvent) => {
+    logNetworkEvent({
+      kind: "sse",
+      method: "POST",
+      url,
+      eventId: event.id,
+      detail: event.data ? redactBody(event.data) : { retry: event.retry },
+    });
+    onFrame(event);
+  };
 
   try {
+    await (isDemoMode() ? openMockPostStream : openXhrPostStream)(
+      url,
+      body,
+      headers,
+      signal,
+      logFrame,
+      onOpen,
+    );
+    logNetworkEvent({
+      kind: "response",
+      method: "POST",
+      url,
+      message: signal?.aborted ? "Stream aborted" : "Stream closed",
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    logNetworkEvent({
+      kind: "error",
+      method: "POST",
+      url,
+      status: isApiError(error) ? error.status : undefined,
+      message: error instanceof Error ? error.message : "Unknown error",
+      durationMs: Date.now() - startedAt,
+    });
+    throw error;
+  }
+}
+
+function openXhrPostStream(
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onFrame: (event: SSEEvent) => void,
+  onOpen?: () => void,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
     // Use XMLHttpRequest for streaming support in React Native
-    await new Promise<void>((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      let buffer = "";
-      let lastIndex = 0;
-
-      xhr.open("POST", url, true);
-      xhr.setRequestHeader("Accept", "text/event-stream");
-      xhr.setRequestHeader("Content-Type", "application/json");
-      xhr.setRequestHeader("Cache-Control", "no-cache");
-
-      // Add custom headers
-      for (const [key, value] of Object.entries(headers)) {
-        xhr.setRequestHeader(key, value);
-      }
+    const xhr = new XMLHttpRequest();
+    let buffer = "";
+    let lastIndex = 0;
 
-      // Handle abort signal
-      if (signal) {
-        signal.addEventListener("abort", () => {
-          console.log("[SSE] Aborting XHR request");
-          xhr.abort();
-        });
-      }
+    xhr.open("POST", url, true);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader("Cache-Control", "no-cache");
 
-      xhr.onreadystatechange = () => {
-        if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
-          console.log("[SSE] Response status:", xhr.status);
-          if (xhr.status !== 200) {
-            reject(new Error(`HTTP error! status: ${xhr.status}`));
-            return;
-          }
+    // Add custom headers
+    for (const [key, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+
+    // Handle abort signal
+    const handleAbort = () => {
+      console.log("[SSE] Aborting XHR request");
+      xhr.abort();
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        console.log("[SSE] Response status:", xhr.status);
+        if (xhr.status === 200) {
           onOpen?.();
         }
+      }
+
+      // Error responses are JSON, not events; reject once the body is in
+      if (xhr.status !== 0 && xhr.status !== 200) {
+        if (xhr.readyState === XMLHttpRequest.DONE) {
+          signal?.removeEventListener("abort", handleAbort);
+          reject(apiErrorFromResponse(xhr.status, xhr.responseText));
+        }
+        return;
+      }
 
-        if (
-          xhr.readyState === XMLHttpRequest.LOADING ||
-          xhr.readyState === XMLHttpRequest.DONE
-        ) {
-          // Get new data since last check
-          const newData = xhr.responseText.substring(lastIndex);
-          lastIndex = xhr.responseText.length;
-
-          if (newData) {
-            buffer += newData;
-
-            // Process complete SSE messages (separated by double newline)
-            const messages = buffer.split("\n\n");
-            // Keep the last incomplete message in the buffer
-            buffer = messages.pop() || "";
-
-            // Parse and emit each complete message
-            for (const message of messages) {
-              if (message.trim()) {
-                const event = parseSSEMessage(message);
-                if (event) {
-                  onMessage(event);
-                }
+      if (
+        xhr.readyState === XMLHttpRequest.LOADING ||
+        xhr.readyState === XMLHttpRequest.DONE
+      ) {
+        // Get new data since last check
+        const newData = xhr.responseText.substring(lastIndex);
+        lastIndex = xhr.responseText.length;
+
+        if (newData) {
+          buffer += newData;
+
+          // Process complete SSE messages (separated by double newline)
+          const messages = buffer.split("\n\n");
+          // Keep the last incomplete message in the buffer
+          buffer = messages.pop() || "";
+
+          // Parse and emit each complete message
+          for (const message of messages) {
+            if (message.trim()) {
+              const event = parseSSEMessage(message);
+              if (event) {
+                onFrame(event);
               }
             }
           }
         }
+      }
 
-        if (xhr.readyState === XMLHttpRequest.DONE) {
-          console.log("[SSE] Request completed");
-          onClose?.();
-          resolve();
+      if (xhr.readyState === XMLHttpRequest.DONE) {
+        console.log("[SSE] Request completed");
+        signal?.removeEventListener("abort", handleAbort);
+        // status is 0 when the connection dropped before the server finished
+        if (xhr.status === 0 && !signal?.aborted) {
+          reject(new ApiError("network", "Network error"));
+          return;
         }
-      };
+        resolve();
+      }
+    };
+
+    xhr.onerror = () => {
+      console.error("[SSE] XHR error");
+      signal?.removeEventListener("abort", handleAbort);
+      reject(new ApiError("network", "Network error"));
+    };
+
+    xhr.onabort = () => {
+      console.log("[SSE] XHR aborted");
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    };
+
+    xhr.send(JSON.stringify(body));
+  });
+}
 
-      xhr.onerror = () => {
-        console.error("[SSE] XHR error");
-        reject(new Error("Network error"));
-      };
+/**
+ * Helper to create SSE client with POST request
+ * Useful for endpoints that require request body
+ *
+ * Note: React Native's fetch doesn't support ReadableStream.body
+ * We use a workaround that reads the full response as text and polls for updates
+ * For true streaming in RN, consider using react-native-sse or EventSource polyfill
+ */
+export async function createSSEClientWithPost(
+  url: string,
+  body: Record<string, unknown>,
+  options: SSEClientOptions,
+): Promise<void> {
+  const {
+    onMessage,
+    onError,
+    onOpen,
+    onClose,
+    headers = {},
+    signal,
+    lastEventId,
+  } = options;
 
-      xhr.onabort = () => {
-        console.log("[SSE] XHR aborted");
-        onClose?.();
-        resolve();
-      };
+  console.log("[SSE] Starting POST request to:", url);
 
-      xhr.send(JSON.stringify(body));
-    });
+  try {
+    await openPostStream(
+      url,
+      body,
+      lastEventId ? { ...headers, "Last-Event-ID": lastEventId } : headers,
+      signal,
+      (event) => {
+        if (event.data) {
+          onMessage(event);
+        }
+      },
+      onOpen,
+    );
+    onClose?.();
   } catch (error) {
     console.error("[SSE] Caught error:", error);
     if (error instanceof Error) {
@@ -248,3 +396,101 @@ export async function createSSEClientWithPost(
     }
   }
 }
+
+/**
+ * POST SSE client that resumes dropped streams
+ * Tracks the last event id the server sent and, when the connection drops
+ * with a retryable error, reconnects with `Last-Event-ID` after the server's
+ * `retry:` delay (or `defaultRetryDelay`). Streams that fail before any event
+ * id arrives are reported through onError, since there is nothing to resume.
+ */
+export async function createResumableSSEClientWithPost(
+  url: string,
+  body: Record<string, unknown>,
+  options: ResumableSSEClientOptions,
+): Promise<void> {
+  const {
+    onMessage,
+    onError,
+    onOpen,
+    onClose,
+    onReconnect,
+    headers = {},
+    signal,
+    maxReconnects = 5,
+    defaultRetryDelay = 3000,
+  } = options;
+
+  let lastEventId = options.lastEventId;
+  let retryDelay: number | undefined;
+  let reconnects = 0;
+
+  console.log("[SSE] Starting resumable POST request to:", url);
+
+  while (true) {
+    try {
+      await openPostStream(
+        url,
+        body,
+        lastEventId ? { ...headers, "Last-Event-ID": lastEventId } : headers,
+        signal,
+        (event) => {
+          if (event.id !== undefined) {
+            lastEventId = event.id || undefined;
+          }
+          if (event.retry !== undefined) {
+            retryDelay = event.retry;
+          }
+          if (event.data) {
+            onMessage(event);
+          }
+        },
+        onOpen,
+      );
+      onClose?.();
+      return;
+    } catch (error) {
+      const err =
+        error instanceof Error ? error : new Error("Unknown error occurred");
+
+      if (signal?.aborted) {
+        onClose?.();
+        return;
+      }
+
+      if (
+        !lastEventId ||
+        reconnects >= maxReconnects ||
+        !isRetryableSSEError(err)
+      ) {
+        console.error("[SSE] Stream failed:", err);
+        onError?.(err);
+        return;
+      }
+
+      reconnects++;
+      const waitMs = retryDelay ?? defaultRetryDelay;
+      console.log(
+        `[SSE] Connection dropped, resuming after event ${lastEventId} in ${waitMs}ms (attempt ${reconnects}/${maxReconnects})`,
+      );
+      onReconnect?.(reconnects, lastEventId);
+
+      await new Promise<void>((resolve) => {
+        const handleAbort = () => {
+          clearTimeout(timeoutId);
+          resolve();
+        };
+        const timeoutId = setTimeout(() => {
+          signal?.removeEventListener("abort", handleAbort);
+          resolve();
+        }, waitMs);
+        signal?.addEventListener("abort", handleAbort, { once: true });
+      });
+
+      if (signal?.aborted) {
+        onClose?.();
+        return;
+      }
+    }
+  }
+}
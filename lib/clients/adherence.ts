@@ -0,0 +1,76 @@
+import { toDateKey } from "@/lib/generation/programSlots";
+
+// Adherence counts only workouts that were due: scheduled today or earlier.
+// Future workouts can't have been missed yet.
+
+export type AdherenceWorkout = {
+  id: string;
+  program_id: string;
+  title?: string | null;
+  scheduled_date?: string | null;
+  completed?: boolean | null;
+  completed_at?: string | null;
+};
+
+export type Adherence = {
+  total: number;
+  completed: number;
+  due: number;
+  completedDue: number;
+  // completedDue / due, or null when nothing is due yet
+  rate: number | null;
+};
+
+export function computeAdherence(
+  workouts: AdherenceWorkout[],
+  todayKey: string,
+): Adherence {
+  let completed = 0;
+  let due = 0;
+  let completedDue = 0;
+
+  for (const workout of workouts) {
+    const dateKey = toDateKey(workout.scheduled_date);
+    const isDue = !!dateKey && dateKey <= todayKey;
+    if (workout.completed) completed++;
+    if (isDue) {
+      due++;
+      if (workout.completed) completedDue++;
+    }
+  }
+
+  return {
+    total: workouts.length,
+    completed,
+    due,
+    completedDue,
+    rate: due > 0 ? completedDue / due : null,
+  };
+}
+
+/**
+ * The most recent workouts that were due, newest first
+ */
+export function recentWorkouts<T extends AdherenceWorkout>(
+  workouts: T[],
+  todayKey: string,
+  limit: number,
+): T[] {
+  return workouts
+    .filter((workout) => {
+      const dateKey = toDateKey(workout.scheduled_date);
+      return !!dateKey && dateKey <= todayKey;
+    })
+    .sort((a, b) =>
+      (toDateKey(b.scheduled_date) ?? "").localeCompare(
+        toDateKey(a.scheduled_date) ?? "",
+      ),
+    )
+    .slice(0, limit);
+}
+
+export function formatAdherence(adherence: Adherence): string {
+  return adherence.rate === null
+    ? "Nothing due yet"
+    : `${Math.round(adherence.rate * 100)}% (${adherence.completedDue}/${adherence.due} due)`;
+}
@@ -0,0 +1,98 @@
+import { supabase } from "@/lib/supabase/client";
+import {
+  type ScalingTier,
+  scalingRequestFields,
+} from "@/lib/workouts/scalingTiers";
+
+// A class's roster: individual clients linked to a CLASS entity, each with
+// the scaling tier they usually train at. Members stay clients of their own,
+// so profiles and restrictions are shared with any individual programs.
+
+export type ClassMember = {
+  id: string;
+  class_id: string;
+  member_id: string;
+  default_tier: ScalingTier;
+  created_at: string;
+  member: { id: string; name: string } | null;
+};
+
+const MEMBER_SELECT =
+  "*, member:entities!class_members_member_id_fkey(id, name)";
+
+export async function listClassMembers(
+  classId: string,
+): Promise<ClassMember[]> {
+  const { data, error } = await supabase
+    .from("class_members")
+    .select(MEMBER_SELECT)
+    .eq("class_id", classId);
+
+  if (error) throw error;
+  return ((data || []) as ClassMember[]).sort((a, b) =>
+    (a.member?.name ?? "").localeCompare(b.member?.name ?? ""),
+  );
+}
+
+export async function addClassMember(
+  classId: string,
+  memberId: string,
+  defaultTier: ScalingTier,
+): Promise<ClassMember> {
+  const { data, error } = await supabase
+    .from("class_members")
+    .insert({
+      class_id: classId,
+      member_id: memberId,
+      default_tier: defaultTier,
+    })
+    .select(MEMBER_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data as ClassMember;
+}
+
+export async function updateMemberTier(
+  rowId: string,
+  defaultTier: ScalingTier,
+): Promise<void> {
+  const { error } = await supabase
+    .from("class_members")
+    .update({ default_tier: defaultTier })
+    .eq("id", rowId);
+
+  if (error) throw error;
+}
+
+export async function removeClassMember(rowId: string): Promise<void> {
+  const { error } = await supabase
+    .from("class_members")
+    .delete()
+    .eq("id", rowId);
+
+  if (error) throw error;
+}
+
+export const memberName = (member: ClassMember) =>
+  member.member?.name ?? "Member";
+
+/**
+ * Generation fields for a class entity: roster size and the scaling tiers
+ * to write into each workout. Empty for individual clients.
+ */
+export async function loadClassRequestFields(
+  entityId: string,
+): Promise<Record<string, unknown>> {
+  const { data, error } = await supabase
+    .from("entities")
+    .select("type")
+    .eq("id", entityId)
+    .single();
+
+  if (error) throw error;
+  if (data?.type !== "CLASS") return {};
+
+  const members = await listClassMembers(entityId);
+  return scalingRequestFields(members.length);
+}
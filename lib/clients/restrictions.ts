@@ -0,0 +1,288 @@
+import * as Crypto from "expo-crypto";
+import { type DateRange, toDateKey } from "@/lib/generation/programSlots";
+import { localDateKey } from "@/lib/schedule/calendar";
+import { supabase } from "@/lib/supabase/client";
+import {
+  type BodyArea,
+  type ClientRestriction,
+  type InjurySeverity,
+  injuryHistorySchema,
+  type RestrictionFormInput,
+  type RestrictionSide,
+  restrictionSchema,
+} from "@/lib/validations/restriction.schema";
+import { isStructured, parseWorkout } from "@/lib/workouts/workoutParser";
+
+export type { BodyArea, ClientRestriction, InjurySeverity, RestrictionSide };
+
+// A workout line that hits a movement the client has been told to avoid
+export type RestrictionFlag = {
+  line: string;
+  term: string;
+  restriction: ClientRestriction;
+};
+
+export const BODY_AREA_LABELS: Record<BodyArea, string> = {
+  neck: "Neck",
+  shoulder: "Shoulder",
+  elbow: "Elbow",
+  wrist: "Wrist",
+  upper_back: "Upper back",
+  lower_back: "Lower back",
+  hip: "Hip",
+  knee: "Knee",
+  ankle: "Ankle",
+  other: "Other",
+};
+
+export const SEVERITY_LABELS: Record<InjurySeverity, string> = {
+  mild: "Mild",
+  moderate: "Moderate",
+  severe: "Severe",
+};
+
+export function newRestriction(): ClientRestriction {
+  return {
+    id: Crypto.randomUUID(),
+    area: "knee",
+    side: null,
+    severity: "mild",
+    description: "",
+    start_date: localDateKey(),
+    end_date: null,
+    avoid_movements: [],
+  };
+}
+
+export function restrictionToForm(
+  restriction: ClientRestriction,
+): RestrictionFormInput {
+  return {
+    area: restriction.area,
+    side: restriction.side ?? "none",
+    severity: restriction.severity,
+    description: restriction.description,
+    start_date: restriction.start_date ?? "",
+    end_date: restriction.end_date ?? "",
+    avoid_movements: restriction.avoid_movements.join(", "),
+  };
+}
+
+export function restrictionFromForm(
+  id: string,
+  form: RestrictionFormInput,
+): ClientRestriction {
+  return {
+    id,
+    area: form.area,
+    side: form.side === "none" ? null : form.side,
+    severity: form.severity,
+    description: form.description.trim(),
+    start_date: form.start_date || null,
+    end_date: form.end_date || null,
+    avoid_movements: form.avoid_movements
+      .split(",")
+      .map((movement) => movement.trim())
+      .filter(Boolean),
+  };
+}
+
+export function parseInjuryHistory(raw: unknown): ClientRestriction[] {
+  const history = injuryHistorySchema.safeParse(raw ?? {});
+  if (!history.success) return [];
+  return history.data.restrictions.flatMap((entry) => {
+    const parsed = restrictionSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Started on or before the date and not yet ended
+export function isRestrictionActive(
+  restriction: ClientRestriction,
+  dateKey: string,
+): boolean {
+  if (restriction.start_date && restriction.start_date > dateKey) return false;
+  return !restriction.end_date || restriction.end_date >= dateKey;
+}
+
+// In effect on at least one day of the range
+export function isRestrictionActiveDuring(
+  restriction: ClientRestriction,
+  range: DateRange,
+): boolean {
+  if (restriction.start_date && restriction.start_date > range.endDate) {
+    return false;
+  }
+  return !restriction.end_date || restriction.end_date >= range.startDate;
+}
+
+export function activeRestrictions(
+  restrictions: ClientRestriction[],
+  onDate?: string | null,
+): ClientRestriction[] {
+  const dateKey = toDateKey(onDate) ?? localDateKey();
+  return restrictions.filter((item) => isRestrictionActive(item, dateKey));
+}
+
+// "Left knee", "Lower back"
+export function restrictionTitle(restriction: ClientRestriction): string {
+  const area = BODY_AREA_LABELS[restriction.area];
+  if (!restriction.side || restriction.side === "both") {
+    return restriction.side === "both" ? `${area} (both sides)` : area;
+  }
+  const side = restriction.side === "left" ? "Left" : "Right";
+  return `${side} ${area.toLowerCase()}`;
+}
+
+/**
+ * One line per restriction for the AI prompt, e.g.
+ * "Left knee (moderate): patellar tendinopathy. Avoid: box jumps, lunges"
+ */
+export function describeRestriction(restriction: ClientRestriction): string {
+  let text = `${restrictionTitle(restriction)} (${restriction.severity})`;
+  if (restriction.description.trim()) {
+    text += `: ${restriction.description.trim()}`;
+  }
+  if (restriction.avoid_movements.length > 0) {
+    text += `. Avoid: ${restriction.avoid_movements.join(", ")}`;
+  }
+  return text;
+}
+
+/**
+ * The injury fields sent with generation and enhancement requests: prompt
+ * lines plus the structured list, both limited to what is in effect during
+ * the dates being written (today when no range is given). A restriction that
+ * only covers part of the range says which days.
+ */
+export function restrictionRequestFields(
+  restrictions: ClientRestriction[],
+  range?: DateRange,
+): {
+  injuries: string[];
+  restrictions: ClientRestriction[];
+} {
+  const today = localDateKey();
+  const dates = range ?? { startDate: today, endDate: today };
+  const active = restrictions.filter((item) =>
+    isRestrictionActiveDuring(item, dates),
+  );
+
+  const injuries = active.map((item) => {
+    const from =
+      item.start_date && item.start_date > dates.startDate
+        ? item.start_date
+        : null;
+    const until =
+      item.end_date && item.end_date < dates.endDate ? item.end_date : null;
+    const days = [from && `from ${from}`, until && `until ${until}`]
+      .filter(Boolean)
+      .join(" ");
+    return days
+      ? `${describeRestriction(item)} (applies ${days})`
+      : describeRestriction(item);
+  });
+  return { injuries, restrictions: active };
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "box jump" matches "Box Jumps" and "box-jump"
+function termPattern(term: string): RegExp {
+  const words = term
+    .trim()
+    .toLowerCase()
+    .replace(/([^s])s$/, "$1")
+    .split(/[\s-]+/)
+    .map(escapeRegExp);
+  return new RegExp(`\\b${words.join("[\\s-]+")}(e?s)?\\b`, "i");
+}
+
+/**
+ * Movements in a workout body that the restrictions active on its date say
+ * to avoid. Structured bodies are checked movement by movement; free text
+ * line by line.
+ */
+export function findRestrictedMovements(
+  body: string,
+  restrictions: ClientRestriction[],
+  scheduledDate?: string | null,
+): RestrictionFlag[] {
+  const active = activeRestrictions(restrictions, scheduledDate);
+  if (active.length === 0 || !body.trim()) return [];
+
+  const parsed = parseWorkout(body);
+  const lines = isStructured(parsed)
+    ? parsed.sections.flatMap((section) =>
+        section.lines.flatMap((line) =>
+          line.kind === "movement" ? [line.text.trim()] : [],
+        ),
+      )
+    : body.split("\n").map((line) => line.trim());
+
+  const flags: RestrictionFlag[] = [];
+  for (const line of lines) {
+    if (!line) continue;
+    for (const restriction of active) {
+      const term = restriction.avoid_movements.find(
+        (item) => item.trim() && termPattern(item).test(line),
+      );
+      if (term) {
+        flags.push({ line, term, restriction });
+        break;
+      }
+    }
+  }
+  return flags;
+}
+
+export async function loadEntityRestrictions(
+  entityId: string,
+): Promise<ClientRestriction[]> {
+  const { data, error } = await supabase
+    .from("entities")
+    .select("injury_history")
+    .eq("id", entityId)
+    .single();
+
+  if (error) throw error;
+  return parseInjuryHistory(data?.injury_history);
+}
+
+/**
+ * Writes the client's restrictions to injury_history
+ * Anything else already stored there is kept: other keys stay as they are and
+ * a legacy value that isn't `{ restrictions }` (free text, a bare list) moves
+ * under `legacy`, so the first save never drops existing injury notes.
+ */
+export async function saveRestrictions(
+  entityId: string,
+  restrictions: ClientRestriction[],
+): Promise<void> {
+  const { data, error: loadError } = await supabase
+    .from("entities")
+    .select("injury_history")
+    .eq("id", entityId)
+    .single();
+
+  if (loadError) throw loadError;
+
+  const stored: unknown = data?.injury_history ?? null;
+  const history =
+    stored === null
+      ? {}
+      : typeof stored === "object" && !Array.isArray(stored)
+        ? (stored as Record<string, unknown>)
+        : { legacy: stored };
+
+  const { error } = await supabase
+    .from("entities")
+    .update({
+      injury_history: { ...history, restrictions },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", entityId);
+
+  if (error) throw error;
+}
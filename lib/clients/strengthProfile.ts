@@ -0,0 +1,219 @@
+import { supabase } from "@/lib/supabase/client";
+
+// The measurable side of a client: 1RMs, conditioning and body metrics. The
+// current values live on the entity; every change is also written to
+// entity_metric_history so progress can be read back over time.
+
+export type ProfileMetric =
+  | "squat_1rm"
+  | "bench_1rm"
+  | "deadlift_1rm"
+  | "mile_time"
+  | "weight_kg"
+  | "height_cm"
+  | "age"
+  | "years_of_experience";
+
+// Mile time is held in seconds here and as an interval on the entity
+export type StrengthProfile = Record<ProfileMetric, number | null>;
+
+export type MetricHistoryEntry = {
+  id: string;
+  entity_id: string;
+  metric: ProfileMetric;
+  value: number;
+  recorded_at: string;
+};
+
+export type ProfileMetricDefinition = {
+  metric: ProfileMetric;
+  label: string;
+  unit: string;
+  // Shown on the strength side of the editor and used for % loads
+  isLift: boolean;
+  // Whole numbers only, matching integer columns
+  integer: boolean;
+};
+
+export const PROFILE_METRICS: ProfileMetricDefinition[] = [
+  {
+    metric: "squat_1rm",
+    label: "Back Squat 1RM",
+    unit: "kg",
+    isLift: true,
+    integer: false,
+  },
+  {
+    metric: "bench_1rm",
+    label: "Bench Press 1RM",
+    unit: "kg",
+    isLift: true,
+    integer: false,
+  },
+  {
+    metric: "deadlift_1rm",
+    label: "Deadlift 1RM",
+    unit: "kg",
+    isLift: true,
+    integer: false,
+  },
+  {
+    metric: "mile_time",
+    label: "Mile Time",
+    unit: "m:ss",
+    isLift: false,
+    integer: true,
+  },
+  {
+    metric: "weight_kg",
+    label: "Body Weight",
+    unit: "kg",
+    isLift: false,
+    integer: false,
+  },
+  {
+    metric: "height_cm",
+    label: "Height",
+    unit: "cm",
+    isLift: false,
+    integer: true,
+  },
+  { metric: "age", label: "Age", unit: "years", isLift: false, integer: true },
+  {
+    metric: "years_of_experience",
+    label: "Training Experience",
+    unit: "years",
+    isLift: false,
+    integer: false,
+  },
+];
+
+export const emptyStrengthProfile = (): StrengthProfile => ({
+  squat_1rm: null,
+  bench_1rm: null,
+  deadlift_1rm: null,
+  mile_time: null,
+  weight_kg: null,
+  height_cm: null,
+  age: null,
+  years_of_experience: null,
+});
+
+/**
+ * Reads a Postgres interval as seconds, e.g. "00:07:30" or "00:07:30.5"
+ */
+export function parseInterval(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Math.round(
+    Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]),
+  );
+}
+
+// "7:30"; hours only appear past the hour
+export function formatMileTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+// Accepts "7:30" or "1:02:15"; a plain number reads as minutes
+export function parseMileTime(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const parts = trimmed.split(":").map(Number);
+  if (parts.some((part) => !Number.isFinite(part))) return null;
+  if (parts.length === 1) return Math.round(parts[0] * 60);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export function formatMetricValue(
+  metric: ProfileMetric,
+  value: number,
+): string {
+  if (metric === "mile_time") return formatMileTime(value);
+  const definition = PROFILE_METRICS.find((item) => item.metric === metric);
+  return definition ? `${value} ${definition.unit}` : String(value);
+}
+
+type EntityMetrics = Partial<Record<ProfileMetric, unknown>>;
+
+export function profileFromEntity(entity: EntityMetrics): StrengthProfile {
+  const profile = emptyStrengthProfile();
+  for (const { metric } of PROFILE_METRICS) {
+    const raw = entity[metric];
+    if (metric === "mile_time") {
+      profile.mile_time = parseInterval(raw as string | null);
+    } else if (raw !== null && raw !== undefined) {
+      // numeric columns arrive as strings
+      const value = Number(raw);
+      profile[metric] = Number.isFinite(value) ? value : null;
+    }
+  }
+  return profile;
+}
+
+export async function listMetricHistory(
+  entityId: string,
+): Promise<MetricHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("entity_metric_history")
+    .select("*")
+    .eq("entity_id", entityId)
+    .order("recorded_at", { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as MetricHistoryEntry[]).map((entry) => ({
+    ...entry,
+    value: Number(entry.value),
+  }));
+}
+
+/**
+ * Writes the changed metrics to the entity and records each new value in
+ * the history. Cleared values are saved but not recorded.
+ */
+export async function saveStrengthProfile(
+  entityId: string,
+  previous: StrengthProfile,
+  next: StrengthProfile,
+): Promise<void> {
+  const changed = PROFILE_METRICS.map(({ metric }) => metric).filter(
+    (metric) => previous[metric] !== next[metric],
+  );
+  if (changed.length === 0) return;
+
+  const update: Record<string, number | string | null> = {
+    updated_at: new Date().toISOString(),
+  };
+  for (const metric of changed) {
+    const value = next[metric];
+    update[metric] =
+      metric === "mile_time" && value !== null ? `${value} seconds` : value;
+  }
+
+  const { error } = await supabase
+    .from("entities")
+    .update(update)
+    .eq("id", entityId);
+  if (error) throw error;
+
+  const recordedAt = new Date().toISOString();
+  const history = changed.flatMap((metric) => {
+    const value = next[metric];
+    return value === null
+      ? []
+      : [{ entity_id: entityId, metric, value, recorded_at: recordedAt }];
+  });
+
+  if (history.length > 0) {
+    const { error: historyError } = await supabase
+      .from("entity_metric_history")
+      .insert(history);
+    if (historyError) throw historyError;
+  }
+}
@@ -0,0 +1,88 @@
+import { Platform } from "react-native";
+import { redact } from "@/lib/debug/redact";
+
+// Recent API traffic kept in memory for the debug screen. Everything is
+// redacted on the way in, so the buffer can be exported as-is.
+
+const MAX_ENTRIES = 300;
+
+export type NetworkLogKind = "request" | "response" | "error" | "sse";
+
+export type NetworkLogEntry = {
+  id: number;
+  timestamp: string;
+  kind: NetworkLogKind;
+  method: string;
+  url: string;
+  status?: number;
+  durationMs?: number;
+  // SSE event id, for frames
+  eventId?: string;
+  message?: string;
+  detail?: unknown;
+};
+
+export type NetworkLogInput = Omit<NetworkLogEntry, "id" | "timestamp">;
+
+let entries: NetworkLogEntry[] = [];
+let nextId = 1;
+const listeners = new Set<(entries: NetworkLogEntry[]) => void>();
+
+function notify() {
+  for (const listener of listeners) {
+    listener(entries);
+  }
+}
+
+export function logNetworkEvent(input: NetworkLogInput): void {
+  const entry: NetworkLogEntry = {
+    ...input,
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    url: stripQuery(input.url),
+    message: input.message && (redact(input.message) as string),
+    detail: redact(input.detail),
+  };
+
+  // Oldest entries fall off the front once the buffer is full
+  entries = [...entries.slice(-(MAX_ENTRIES - 1)), entry];
+  notify();
+}
+
+export const getNetworkLog = (): NetworkLogEntry[] => entries;
+
+export function clearNetworkLog(): void {
+  entries = [];
+  notify();
+}
+
+export function subscribeToNetworkLog(
+  listener: (entries: NetworkLogEntry[]) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * The buffer as a JSON document for attaching to a bug report
+ */
+export function exportNetworkLog(): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      platform: Platform.OS,
+      apiUrl: process.env.EXPO_PUBLIC_API_URL || "https://halteres.ai",
+      entries,
+    },
+    null,
+    2,
+  );
+}
+
+// Query strings can carry tokens; only the path is kept
+function stripQuery(url: string): string {
+  const index = url.indexOf("?");
+  return index === -1 ? url : `${url.slice(0, index)}?[redacted]`;
+}
@@ -0,0 +1,71 @@
+// Scrubs credentials and client details from anything headed for the logs
+
+const REDACTED = "[redacted]";
+
+// Compared against keys lowercased with `_` and `-` removed
+const SENSITIVE_KEYS = new Set([
+  "authorization",
+  "accesstoken",
+  "refreshtoken",
+  "apikey",
+  "password",
+  "email",
+  "phone",
+  "personalization",
+  "injuries",
+  "injury",
+  "restrictions",
+  "clientname",
+  "clientnotes",
+]);
+
+const MAX_STRING_LENGTH = 1000;
+const MAX_DEPTH = 8;
+
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+
+const isSensitiveKey = (key: string) =>
+  SENSITIVE_KEYS.has(key.toLowerCase().replace(/[-_]/g, ""));
+
+export function redactString(value: string): string {
+  const scrubbed = value
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED);
+
+  return scrubbed.length > MAX_STRING_LENGTH
+    ? `${scrubbed.slice(0, MAX_STRING_LENGTH)}… (${scrubbed.length - MAX_STRING_LENGTH} more)`
+    : scrubbed;
+}
+
+/**
+ * Returns a copy of `value` that is safe to keep in logs
+ * Sensitive keys are replaced wholesale, strings are scrubbed of bearer
+ * tokens and email addresses and long strings are truncated.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitiveKey(key) ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+}
+
+// Bodies arrive as JSON text; parsed bodies redact field by field
+export function redactBody(body: string): unknown {
+  if (!body) return undefined;
+  try {
+    return redact(JSON.parse(body));
+  } catch {
+    return redactString(body);
+  }
+}
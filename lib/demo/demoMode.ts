@@ -0,0 +1,78 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Demo mode swaps the halteres.ai backend for the in-app mock server so the
+// builder can be developed and demoed offline. It's on when
+// EXPO_PUBLIC_API_URL is "mock", or when toggled in Settings.
+
+const DEMO_SETTINGS_KEY = "demo-mode";
+
+export const MOCK_API_URL = "mock";
+
+export type DemoScenario =
+  | "success" // full program streams and completes
+  | "server_error" // the server sends an `error` event part way through
+  | "dropped_connection" // the stream drops once and resumes via Last-Event-ID
+  | "unavailable" // the first attempt gets a 503, the retry succeeds
+  | "timeout"; // the stream stalls until the client gives up
+
+export type DemoSettings = {
+  enabled: boolean;
+  scenario: DemoScenario;
+};
+
+const defaultSettings: DemoSettings = { enabled: false, scenario: "success" };
+
+export const isMockApiUrl = () =>
+  process.env.EXPO_PUBLIC_API_URL === MOCK_API_URL;
+
+// Cached so request code can check demo mode synchronously
+let settings: DemoSettings = { ...defaultSettings, enabled: isMockApiUrl() };
+const listeners = new Set<(settings: DemoSettings) => void>();
+
+export const getDemoSettings = (): DemoSettings => settings;
+
+export const isDemoMode = (): boolean => settings.enabled;
+
+export function subscribeToDemoSettings(
+  listener: (settings: DemoSettings) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function applySettings(next: DemoSettings) {
+  settings = next;
+  for (const listener of listeners) {
+    listener(next);
+  }
+}
+
+export async function loadDemoSettings(): Promise<DemoSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(DEMO_SETTINGS_KEY);
+    const saved = stored ? (JSON.parse(stored) as Partial<DemoSettings>) : {};
+    applySettings({
+      ...defaultSettings,
+      ...saved,
+      // The env var always wins; the toggle can't switch it off
+      enabled: isMockApiUrl() || !!saved.enabled,
+    });
+  } catch (err) {
+    console.error("[DemoMode] Failed to load settings:", err);
+  }
+  return settings;
+}
+
+export async function updateDemoSettings(
+  changes: Partial<DemoSettings>,
+): Promise<void> {
+  const next = { ...settings, ...changes };
+  applySettings({ ...next, enabled: isMockApiUrl() || next.enabled });
+  try {
+    await AsyncStorage.setItem(DEMO_SETTINGS_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[DemoMode] Failed to save settings:", err);
+  }
+}
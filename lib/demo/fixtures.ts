@@ -0,0 +1,64 @@
+// Recorded responses from halteres.ai, trimmed down for demo mode
+
+export const generationStatusFixture = [
+  "Analyzing program requirements...",
+  "Designing periodization...",
+  "Writing workouts...",
+];
+
+export const programOverviewFixture = {
+  program_overview: {
+    summary:
+      "A conjugate-style strength and conditioning block built around three main lifts, with aerobic base work and gymnastics skill practice.",
+    phases: [
+      { name: "Accumulation", weeks: "1-3" },
+      { name: "Intensification", weeks: "4-6" },
+      { name: "Realization", weeks: "7-8" },
+    ],
+  },
+};
+
+// Cycled across the program's training days
+export const workoutFixtures = [
+  {
+    title: "Back Squat + Short Chipper",
+    body: "Strength:\nBack Squat 5x5 @ 75%\nRest 2:00 between sets\n\nConditioning:\nFor Time:\n30 Wall Balls (20/14)\n20 Toes-to-Bar\n10 Power Cleans (135/95)\n\nTime cap: 10:00",
+    tags: ["strength", "squat", "for-time"],
+  },
+  {
+    title: "Aerobic Intervals",
+    body: "EMOM 20:\nMin 1: 15/12 Cal Row\nMin 2: 12 Burpees\nMin 3: 40ft Handstand Walk\nMin 4: Rest\n\nCooldown:\n5:00 easy bike",
+    tags: ["conditioning", "emom"],
+  },
+  {
+    title: "Press Complex + AMRAP",
+    body: "Strength:\nStrict Press 4x6, building\nPush Press 3x3\n\nConditioning:\nAMRAP 12:\n10 Dumbbell Snatches (50/35)\n10 Box Jumps (24/20)\n10 Pull-ups",
+    tags: ["strength", "press", "amrap"],
+  },
+  {
+    title: "Deadlift + Tabata Finisher",
+    body: "Strength:\nDeadlift 5-3-1-1-1\n\nFinisher:\nTabata Air Squats\nTabata Hollow Rocks",
+    tags: ["strength", "deadlift", "tabata"],
+  },
+  {
+    title: "Partner Long Grind",
+    body: "With a partner, For Time:\n100 Cal Row\n80 Kettlebell Swings (53/35)\n60 Sit-ups\n40 Thrusters (95/65)\n20 Bar Muscle-ups\n\nTime cap: 30:00",
+    tags: ["conditioning", "partner"],
+  },
+  {
+    title: "Gymnastics Skill + Engine",
+    body: "Skill (15:00):\nKipping Handstand Push-up practice\n\nEngine:\n3 Rounds:\n400m Run\n21 Kettlebell Swings\n12 Pull-ups",
+    tags: ["gymnastics", "skill", "rounds"],
+  },
+];
+
+// Appended to each workout when a class program asks for scaling tiers
+export const scalingFixture =
+  "\n\nScaling:\nRX: As written\nIntermediate: Drop loads by about a quarter, banded or jumping gymnastics\nBeginner: Half the reps, light dumbbells or PVC, ring rows for pull-ups";
+
+export const enhanceWorkoutFixture = {
+  titleSuffix: " (Enhanced)",
+  preface: "Warm-up:\n2 Rounds:\n200m Run\n10 Air Squats\n10 Ring Rows\n\n",
+  notes:
+    "Demo mode: this enhancement is a canned response. Scale loads to hit the intended stimulus and keep transitions under 15 seconds.",
+};
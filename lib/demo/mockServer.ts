@@ -0,0 +1,283 @@
+import * as Crypto from "expo-crypto";
+import { ApiError, apiErrorFromResponse } from "@/lib/api/errors";
+import type { SSEEvent } from "@/lib/api/sseClient";
+import { getDemoSettings } from "@/lib/demo/demoMode";
+import {
+  enhanceWorkoutFixture,
+  generationStatusFixture,
+  programOverviewFixture,
+  scalingFixture,
+  workoutFixtures,
+} from "@/lib/demo/fixtures";
+import { getProgramSlots } from "@/lib/generation/programSlots";
+
+// In-app stand-in for the halteres.ai endpoints used by the builder. Streams
+// behave like the real server: numbered events, `retry:` hints and resuming
+// from Last-Event-ID, so reconnect and retry paths can be exercised offline.
+// Nothing is written to Supabase: workouts the server would save are kept in
+// memory, so a demo run never touches a real program.
+
+const GENERATE_PATH = "/api/generate-program-anthropic";
+const ENHANCE_PATH = "/api/enhance-workout";
+
+const EVENT_INTERVAL_MS = 250;
+const ENHANCE_DELAY_MS = 1200;
+// Events delivered before the dropped_connection and server_error scenarios kick in
+const FAILURE_AFTER_EVENTS = 6;
+
+// Generation runs are cut short in demo mode so the timeout scenario is quick
+export const DEMO_GENERATION_TIMEOUT_MS = 60 * 1000;
+
+// First attempts per program, for the unavailable scenario
+const unavailableAttempts = new Set<string>();
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+type GenerationRequest = {
+  programId?: string;
+  entityId?: string;
+  persist?: boolean;
+  forceRegenerate?: boolean;
+  duration_weeks?: number;
+  calendar_data?: { start_date?: string; days_of_week?: number[] };
+  generation_scope?: { dates?: string[] };
+  scaling_tiers?: string[];
+};
+
+type DemoWorkout = {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  scheduled_date: string;
+};
+
+type GenerationPayload = { type: string; workout?: DemoWorkout } & Record<
+  string,
+  unknown
+>;
+
+// Workouts the mock server has "saved", per program
+const savedWorkouts = new Map<string, DemoWorkout[]>();
+
+// The full event sequence the server would send for this request
+function buildGenerationEvents(body: GenerationRequest): GenerationPayload[] {
+  const calendar = body.calendar_data || {};
+  let slots = getProgramSlots({
+    startDate: calendar.start_date || new Date().toISOString(),
+    daysOfWeek: calendar.days_of_week?.length
+      ? calendar.days_of_week
+      : [1, 3, 5],
+    weeks: body.duration_weeks || 1,
+  });
+
+  const scopedDates = body.generation_scope?.dates;
+  if (scopedDates) {
+    const targets = new Set(scopedDates);
+    slots = slots.filter((slot) => targets.has(slot.date));
+  }
+
+  return [
+    ...generationStatusFixture.map((message) => ({
+      type: "status",
+      message,
+    })),
+    { type: "program_metadata", ...programOverviewFixture },
+    ...slots.map((slot, index) => {
+      const fixture = workoutFixtures[index % workoutFixtures.length];
+      return {
+        type: "workout_chunk",
+        workout: {
+          id: `demo-${slot.date}`,
+          title: `W${slot.week} · ${fixture.title}`,
+          body: body.scaling_tiers?.length
+            ? fixture.body + scalingFixture
+            : fixture.body,
+          tags: fixture.tags,
+          scheduled_date: `${slot.date}T00:00:00.000Z`,
+        },
+      };
+    }),
+    { type: "complete", workoutsCreated: slots.length },
+  ];
+}
+
+// Like the real server, workouts are saved unless the run is held for review;
+// the streamed workout carries the saved copy's id
+function persistWorkout(
+  body: GenerationRequest,
+  workout: DemoWorkout,
+): DemoWorkout {
+  if (body.persist === false || !body.programId) return workout;
+
+  const saved = { ...workout, id: Crypto.randomUUID() };
+  savedWorkouts.set(body.programId, [
+    ...(savedWorkouts.get(body.programId) ?? []),
+    saved,
+  ]);
+  return saved;
+}
+
+// Whole-program regenerations replace the program's earlier demo workouts
+function clearProgramWorkouts(body: GenerationRequest): void {
+  if (
+    body.persist === false ||
+    !body.programId ||
+    !body.forceRegenerate ||
+    body.generation_scope
+  ) {
+    return;
+  }
+
+  savedWorkouts.delete(body.programId);
+}
+
+/**
+ * Streams a mocked generation run frame by frame
+ * Mirrors the XHR stream contract: rejects on HTTP/network errors and
+ * resolves when the stream ends or is aborted.
+ */
+async function streamGeneration(
+  body: GenerationRequest,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onFrame: (event: SSEEvent) => void,
+  onOpen?: () => void,
+): Promise<void> {
+  const { scenario } = getDemoSettings();
+  const runKey = body.programId || "demo";
+  const resumeFrom = Number(headers["Last-Event-ID"] || 0);
+
+  await wait(EVENT_INTERVAL_MS, signal);
+  if (signal?.aborted) return;
+
+  if (scenario === "unavailable" && !unavailableAttempts.has(runKey)) {
+    unavailableAttempts.add(runKey);
+    throw apiErrorFromResponse(503);
+  }
+  unavailableAttempts.delete(runKey);
+
+  if (!resumeFrom) {
+    clearProgramWorkouts(body);
+  }
+
+  onOpen?.();
+  onFrame({ data: "", retry: 1000 });
+
+  const payloads = buildGenerationEvents(body);
+  let sent = 0;
+
+  for (let index = resumeFrom; index < payloads.length; index++) {
+    const id = String(index + 1);
+    await wait(EVENT_INTERVAL_MS, signal);
+    if (signal?.aborted) return;
+
+    if (sent === FAILURE_AFTER_EVENTS) {
+      if (scenario === "dropped_connection" && !resumeFrom) {
+        throw new ApiError("network", "Network error");
+      }
+      if (scenario === "server_error") {
+        onFrame({
+          id,
+          data: JSON.stringify({
+            type: "error",
+            message: "Demo: the model returned an invalid response",
+            code: "demo_server_error",
+          }),
+        });
+        return;
+      }
+      if (scenario === "timeout") {
+        // Stall until the client's timeout aborts the request
+        await wait(DEMO_GENERATION_TIMEOUT_MS, signal);
+        return;
+      }
+    }
+
+    const payload = payloads[index];
+    if (payload.workout) {
+      payload.workout = persistWorkout(body, payload.workout);
+    }
+    onFrame({ id, data: JSON.stringify(payload) });
+    sent++;
+  }
+}
+
+/**
+ * Mock counterpart of openPostStream for demo mode
+ */
+export function openMockPostStream(
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onFrame: (event: SSEEvent) => void,
+  onOpen?: () => void,
+): Promise<void> {
+  console.log("[MockServer] POST", url);
+
+  if (!url.endsWith(GENERATE_PATH)) {
+    return Promise.reject(apiErrorFromResponse(404));
+  }
+
+  return streamGeneration(
+    body as GenerationRequest,
+    headers,
+    signal,
+    onFrame,
+    onOpen,
+  );
+}
+
+type EnhanceRequest = {
+  workout?: { title?: string; description?: string };
+  instructions?: string;
+};
+
+/**
+ * Canned JSON responses for demo mode
+ * Fails with the same ApiErrors as the real client.
+ */
+export async function mockApiRequest<T>(
+  method: string,
+  endpoint: string,
+  data?: unknown,
+): Promise<T> {
+  console.log(`[MockServer] ${method} ${endpoint}`);
+
+  if (method === "POST" && endpoint === ENHANCE_PATH) {
+    await wait(ENHANCE_DELAY_MS);
+    const { scenario } = getDemoSettings();
+    if (scenario === "server_error") {
+      throw new ApiError("server", "Demo enhance failure", 500);
+    }
+
+    const { workout = {}, instructions } = (data || {}) as EnhanceRequest;
+    return {
+      enhancedWorkout: {
+        title: `${workout.title || "Workout"}${enhanceWorkoutFixture.titleSuffix}`,
+        description: `${enhanceWorkoutFixture.preface}${workout.description || ""}`,
+        notes: instructions
+          ? `${enhanceWorkoutFixture.notes}\n\nRequested: ${instructions}`
+          : enhanceWorkoutFixture.notes,
+      },
+    } as T;
+  }
+
+  throw new ApiError(
+    "validation",
+    `${endpoint} is not available in demo mode`,
+    404,
+  );
+}
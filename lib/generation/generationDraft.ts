@@ -0,0 +1,143 @@
+import { toDateKey } from "@/lib/generation/programSlots";
+import { supabase } from "@/lib/supabase/client";
+import type { StreamingWorkout } from "@/lib/validations/generation.schema";
+import { loadLoggedWorkoutIds } from "@/lib/workouts/workoutResults";
+
+// A reviewed generation run, held on the device until the coach commits it
+
+export type DraftWorkout = StreamingWorkout & {
+  rejected: boolean;
+};
+
+export type GenerationDraft = {
+  programId: string;
+  entityId: string;
+  // Whole-program regeneration: existing workouts go when the draft is saved,
+  // apart from completed ones and those with logged results
+  replaceExisting: boolean;
+  workouts: DraftWorkout[];
+};
+
+type ExistingWorkout = {
+  id: string;
+  scheduled_date: string | null;
+  completed: boolean | null;
+};
+
+// program_workouts.id is a uuid column; Postgres rejects a lookup that
+// includes anything else
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Ids of draft workouts that are already in program_workouts
+ * Review runs ask the server not to save (`persist: false`, see
+ * docs/backend-modifications.md); a server that ignores the flag saves them
+ * while streaming, under the ids it streamed. Streamed ids that aren't uuids
+ * (the demo server's, for one) can't be rows, so they count as not saved.
+ */
+export async function findPersistedDraftWorkouts(draft: {
+  programId: string;
+  workouts: StreamingWorkout[];
+}): Promise<Set<string>> {
+  const ids = draft.workouts
+    .map(({ id }) => id)
+    .filter((id) => UUID_PATTERN.test(id));
+  if (ids.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select("id")
+    .eq("program_id", draft.programId)
+    .in("id", ids);
+
+  if (error) throw error;
+  return new Set((data || []).map((row) => row.id as string));
+}
+
+/**
+ * Writes the accepted workouts of a draft to program_workouts in one insert
+ * When replacing, old workouts are only removed once the insert succeeds so
+ * a failed commit never leaves the program empty. Completed and logged
+ * workouts are never replaced, and draft workouts on their dates are left
+ * out. Workouts the server already saved aren't inserted again; rejected
+ * ones among them are removed. Returns the number saved.
+ */
+export async function commitGenerationDraft(
+  draft: GenerationDraft,
+): Promise<number> {
+  if (draft.workouts.every((workout) => workout.rejected)) return 0;
+
+  const persisted = await findPersistedDraftWorkouts(draft);
+  let accepted = draft.workouts.filter(
+    (workout) => !workout.rejected && !persisted.has(workout.id),
+  );
+  const savedCount = draft.workouts.filter(
+    (workout) => !workout.rejected && persisted.has(workout.id),
+  ).length;
+  let removedIds = draft.workouts
+    .filter((workout) => workout.rejected && persisted.has(workout.id))
+    .map(({ id }) => id);
+
+  if (draft.replaceExisting) {
+    const { data, error } = await supabase
+      .from("program_workouts")
+      .select("id, scheduled_date, completed")
+      .eq("program_id", draft.programId)
+      .eq("is_reference", false);
+
+    if (error) throw error;
+    const existing = ((data || []) as ExistingWorkout[]).filter(
+      (workout) => !persisted.has(workout.id),
+    );
+    const logged = await loadLoggedWorkoutIds(
+      existing.filter((workout) => !workout.completed).map(({ id }) => id),
+    );
+    const kept = existing.filter(
+      (workout) => workout.completed || logged.has(workout.id),
+    );
+    const keptDates = new Set(
+      kept.flatMap((workout) => toDateKey(workout.scheduled_date) ?? []),
+    );
+
+    removedIds = [
+      ...removedIds,
+      ...existing
+        .filter((workout) => !kept.includes(workout))
+        .map(({ id }) => id),
+    ];
+    accepted = accepted.filter((workout) => {
+      const dateKey = toDateKey(workout.scheduled_date);
+      return !dateKey || !keptDates.has(dateKey);
+    });
+  }
+
+  if (accepted.length > 0) {
+    const { error: insertError } = await supabase
+      .from("program_workouts")
+      .insert(
+        accepted.map((workout) => ({
+          program_id: draft.programId,
+          entity_id: draft.entityId,
+          title: workout.title,
+          body: workout.body,
+          tags: workout.tags ?? [],
+          scheduled_date: workout.scheduled_date ?? null,
+          is_reference: false,
+        })),
+      );
+
+    if (insertError) throw insertError;
+  }
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("program_workouts")
+      .delete()
+      .in("id", removedIds);
+
+    if (deleteError) throw deleteError;
+  }
+
+  return accepted.length + savedCount;
+}
@@ -0,0 +1,101 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Pre-flight estimates for a generation run, calibrated by how long past runs
+// on this device took per workout.
+
+const RUN_HISTORY_KEY = "generation-run-history";
+const MAX_RUN_HISTORY = 20;
+
+// Used until this device has finished a run of its own
+const DEFAULT_MS_PER_WORKOUT = 20 * 1000;
+
+// Share of the timeout at which a run is flagged as cutting it close
+const NEAR_TIMEOUT_RATIO = 0.5;
+
+export type GenerationRunRecord = {
+  workouts: number;
+  durationMs: number;
+  completedAt: string;
+};
+
+export type GenerationEstimate = {
+  workouts: number;
+  durationMs: number;
+  timeoutMs: number;
+  // Based on this device's past runs rather than the default rate
+  isCalibrated: boolean;
+  nearTimeout: boolean;
+  exceedsTimeout: boolean;
+};
+
+export const getGenerationTimeout = (weeks: number): number => {
+  if (weeks < 5) return 5 * 60 * 1000; // 5 minutes
+  if (weeks < 8) return 7.5 * 60 * 1000; // 7.5 minutes
+  return 30 * 60 * 1000; // 30 minutes
+};
+
+export async function loadGenerationRuns(): Promise<GenerationRunRecord[]> {
+  try {
+    const stored = await AsyncStorage.getItem(RUN_HISTORY_KEY);
+    return stored ? (JSON.parse(stored) as GenerationRunRecord[]) : [];
+  } catch (err) {
+    console.error("[GenerationEstimate] Failed to load run history:", err);
+    return [];
+  }
+}
+
+export async function recordGenerationRun(
+  workouts: number,
+  durationMs: number,
+): Promise<void> {
+  if (workouts <= 0 || durationMs <= 0) return;
+
+  try {
+    const runs = await loadGenerationRuns();
+    const next = [
+      ...runs,
+      { workouts, durationMs, completedAt: new Date().toISOString() },
+    ].slice(-MAX_RUN_HISTORY);
+    await AsyncStorage.setItem(RUN_HISTORY_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[GenerationEstimate] Failed to record run:", err);
+  }
+}
+
+// Median time per workout across past runs; resists one stalled run
+function msPerWorkout(runs: GenerationRunRecord[]): number | null {
+  const rates = runs
+    .filter((run) => run.workouts > 0 && run.durationMs > 0)
+    .map((run) => run.durationMs / run.workouts)
+    .sort((a, b) => a - b);
+  if (rates.length === 0) return null;
+
+  const mid = Math.floor(rates.length / 2);
+  return rates.length % 2 ? rates[mid] : (rates[mid - 1] + rates[mid]) / 2;
+}
+
+export function estimateGeneration(
+  runs: GenerationRunRecord[],
+  workouts: number,
+  numberOfWeeks: number,
+): GenerationEstimate {
+  const rate = msPerWorkout(runs);
+  const durationMs = workouts * (rate ?? DEFAULT_MS_PER_WORKOUT);
+  const timeoutMs = getGenerationTimeout(numberOfWeeks);
+
+  return {
+    workouts,
+    durationMs,
+    timeoutMs,
+    isCalibrated: rate !== null,
+    nearTimeout: durationMs >= timeoutMs * NEAR_TIMEOUT_RATIO,
+    exceedsTimeout: durationMs >= timeoutMs,
+  };
+}
+
+// e.g. "about 12 min", "under a minute"
+export function formatEstimateDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return "under a minute";
+  return `about ${minutes} min`;
+}
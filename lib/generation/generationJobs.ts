@@ -0,0 +1,201 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getProgramSlots,
+  type ProgramSchedule,
+  type SlotCoverage,
+  splitProgramSlots,
+} from "@/lib/generation/programSlots";
+import type { ReplacedWorkout } from "@/lib/generation/scopedGeneration";
+import { supabase } from "@/lib/supabase/client";
+import {
+  type StreamingWorkout,
+  streamingWorkoutSchema,
+} from "@/lib/validations/generation.schema";
+
+// In-flight generation runs are persisted so a run that outlives the app
+// (backgrounded, suspended or killed) can be resumed or reconciled later.
+
+const JOB_KEY_PREFIX = "generation-job:";
+
+// Client details are left out of storage; a run resumed after a restart
+// reloads them (see loadPrivateRequestFields)
+const PRIVATE_REQUEST_FIELDS = ["personalization", "injuries", "restrictions"];
+
+// Allowance for clock skew between the device and the database when
+// matching workouts to the run that created them
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export type GenerationJob = {
+  programId: string;
+  requestBody: Record<string, unknown>;
+  expectedTotal: number;
+  receivedWorkoutIds: string[];
+  lastEventId?: string;
+  startedAt: string;
+  timeoutMs: number;
+  schedule?: ProgramSchedule;
+  // Set when the run only fills specific dates rather than the whole program
+  targetDates?: string[];
+  // Scoped runs: existing workouts to delete once their dates are filled
+  replacedWorkouts?: ReplacedWorkout[];
+  // Review mode: the server doesn't save workouts, so they're kept here
+  // until the coach commits them
+  draft?: GenerationJobDraft;
+};
+
+export type GenerationJobDraft = {
+  entityId: string;
+  replaceExisting: boolean;
+  workouts: StreamingWorkout[];
+};
+
+export type ReconciledJob = {
+  workouts: StreamingWorkout[];
+  isComplete: boolean;
+};
+
+const jobKey = (programId: string) => `${JOB_KEY_PREFIX}${programId}`;
+
+export async function loadGenerationJob(
+  programId: string,
+): Promise<GenerationJob | null> {
+  try {
+    const stored = await AsyncStorage.getItem(jobKey(programId));
+    return stored ? (JSON.parse(stored) as GenerationJob) : null;
+  } catch (err) {
+    console.error("[GenerationJobs] Failed to load job:", err);
+    return null;
+  }
+}
+
+export async function saveGenerationJob(job: GenerationJob): Promise<void> {
+  const requestBody = Object.fromEntries(
+    Object.entries(job.requestBody).filter(
+      ([key]) => !PRIVATE_REQUEST_FIELDS.includes(key),
+    ),
+  );
+  try {
+    await AsyncStorage.setItem(
+      jobKey(job.programId),
+      JSON.stringify({ ...job, requestBody }),
+    );
+  } catch (err) {
+    console.error("[GenerationJobs] Failed to save job:", err);
+  }
+}
+
+export async function clearGenerationJob(programId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(jobKey(programId));
+  } catch (err) {
+    console.error("[GenerationJobs] Failed to clear job:", err);
+  }
+}
+
+// Drops every persisted run, e.g. when the coach signs out
+export async function clearGenerationJobs(): Promise<void> {
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      key.startsWith(JOB_KEY_PREFIX),
+    );
+    await AsyncStorage.multiRemove(keys);
+  } catch (err) {
+    console.error("[GenerationJobs] Failed to clear jobs:", err);
+  }
+}
+
+/**
+ * The program's personalization notes, which aren't stored with a job
+ * Client injuries and restrictions are reloaded separately.
+ */
+export async function loadPrivateRequestFields(
+  programId: string,
+): Promise<{ personalization: string }> {
+  const { data, error } = await supabase
+    .from("programs")
+    .select("personalization")
+    .eq("id", programId)
+    .single();
+
+  if (error) throw error;
+  return { personalization: data?.personalization ?? "" };
+}
+
+export function isGenerationJobExpired(job: GenerationJob): boolean {
+  return Date.now() - Date.parse(job.startedAt) > job.timeoutMs;
+}
+
+/**
+ * Compares a job against what actually landed in program_workouts
+ * The server keeps writing workouts after the client disconnects, so the
+ * database is the source of truth for how far a run got.
+ */
+export async function reconcileGenerationJob(
+  job: GenerationJob,
+): Promise<ReconciledJob> {
+  // Nothing is written to the program until a draft is committed
+  if (job.draft) {
+    return {
+      workouts: job.draft.workouts,
+      isComplete: job.draft.workouts.length >= job.expectedTotal,
+    };
+  }
+
+  const createdAfter = new Date(
+    Date.parse(job.startedAt) - CLOCK_SKEW_MS,
+  ).toISOString();
+
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select("id, title, body, scheduled_date, tags")
+    .eq("program_id", job.programId)
+    .eq("is_reference", false)
+    .gte("created_at", createdAfter)
+    .order("scheduled_date", { ascending: true });
+
+  if (error) throw error;
+
+  const workouts = (data || []).flatMap((row) => {
+    const parsed = streamingWorkoutSchema.safeParse(row);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+  return {
+    workouts,
+    isComplete: workouts.length >= job.expectedTotal,
+  };
+}
+
+/**
+ * Which of the job's slots have a workout in program_workouts
+ * Returns null when the program has no usable schedule (e.g. no start date).
+ */
+export async function getGenerationJobCoverage(
+  job: GenerationJob,
+): Promise<SlotCoverage | null> {
+  if (!job.schedule || job.draft) return null;
+
+  let slots = getProgramSlots(job.schedule);
+  if (job.targetDates) {
+    const targets = new Set(job.targetDates);
+    slots = slots.filter((slot) => targets.has(slot.date));
+  }
+  if (slots.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select("id, scheduled_date")
+    .eq("program_id", job.programId)
+    .eq("is_reference", false);
+
+  if (error) throw error;
+
+  // Workouts the run is replacing don't count as filling their slot
+  const replaced = new Set(job.replacedWorkouts?.map(({ id }) => id));
+  return splitProgramSlots(
+    slots,
+    (data || [])
+      .filter((row) => !replaced.has(row.id))
+      .map((row) => row.scheduled_date),
+  );
+}
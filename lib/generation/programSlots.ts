@@ -0,0 +1,108 @@
+import { dayNumberToName } from "@/lib/constants/programConfig";
+
+// A program's schedule expands into slots: one per training day per week.
+// Weeks are counted from start_date the same way WorkoutList groups them.
+
+export type ProgramSchedule = {
+  startDate?: string;
+  daysOfWeek: number[];
+  weeks: number;
+};
+
+export type ProgramSlot = {
+  week: number;
+  dayOfWeek: number;
+  date: string; // YYYY-MM-DD
+};
+
+export type DateRange = {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+};
+
+export type SlotCoverage = {
+  filled: ProgramSlot[];
+  missing: ProgramSlot[];
+};
+
+// Normalizes a date or timestamp to YYYY-MM-DD (UTC), or null if unparseable
+export function toDateKey(value?: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().split("T")[0];
+}
+
+export function getProgramSlots(schedule: ProgramSchedule): ProgramSlot[] {
+  const startKey = toDateKey(schedule.startDate);
+  if (!startKey || schedule.daysOfWeek.length === 0) return [];
+
+  const start = new Date(startKey);
+  const slots: ProgramSlot[] = [];
+
+  for (let offset = 0; offset < schedule.weeks * 7; offset++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + offset);
+    const dayOfWeek = date.getUTCDay();
+    if (schedule.daysOfWeek.includes(dayOfWeek)) {
+      slots.push({
+        week: Math.floor(offset / 7) + 1,
+        dayOfWeek,
+        date: date.toISOString().split("T")[0],
+      });
+    }
+  }
+
+  return slots;
+}
+
+// Calendar dates covered by a program week (1-based)
+export function getWeekDateRange(
+  startDate: string | undefined,
+  week: number,
+): DateRange | null {
+  const startKey = toDateKey(startDate);
+  if (!startKey) return null;
+
+  const weekStart = new Date(startKey);
+  weekStart.setUTCDate(weekStart.getUTCDate() + (week - 1) * 7);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setUTCDate(weekStart.getUTCDate() + 6);
+
+  return {
+    startDate: weekStart.toISOString().split("T")[0],
+    endDate: weekEnd.toISOString().split("T")[0],
+  };
+}
+
+export function isDateInRange(dateKey: string, range: DateRange): boolean {
+  return dateKey >= range.startDate && dateKey <= range.endDate;
+}
+
+export function splitProgramSlots(
+  slots: ProgramSlot[],
+  scheduledDates: (string | null | undefined)[],
+): SlotCoverage {
+  const filledDates = new Set(
+    scheduledDates.map(toDateKey).filter((key): key is string => !!key),
+  );
+
+  return {
+    filled: slots.filter((slot) => filledDates.has(slot.date)),
+    missing: slots.filter((slot) => !filledDates.has(slot.date)),
+  };
+}
+
+// e.g. "Week 2: Mon, Wed · Week 3: Fri"
+export function formatSlots(slots: ProgramSlot[]): string {
+  const byWeek = new Map<number, string[]>();
+  for (const slot of slots) {
+    const days = byWeek.get(slot.week) || [];
+    days.push((dayNumberToName[slot.dayOfWeek] || "").slice(0, 3));
+    byWeek.set(slot.week, days);
+  }
+
+  return [...byWeek.entries()]
+    .map(([week, days]) => `Week ${week}: ${days.join(", ")}`)
+    .join(" · ");
+}
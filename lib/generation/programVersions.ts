@@ -0,0 +1,356 @@
+import { toDateKey } from "@/lib/generation/programSlots";
+import { supabase } from "@/lib/supabase/client";
+import { loadLoggedWorkoutIds } from "@/lib/workouts/workoutResults";
+
+// Each generation is recorded as a numbered version of the program: the
+// config that produced it plus the workouts it left behind.
+
+export type ProgramVersionSource = "generation" | "baseline" | "restore";
+
+// Program columns that shape a generation
+const PROGRAM_CONFIG_FIELDS = [
+  "name",
+  "description",
+  "duration_weeks",
+  "focus_area",
+  "goal",
+  "difficulty",
+  "training_methodology",
+  "reference_input",
+  "session_details",
+  "program_overview",
+  "workout_format",
+  "gym_details",
+  "calendar_data",
+  "periodization",
+] as const;
+
+export type ProgramConfigField = (typeof PROGRAM_CONFIG_FIELDS)[number];
+export type ProgramConfigSnapshot = Partial<
+  Record<ProgramConfigField, unknown>
+>;
+
+export type VersionWorkout = {
+  // The program_workouts row, so a restore can update it in place; missing
+  // from versions recorded before ids were kept
+  id?: string;
+  title: string;
+  body: string;
+  tags: string[];
+  scheduled_date: string | null;
+  completed: boolean;
+};
+
+export type ProgramVersion = {
+  id: string;
+  program_id: string;
+  version_number: number;
+  source: ProgramVersionSource;
+  program_config: ProgramConfigSnapshot;
+  workouts: VersionWorkout[];
+  workout_count: number;
+  created_at: string;
+};
+
+export type ConfigChange = {
+  field: ProgramConfigField;
+  before: unknown;
+  after: unknown;
+};
+
+export type WorkoutChange = {
+  date: string | null;
+  before?: VersionWorkout;
+  after?: VersionWorkout;
+};
+
+export type ProgramVersionDiff = {
+  config: ConfigChange[];
+  added: WorkoutChange[];
+  removed: WorkoutChange[];
+  changed: WorkoutChange[];
+  unchangedCount: number;
+};
+
+export async function listProgramVersions(
+  programId: string,
+): Promise<ProgramVersion[]> {
+  const { data, error } = await supabase
+    .from("program_versions")
+    .select("*")
+    .eq("program_id", programId)
+    .order("version_number", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ProgramVersion[];
+}
+
+// Current config and workouts of a program
+async function loadProgramSnapshot(programId: string) {
+  const { data: program, error: programError } = await supabase
+    .from("programs")
+    .select(PROGRAM_CONFIG_FIELDS.join(", "))
+    .eq("id", programId)
+    .single();
+
+  if (programError) throw programError;
+
+  const { data: workouts, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select("id, title, body, tags, scheduled_date, completed")
+    .eq("program_id", programId)
+    .eq("is_reference", false)
+    .order("scheduled_date", { ascending: true });
+
+  if (workoutsError) throw workoutsError;
+
+  return {
+    config: (program || {}) as ProgramConfigSnapshot,
+    workouts: (workouts || []).map(
+      (workout): VersionWorkout => ({
+        id: workout.id,
+        title: workout.title,
+        body: workout.body || "",
+        tags: Array.isArray(workout.tags) ? workout.tags : [],
+        scheduled_date: workout.scheduled_date,
+        completed: !!workout.completed,
+      }),
+    ),
+  };
+}
+
+/**
+ * Records the program as it is now as the next version
+ */
+export async function createProgramVersion(
+  programId: string,
+  source: ProgramVersionSource = "generation",
+): Promise<ProgramVersion> {
+  const snapshot = await loadProgramSnapshot(programId);
+
+  const { data: latest, error: latestError } = await supabase
+    .from("program_versions")
+    .select("version_number")
+    .eq("program_id", programId)
+    .order("version_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+
+  const { data, error } = await supabase
+    .from("program_versions")
+    .insert({
+      program_id: programId,
+      version_number: (latest?.version_number ?? 0) + 1,
+      source,
+      program_config: snapshot.config,
+      workouts: snapshot.workouts,
+      workout_count: snapshot.workouts.length,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ProgramVersion;
+}
+
+/**
+ * Snapshots a program that has workouts but no history yet
+ * Called before a run replaces workouts, so programs generated before
+ * versioning existed can still be restored.
+ */
+export async function ensureBaselineVersion(programId: string): Promise<void> {
+  const { count, error } = await supabase
+    .from("program_versions")
+    .select("id", { count: "exact", head: true })
+    .eq("program_id", programId);
+
+  if (error) throw error;
+  if (count) return;
+
+  const { count: workoutCount, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select("id", { count: "exact", head: true })
+    .eq("program_id", programId)
+    .eq("is_reference", false);
+
+  if (workoutsError) throw workoutsError;
+  if (!workoutCount) return;
+
+  await createProgramVersion(programId, "baseline");
+}
+
+/**
+ * Puts a program back to an earlier version
+ * The current state is recorded first, so a restore can itself be undone.
+ * Workouts still in the program are updated in place, so their results and
+ * set logs stay attached; completion is history and is left as it is.
+ * Missing workouts are inserted before extra ones are removed, and extra
+ * workouts that are completed or have logged results are kept.
+ */
+export async function restoreProgramVersion(
+  version: ProgramVersion,
+): Promise<void> {
+  const programId = version.program_id;
+  await createProgramVersion(programId, "restore");
+  const current = await loadProgramSnapshot(programId);
+
+  const { error: programError } = await supabase
+    .from("programs")
+    .update({
+      ...version.program_config,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", programId);
+
+  if (programError) throw programError;
+
+  const { data: program, error: entityError } = await supabase
+    .from("programs")
+    .select("entity_id")
+    .eq("id", programId)
+    .single();
+
+  if (entityError) throw entityError;
+
+  // Match by id, or by day for versions recorded without ids
+  const unmatched = new Map(
+    current.workouts.map((workout) => [workout.id as string, workout]),
+  );
+  const matches: [string, VersionWorkout][] = [];
+  const missing: VersionWorkout[] = [];
+  for (const workout of version.workouts) {
+    const dateKey = toDateKey(workout.scheduled_date);
+    const match = workout.id
+      ? unmatched.get(workout.id)
+      : [...unmatched.values()].find(
+          (candidate) =>
+            dateKey && toDateKey(candidate.scheduled_date) === dateKey,
+        );
+    if (match?.id) {
+      unmatched.delete(match.id);
+      matches.push([match.id, workout]);
+    } else {
+      missing.push(workout);
+    }
+  }
+
+  for (const [id, workout] of matches) {
+    const { error: updateError } = await supabase
+      .from("program_workouts")
+      .update({
+        title: workout.title,
+        body: workout.body,
+        tags: workout.tags,
+        scheduled_date: workout.scheduled_date,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+
+    if (updateError) throw updateError;
+  }
+
+  if (missing.length > 0) {
+    const { error: insertError } = await supabase
+      .from("program_workouts")
+      .insert(
+        missing.map((workout) => ({
+          program_id: programId,
+          entity_id: program.entity_id,
+          title: workout.title,
+          body: workout.body,
+          tags: workout.tags,
+          scheduled_date: workout.scheduled_date,
+          completed: workout.completed,
+          is_reference: false,
+        })),
+      );
+
+    if (insertError) throw insertError;
+  }
+
+  const extra = [...unmatched.values()].filter((workout) => !workout.completed);
+  const logged = await loadLoggedWorkoutIds(
+    extra.map((workout) => workout.id as string),
+  );
+  const removedIds = extra
+    .map((workout) => workout.id as string)
+    .filter((id) => !logged.has(id));
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("program_workouts")
+      .delete()
+      .in("id", removedIds);
+
+    if (deleteError) throw deleteError;
+  }
+}
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Workouts are matched by scheduled day; unscheduled ones by position
+function keyWorkouts(workouts: VersionWorkout[]) {
+  const keyed = new Map<string, VersionWorkout>();
+  workouts.forEach((workout, index) => {
+    const key = toDateKey(workout.scheduled_date) ?? `unscheduled:${index}`;
+    if (!keyed.has(key)) keyed.set(key, workout);
+  });
+  return keyed;
+}
+
+/**
+ * Compares two versions, from `base` to `target`
+ */
+export function diffProgramVersions(
+  base: ProgramVersion,
+  target: ProgramVersion,
+): ProgramVersionDiff {
+  const config = PROGRAM_CONFIG_FIELDS.filter(
+    (field) =>
+      !isSame(base.program_config[field], target.program_config[field]),
+  ).map((field) => ({
+    field,
+    before: base.program_config[field],
+    after: target.program_config[field],
+  }));
+
+  const before = keyWorkouts(base.workouts);
+  const after = keyWorkouts(target.workouts);
+  const diff: ProgramVersionDiff = {
+    config,
+    added: [],
+    removed: [],
+    changed: [],
+    unchangedCount: 0,
+  };
+
+  for (const [key, workout] of before) {
+    const date = key.startsWith("unscheduled:") ? null : key;
+    const next = after.get(key);
+    if (!next) {
+      diff.removed.push({ date, before: workout });
+    } else if (workout.title !== next.title || workout.body !== next.body) {
+      diff.changed.push({ date, before: workout, after: next });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  for (const [key, workout] of after) {
+    if (!before.has(key)) {
+      const date = key.startsWith("unscheduled:") ? null : key;
+      diff.added.push({ date, after: workout });
+    }
+  }
+
+  const byDate = (a: WorkoutChange, b: WorkoutChange) =>
+    (a.date ?? "").localeCompare(b.date ?? "");
+  diff.added.sort(byDate);
+  diff.removed.sort(byDate);
+  diff.changed.sort(byDate);
+
+  return diff;
+}
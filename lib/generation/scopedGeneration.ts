@@ -0,0 +1,134 @@
+import {
+  type DateRange,
+  isDateInRange,
+  type ProgramSlot,
+  toDateKey,
+} from "@/lib/generation/programSlots";
+import { supabase } from "@/lib/supabase/client";
+import { loadLoggedWorkoutIds } from "@/lib/workouts/workoutResults";
+
+// Scoped generation rewrites part of a program (a week or date range) and
+// leaves everything outside it alone. Completed or logged workouts inside the
+// range are kept too; only the remaining slots are regenerated.
+
+// Days either side of the range sent to the server as context
+const CONTEXT_DAYS = 7;
+
+export type ContextWorkout = {
+  title: string;
+  body: string;
+  scheduled_date: string;
+  completed: boolean;
+};
+
+// An existing workout the run writes over, removed once its date is filled
+export type ReplacedWorkout = {
+  id: string;
+  date: string;
+};
+
+export type ScopedGenerationPlan = {
+  targetSlots: ProgramSlot[];
+  contextWorkouts: ContextWorkout[];
+  replacedWorkouts: ReplacedWorkout[];
+};
+
+type ExistingWorkout = {
+  id: string;
+  title: string;
+  body: string | null;
+  scheduled_date: string | null;
+  completed: boolean | null;
+};
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Plans a range for regeneration
+ * Returns the slots to regenerate, the surrounding workouts for context and
+ * the incomplete workouts in the range that the new ones will replace.
+ * Nothing is deleted here, so a failed or cancelled run leaves the range as
+ * it was (see removeReplacedWorkouts).
+ */
+export async function prepareScopedGeneration(
+  programId: string,
+  range: DateRange,
+  slots: ProgramSlot[],
+): Promise<ScopedGenerationPlan> {
+  const { data, error } = await supabase
+    .from("program_workouts")
+    .select("id, title, body, scheduled_date, completed")
+    .eq("program_id", programId)
+    .eq("is_reference", false)
+    .order("scheduled_date", { ascending: true });
+
+  if (error) throw error;
+
+  const contextRange: DateRange = {
+    startDate: shiftDateKey(range.startDate, -CONTEXT_DAYS),
+    endDate: shiftDateKey(range.endDate, CONTEXT_DAYS),
+  };
+
+  const workouts = (data || []) as ExistingWorkout[];
+  const logged = await loadLoggedWorkoutIds(
+    workouts.filter((workout) => !workout.completed).map(({ id }) => id),
+  );
+
+  const replacedWorkouts: ReplacedWorkout[] = [];
+  const keptDates = new Set<string>();
+  const contextWorkouts: ContextWorkout[] = [];
+
+  for (const workout of workouts) {
+    const dateKey = toDateKey(workout.scheduled_date);
+    if (!dateKey || !isDateInRange(dateKey, contextRange)) continue;
+
+    const inRange = isDateInRange(dateKey, range);
+    const kept = !!workout.completed || logged.has(workout.id);
+    if (inRange && !kept) {
+      replacedWorkouts.push({ id: workout.id, date: dateKey });
+      continue;
+    }
+
+    if (inRange) keptDates.add(dateKey);
+    contextWorkouts.push({
+      title: workout.title,
+      body: workout.body || "",
+      scheduled_date: dateKey,
+      completed: !!workout.completed,
+    });
+  }
+
+  return {
+    targetSlots: slots.filter(
+      (slot) => isDateInRange(slot.date, range) && !keptDates.has(slot.date),
+    ),
+    contextWorkouts,
+    replacedWorkouts,
+  };
+}
+
+/**
+ * Deletes the replaced workouts whose dates now have a new workout
+ * Dates the run didn't reach keep their old workout.
+ */
+export async function removeReplacedWorkouts(
+  replaced: ReplacedWorkout[],
+  filledDates: string[],
+): Promise<void> {
+  const filled = new Set(filledDates);
+  const ids = replaced
+    .filter((workout) => filled.has(workout.date))
+    .map(({ id }) => id);
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("program_workouts")
+    .delete()
+    .in("id", ids);
+
+  if (error) throw error;
+}
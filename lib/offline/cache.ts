@@ -0,0 +1,123 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  isNetworkError,
+  markOffline,
+  markOnline,
+} from "@/lib/offline/connectivity";
+
+// Last-known copies of programs and workouts, so screens still have
+// something to show on a gym floor without signal.
+
+const CACHE_PREFIX = "offline-cache:";
+
+export const cacheKeys = {
+  programs: "programs",
+  program: (programId: string) => `program:${programId}`,
+  programWorkouts: (programId: string) => `program_workouts:${programId}`,
+  calendar: "calendar",
+};
+
+export type CachedValue<T> = {
+  data: T;
+  cachedAt: string;
+};
+
+export async function readCache<T>(
+  key: string,
+): Promise<CachedValue<T> | null> {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    return stored ? (JSON.parse(stored) as CachedValue<T>) : null;
+  } catch (err) {
+    console.error("[OfflineCache] Failed to read", key, err);
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, data: T): Promise<void> {
+  try {
+    const value: CachedValue<T> = { data, cachedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.error("[OfflineCache] Failed to write", key, err);
+  }
+}
+
+// Drops every cached copy, e.g. when the coach signs out
+export async function clearOfflineCache(): Promise<void> {
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      key.startsWith(CACHE_PREFIX),
+    );
+    await AsyncStorage.multiRemove(keys);
+  } catch (err) {
+    console.error("[OfflineCache] Failed to clear:", err);
+  }
+}
+
+/**
+ * Runs a fetch and caches what it returns
+ * When the network is down, falls back to the last cached copy; without one
+ * the network error is rethrown.
+ */
+export async function fetchWithCache<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+): Promise<CachedValue<T> & { fromCache: boolean }> {
+  try {
+    const data = await fetcher();
+    markOnline();
+    writeCache(key, data);
+    return { data, cachedAt: new Date().toISOString(), fromCache: false };
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    markOffline();
+
+    const cached = await readCache<T>(key);
+    if (!cached) throw err;
+    console.log("[OfflineCache] Offline, using cached", key);
+    return { ...cached, fromCache: true };
+  }
+}
+
+// Query data for cache-backed queries; cachedAt is set when it came from
+// the offline cache rather than the server
+export type OfflineSnapshot<T> = {
+  value: T;
+  cachedAt: string | null;
+};
+
+export async function fetchSnapshot<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+): Promise<OfflineSnapshot<T>> {
+  const result = await fetchWithCache(key, fetcher);
+  return {
+    value: result.data,
+    cachedAt: result.fromCache ? result.cachedAt : null,
+  };
+}
+
+/**
+ * Finds a workout in any cached program, for opening a workout offline
+ */
+export async function findCachedWorkout<T extends { id: string }>(
+  workoutId: string,
+): Promise<CachedValue<T> | null> {
+  try {
+    const prefix = CACHE_PREFIX + cacheKeys.programWorkouts("");
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      key.startsWith(prefix),
+    );
+
+    for (const [, stored] of await AsyncStorage.multiGet(keys)) {
+      if (!stored) continue;
+      const cached = JSON.parse(stored) as CachedValue<T[]>;
+      const workout = cached.data.find((item) => item.id === workoutId);
+      if (workout) return { data: workout, cachedAt: cached.cachedAt };
+    }
+  } catch (err) {
+    console.error("[OfflineCache] Failed to search workouts:", err);
+  }
+  return null;
+}
@@ -0,0 +1,50 @@
+// Whether the backend is reachable, inferred from how requests turn out.
+// There's no network listener in the app; a failed request marks us
+// offline and the next one that gets through marks us online again.
+
+let online = true;
+const listeners = new Set<(online: boolean) => void>();
+
+export const isOnline = (): boolean => online;
+
+function setOnline(next: boolean) {
+  if (online === next) return;
+  online = next;
+  console.log(`[Connectivity] ${next ? "Online" : "Offline"}`);
+  for (const listener of listeners) {
+    listener(next);
+  }
+}
+
+export const markOnline = () => setOnline(true);
+export const markOffline = () => setOnline(false);
+
+export function subscribeToConnectivity(
+  listener: (online: boolean) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// supabase-js reports fetch failures as errors rather than throwing them
+const NETWORK_ERROR_PATTERNS = [
+  "network request failed",
+  "failed to fetch",
+  "fetch failed",
+  "networkerror",
+  "network error",
+  "unable to reach the server",
+];
+
+export function isNetworkError(error: unknown): boolean {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "object" && error && "message" in error
+        ? String(error.message)
+        : "";
+  const normalized = message.toLowerCase();
+  return NETWORK_ERROR_PATTERNS.some((pattern) => normalized.includes(pattern));
+}
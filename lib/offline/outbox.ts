@@ -0,0 +1,288 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { AppState } from "react-native";
+import {
+  isNetworkError,
+  isOnline,
+  markOffline,
+  markOnline,
+  subscribeToConnectivity,
+} from "@/lib/offline/connectivity";
+import { supabase } from "@/lib/supabase/client";
+
+// Workout changes made while offline, replayed in order once the backend is
+// reachable again.
+//
+// Conflicts are settled last-writer-wins on updated_at, which the client
+// sets on every write: a queued change only lands if nobody changed the row
+// after it was made. Realtime updates are overlaid with the same rule (see
+// applyPendingMutations), so screens agree with what replay will do.
+
+const OUTBOX_KEY = "offline-outbox";
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+export type WorkoutChanges = {
+  title?: string;
+  body?: string;
+  tags?: string[];
+  completed?: boolean;
+  completed_at?: string | null;
+  scheduled_date?: string;
+  notes?: string;
+};
+
+export type OutboxMutation = {
+  id: string;
+  kind: "complete" | "edit" | "delete";
+  workoutId: string;
+  programId?: string;
+  changes?: WorkoutChanges;
+  // When the change was made; written as the row's updated_at
+  queuedAt: string;
+};
+
+export type NewOutboxMutation = Omit<OutboxMutation, "id" | "queuedAt">;
+
+export type OutboxIssue = {
+  mutation: OutboxMutation;
+  reason: "conflict" | "failed";
+  message: string;
+};
+
+export type OutboxState = {
+  pending: OutboxMutation[];
+  issues: OutboxIssue[];
+  isFlushing: boolean;
+};
+
+let pending: OutboxMutation[] = [];
+let issues: OutboxIssue[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<(state: OutboxState) => void>();
+
+export const getOutboxState = (): OutboxState => ({
+  pending,
+  issues,
+  isFlushing: !!flushing,
+});
+
+function notify() {
+  const state = getOutboxState();
+  for (const listener of listeners) {
+    listener(state);
+  }
+}
+
+export function subscribeToOutbox(
+  listener: (state: OutboxState) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function loadOutbox(): Promise<void> {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(OUTBOX_KEY)
+      .then((stored) => {
+        pending = stored ? (JSON.parse(stored) as OutboxMutation[]) : [];
+        notify();
+      })
+      .catch((err) => {
+        console.error("[Outbox] Failed to load:", err);
+      });
+  }
+  return loaded;
+}
+
+async function savePending(next: OutboxMutation[]) {
+  pending = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[Outbox] Failed to save:", err);
+  }
+}
+
+/**
+ * Writes a mutation to program_workouts
+ * Replayed mutations are conditional on the row not having been changed
+ * since; returns false when that condition (or the row) is gone.
+ */
+async function applyMutation(
+  mutation: OutboxMutation,
+  conditional: boolean,
+): Promise<boolean> {
+  const base =
+    mutation.kind === "delete"
+      ? supabase.from("program_workouts").delete()
+      : supabase
+          .from("program_workouts")
+          .update({ ...mutation.changes, updated_at: mutation.queuedAt });
+
+  let query = base.eq("id", mutation.workoutId);
+  if (conditional) {
+    query = query.or(
+      `updated_at.is.null,updated_at.lte."${mutation.queuedAt}"`,
+    );
+  }
+
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  return !conditional || (data?.length ?? 0) > 0;
+}
+
+/**
+ * Applies a workout change now, or queues it if the backend is unreachable
+ * Once anything is queued, later changes queue behind it so they replay in
+ * order. Errors other than network failures are thrown to the caller.
+ */
+export async function runOrQueueMutation(
+  input: NewOutboxMutation,
+): Promise<{ queued: boolean }> {
+  await loadOutbox();
+  const mutation: OutboxMutation = {
+    ...input,
+    id: Crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+  };
+
+  if (pending.length === 0 && isOnline()) {
+    try {
+      await applyMutation(mutation, false);
+      markOnline();
+      return { queued: false };
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      markOffline();
+    }
+  }
+
+  console.log(`[Outbox] Queued ${mutation.kind} for ${mutation.workoutId}`);
+  await savePending([...pending, mutation]);
+  return { queued: true };
+}
+
+/**
+ * Replays queued mutations in order
+ * Stops at the first network failure and leaves the rest queued. Mutations
+ * that lose a conflict or are rejected by the server are dropped and
+ * reported as issues.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    await loadOutbox();
+    if (pending.length === 0) return;
+    notify();
+
+    while (pending.length > 0) {
+      const [mutation, ...rest] = pending;
+      try {
+        const applied = await applyMutation(mutation, true);
+        markOnline();
+        // Cleared while the write was in flight (the coach signed out)
+        if (pending[0] !== mutation) return;
+        if (!applied) {
+          issues = [
+            ...issues,
+            {
+              mutation,
+              reason: "conflict",
+              message:
+                "This workout was changed or deleted elsewhere while you were offline",
+            },
+          ];
+        }
+      } catch (err) {
+        if (isNetworkError(err)) {
+          markOffline();
+          return;
+        }
+        console.error("[Outbox] Dropping rejected mutation:", err);
+        issues = [
+          ...issues,
+          {
+            mutation,
+            reason: "failed",
+            message:
+              err instanceof Error ? err.message : "Failed to sync change",
+          },
+        ];
+      }
+      await savePending(rest);
+    }
+    console.log("[Outbox] Flushed");
+  })().finally(() => {
+    flushing = null;
+    notify();
+  });
+
+  return flushing;
+}
+
+// Drops every queued change, e.g. when the coach signs out, so none of them
+// replay under the next coach's session
+export async function clearOutbox(): Promise<void> {
+  await loadOutbox();
+  issues = [];
+  await savePending([]);
+}
+
+export function dismissOutboxIssues(): void {
+  issues = [];
+  notify();
+}
+
+/**
+ * Overlays queued changes on rows fetched from the server or realtime
+ * A queued change only applies if the row hasn't been updated after it was
+ * made, matching the conditional write flushOutbox performs.
+ */
+export function applyPendingMutations<
+  T extends { id: string; updated_at?: string | null },
+>(rows: T[], mutations: OutboxMutation[] = pending): T[] {
+  if (mutations.length === 0) return rows;
+
+  return mutations.reduce<T[]>((current, mutation) => {
+    return current.flatMap((row) => {
+      if (row.id !== mutation.workoutId) return [row];
+      if (
+        row.updated_at &&
+        Date.parse(row.updated_at) > Date.parse(mutation.queuedAt)
+      ) {
+        return [row];
+      }
+      if (mutation.kind === "delete") return [];
+      return [{ ...row, ...mutation.changes, updated_at: mutation.queuedAt }];
+    });
+  }, rows);
+}
+
+/**
+ * Replays the outbox on launch, when the app returns to the foreground or
+ * a request gets through again, and periodically while changes are waiting. Returns a cleanup function.
+ */
+export function startOutboxSync(): () => void {
+  flushOutbox();
+
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") flushOutbox();
+  });
+  const unsubscribeConnectivity = subscribeToConnectivity((online) => {
+    if (online) flushOutbox();
+  });
+  const intervalId = setInterval(() => {
+    if (pending.length > 0) flushOutbox();
+  }, SYNC_INTERVAL_MS);
+
+  return () => {
+    appStateSubscription.remove();
+    unsubscribeConnectivity();
+    clearInterval(intervalId);
+  };
+}
@@ -0,0 +1,141 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { OfflineSnapshot } from "@/lib/offline/cache";
+import { queryKeys } from "@/lib/query/queryKeys";
+
+// Writes a single changed row into every query that holds it, so one
+// realtime event (or optimistic update) reaches all screens at once.
+
+type Row = { id: string };
+type WorkoutRow = Row & { program_id: string };
+type ProgramRow = Row & { deleted_at?: string | null };
+
+// The dashboard, client overview and calendar all hold programs with a slim
+// copy of their workouts
+type DashboardData = {
+  programs: ProgramRow[];
+  workouts: WorkoutRow[];
+};
+
+function patchProgramSummaries(
+  queryClient: QueryClient,
+  update: (prev: DashboardData) => DashboardData,
+): void {
+  for (const queryKey of [
+    queryKeys.dashboardAll,
+    queryKeys.clientOverviewAll,
+    queryKeys.calendar,
+  ]) {
+    queryClient.setQueriesData<DashboardData>(
+      { queryKey },
+      (prev) => prev && update(prev),
+    );
+  }
+}
+
+function upsertRow<T extends Row>(rows: T[], row: T): T[] {
+  return rows.some((existing) => existing.id === row.id)
+    ? rows.map((existing) =>
+        existing.id === row.id ? { ...existing, ...row } : existing,
+      )
+    : [...rows, row];
+}
+
+const withoutRow = <T extends Row>(rows: T[], id: string) =>
+  rows.filter((row) => row.id !== id);
+
+export function upsertWorkoutInCache<T extends WorkoutRow>(
+  queryClient: QueryClient,
+  workout: T,
+): void {
+  queryClient.setQueryData<OfflineSnapshot<T[]>>(
+    queryKeys.programWorkouts(workout.program_id),
+    (prev) => prev && { ...prev, value: upsertRow(prev.value, workout) },
+  );
+
+  queryClient.setQueryData<OfflineSnapshot<T | null>>(
+    queryKeys.workout(workout.id),
+    (prev) =>
+      prev && {
+        ...prev,
+        value: prev.value ? { ...prev.value, ...workout } : workout,
+      },
+  );
+
+  patchProgramSummaries(queryClient, (prev) =>
+    prev.programs.some((program) => program.id === workout.program_id)
+      ? { ...prev, workouts: upsertRow(prev.workouts, workout) }
+      : prev,
+  );
+}
+
+export function removeWorkoutFromCache(
+  queryClient: QueryClient,
+  workoutId: string,
+): void {
+  queryClient.setQueriesData<OfflineSnapshot<Row[]>>(
+    { queryKey: queryKeys.programWorkoutsAll },
+    (prev) => prev && { ...prev, value: withoutRow(prev.value, workoutId) },
+  );
+
+  queryClient.setQueryData<OfflineSnapshot<Row | null>>(
+    queryKeys.workout(workoutId),
+    (prev) => prev && { ...prev, value: null },
+  );
+
+  patchProgramSummaries(queryClient, (prev) => ({
+    ...prev,
+    workouts: withoutRow(prev.workouts, workoutId),
+  }));
+}
+
+export function upsertProgramInCache<T extends ProgramRow>(
+  queryClient: QueryClient,
+  program: T,
+): void {
+  // Programs are soft-deleted
+  if (program.deleted_at) {
+    removeProgramFromCache(queryClient, program.id);
+    return;
+  }
+
+  queryClient.setQueryData<T>(
+    queryKeys.program(program.id),
+    (prev) => prev && { ...prev, ...program },
+  );
+
+  // Only existing list entries are patched; which programs belong in a list
+  // depends on the coach's entities, so new ones come in with a refetch
+  queryClient.setQueryData<T[]>(queryKeys.programs, (prev) =>
+    prev?.map((existing) =>
+      existing.id === program.id ? { ...existing, ...program } : existing,
+    ),
+  );
+
+  patchProgramSummaries(queryClient, (prev) => ({
+    ...prev,
+    programs: prev.programs.map((existing) =>
+      existing.id === program.id ? { ...existing, ...program } : existing,
+    ),
+  }));
+}
+
+export function removeProgramFromCache(
+  queryClient: QueryClient,
+  programId: string,
+): void {
+  queryClient.setQueryData<Row[]>(
+    queryKeys.programs,
+    (prev) => prev && withoutRow(prev, programId),
+  );
+
+  patchProgramSummaries(queryClient, (prev) => ({
+    ...prev,
+    programs: withoutRow(prev.programs, programId),
+    workouts: prev.workouts.filter(
+      (workout) => workout.program_id !== programId,
+    ),
+  }));
+
+  queryClient.removeQueries({ queryKey: queryKeys.program(programId) });
+  queryClient.removeQueries({ queryKey: queryKeys.programWorkouts(programId) });
+}
@@ -0,0 +1,21 @@
+// Query keys shared between hooks and the realtime sync that patches them
+
+export const queryKeys = {
+  programs: ["programs"] as const,
+  program: (programId: string) => ["program", programId] as const,
+  programWorkoutsAll: ["program-workouts"] as const,
+  programWorkouts: (programId: string) =>
+    ["program-workouts", programId] as const,
+  workoutAll: ["workout"] as const,
+  workout: (workoutId: string) => ["workout", workoutId] as const,
+  workoutResults: (workoutId: string) =>
+    ["workout-results", workoutId] as const,
+  setLogs: (workoutId: string) => ["set-logs", workoutId] as const,
+  clientOverviewAll: ["client-overview"] as const,
+  clientOverview: (entityId: string) => ["client-overview", entityId] as const,
+  metricHistory: (entityId: string) => ["metric-history", entityId] as const,
+  classRoster: (classId: string) => ["class-roster", classId] as const,
+  calendar: ["calendar"] as const,
+  dashboardAll: ["dashboard"] as const,
+  dashboard: (userId: string) => ["dashboard", userId] as const,
+};
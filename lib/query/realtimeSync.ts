@@ -0,0 +1,61 @@
+import type { QueryClient } from "@tanstack/react-query";
+import {
+  removeProgramFromCache,
+  removeWorkoutFromCache,
+  upsertProgramInCache,
+  upsertWorkoutInCache,
+} from "@/lib/query/cachePatches";
+import { queryKeys } from "@/lib/query/queryKeys";
+import { supabase } from "@/lib/supabase/client";
+
+/**
+ * Subscribes once to programs and program_workouts and patches the query
+ * cache from each postgres_changes payload. RLS limits the rows delivered
+ * to the signed-in coach's. Query hooks don't subscribe themselves: their
+ * realtime updates all arrive through these cache patches. Returns a cleanup
+ * function.
+ */
+export function startRealtimeSync(queryClient: QueryClient): () => void {
+  const channel = supabase
+    .channel("query-cache-sync")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "program_workouts" },
+      (payload) => {
+        if (payload.eventType === "DELETE") {
+          // Deletes only carry the primary key
+          removeWorkoutFromCache(queryClient, payload.old.id);
+        } else {
+          upsertWorkoutInCache(
+            queryClient,
+            payload.new as { id: string; program_id: string },
+          );
+        }
+      },
+    )
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "programs" },
+      (payload) => {
+        if (payload.eventType === "DELETE") {
+          removeProgramFromCache(queryClient, payload.old.id);
+        } else {
+          upsertProgramInCache(queryClient, payload.new as { id: string });
+        }
+
+        if (payload.eventType === "INSERT") {
+          queryClient.invalidateQueries({ queryKey: queryKeys.programs });
+          queryClient.invalidateQueries({ queryKey: queryKeys.dashboardAll });
+          queryClient.invalidateQueries({
+            queryKey: queryKeys.clientOverviewAll,
+          });
+          queryClient.invalidateQueries({ queryKey: queryKeys.calendar });
+        }
+      },
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
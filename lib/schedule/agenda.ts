@@ -0,0 +1,95 @@
+import {
+  addDays,
+  type CalendarWorkout,
+  groupByDate,
+} from "@/lib/schedule/calendar";
+
+// The coach's agenda across every client and class: today's workouts by who
+// they're for, and what's coming over the next week.
+
+export type AgendaProgram = {
+  id: string;
+  name: string;
+  entity_id?: string;
+};
+
+export type AgendaEntry<T extends CalendarWorkout = CalendarWorkout> = {
+  workout: T;
+  program?: AgendaProgram;
+  entityId: string | null;
+  entityName: string;
+};
+
+export type EntityAgenda<T extends CalendarWorkout = CalendarWorkout> = {
+  entityId: string | null;
+  entityName: string;
+  entries: AgendaEntry<T>[];
+};
+
+export type DayAgenda<T extends CalendarWorkout = CalendarWorkout> = {
+  date: string;
+  entries: AgendaEntry<T>[];
+};
+
+// Counted like the dashboard stats: tomorrow up to a week from today
+export const UPCOMING_DAYS = 7;
+
+function toEntries<T extends CalendarWorkout>(
+  workouts: T[],
+  programs: AgendaProgram[],
+  entityNames: Map<string, string>,
+): AgendaEntry<T>[] {
+  return workouts.map((workout) => {
+    const program = programs.find(({ id }) => id === workout.program_id);
+    const entityId = workout.entity_id ?? program?.entity_id ?? null;
+    return {
+      workout,
+      program,
+      entityId,
+      entityName: (entityId && entityNames.get(entityId)) || "Unassigned",
+    };
+  });
+}
+
+// `today` is the device's date (see localDateKey), not the UTC one
+export function buildAgenda<T extends CalendarWorkout>(
+  workouts: T[],
+  programs: AgendaProgram[],
+  entityNames: Map<string, string>,
+  today: string,
+): { today: EntityAgenda<T>[]; upcoming: DayAgenda<T>[] } {
+  const byDate = groupByDate(workouts);
+
+  const byEntity = new Map<string, EntityAgenda<T>>();
+  for (const entry of toEntries(
+    byDate.get(today) ?? [],
+    programs,
+    entityNames,
+  )) {
+    const key = entry.entityId ?? "";
+    const group = byEntity.get(key) ?? {
+      entityId: entry.entityId,
+      entityName: entry.entityName,
+      entries: [],
+    };
+    group.entries.push(entry);
+    byEntity.set(key, group);
+  }
+
+  const upcoming = Array.from({ length: UPCOMING_DAYS }, (_, index) => {
+    const date = addDays(today, index + 1);
+    return {
+      date,
+      entries: toEntries(byDate.get(date) ?? [], programs, entityNames).sort(
+        (a, b) => a.entityName.localeCompare(b.entityName),
+      ),
+    };
+  }).filter((day) => day.entries.length > 0);
+
+  return {
+    today: [...byEntity.values()].sort((a, b) =>
+      a.entityName.localeCompare(b.entityName),
+    ),
+    upcoming,
+  };
+}
@@ -0,0 +1,207 @@
+import { toDateKey } from "@/lib/generation/programSlots";
+
+// Calendar maths over YYYY-MM-DD keys (UTC, like toDateKey) and the plans
+// behind rescheduling: moving one workout, swapping two days, shifting the
+// rest of a program and resuming it after a pause. Weeks start on Monday.
+
+export type CalendarWorkout = {
+  id: string;
+  program_id: string;
+  entity_id?: string | null;
+  title: string;
+  scheduled_date?: string | null;
+  // Older workouts carry their date in tags: { scheduled_date } or { date }
+  tags?: unknown;
+  completed?: boolean | null;
+  notes?: string | null;
+  updated_at?: string | null;
+};
+
+export type ScheduleChange = {
+  workout: CalendarWorkout;
+  from: string | null;
+  to: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The day a workout is scheduled on, from scheduled_date or its tags
+ */
+export function workoutDateKey(workout: {
+  scheduled_date?: string | null;
+  tags?: unknown;
+}): string | null {
+  if (workout.scheduled_date) return toDateKey(workout.scheduled_date);
+  const tags =
+    workout.tags && typeof workout.tags === "object"
+      ? (workout.tags as { scheduled_date?: unknown; date?: unknown })
+      : null;
+  const tagged = tags?.scheduled_date || tags?.date;
+  return typeof tagged === "string" ? toDateKey(tagged) : null;
+}
+
+/**
+ * The device's calendar date as a key
+ * Date-only workouts are stored at midnight UTC on their day, so "today" is
+ * the local date rather than the UTC one, which runs ahead in the evening
+ * west of UTC.
+ */
+export function localDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) /
+      DAY_MS,
+  );
+
+export function startOfWeek(dateKey: string): string {
+  const day = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay();
+  return addDays(dateKey, -((day + 6) % 7));
+}
+
+export const weekDays = (dateKey: string) =>
+  Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(dateKey), index));
+
+/**
+ * Whole weeks covering the month of `dateKey`, for a month grid
+ */
+export function monthGrid(dateKey: string): string[][] {
+  const firstOfMonth = `${dateKey.slice(0, 7)}-01`;
+  const weeks: string[][] = [];
+  let weekStart = startOfWeek(firstOfMonth);
+
+  while (weekStart.slice(0, 7) <= firstOfMonth.slice(0, 7)) {
+    weeks.push(weekDays(weekStart));
+    weekStart = addDays(weekStart, 7);
+  }
+  return weeks;
+}
+
+export const addMonths = (dateKey: string, months: number) => {
+  const date = new Date(`${dateKey.slice(0, 7)}-01T00:00:00.000Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().split("T")[0];
+};
+
+export const isSameMonth = (a: string, b: string) =>
+  a.slice(0, 7) === b.slice(0, 7);
+
+export function groupByDate<T extends CalendarWorkout>(
+  workouts: T[],
+): Map<string, T[]> {
+  const byDate = new Map<string, T[]>();
+  for (const workout of workouts) {
+    const dateKey = workoutDateKey(workout);
+    if (!dateKey) continue;
+    byDate.set(dateKey, [...(byDate.get(dateKey) ?? []), workout]);
+  }
+  return byDate;
+}
+
+/**
+ * The new scheduled_date for a move, keeping the original time of day
+ */
+export function rescheduledDate(
+  original: string | null | undefined,
+  dateKey: string,
+): string {
+  return original && original.length > 10
+    ? `${dateKey}${original.slice(10)}`
+    : `${dateKey}T00:00:00.000Z`;
+}
+
+export function planMove(
+  workout: CalendarWorkout,
+  dateKey: string,
+): ScheduleChange[] {
+  const from = workoutDateKey(workout);
+  return from === dateKey ? [] : [{ workout, from, to: dateKey }];
+}
+
+/**
+ * Moves the incomplete workouts on one day to the other, and the other way
+ * round; completed ones stay on the day they were done
+ */
+export function planSwap(
+  workouts: CalendarWorkout[],
+  first: string,
+  second: string,
+): ScheduleChange[] {
+  if (first === second) return [];
+  return workouts.flatMap((workout) => {
+    if (workout.completed) return [];
+    const from = workoutDateKey(workout);
+    if (from === first) return [{ workout, from, to: second }];
+    if (from === second) return [{ workout, from, to: first }];
+    return [];
+  });
+}
+
+/**
+ * Pushes every incomplete workout on or after `fromDate` back by `days`,
+ * e.g. 7 when a client misses a week
+ */
+export function planShift(
+  workouts: CalendarWorkout[],
+  fromDate: string,
+  days: number,
+): ScheduleChange[] {
+  if (days === 0) return [];
+  return workouts.flatMap((workout) => {
+    const from = workoutDateKey(workout);
+    if (!from || from < fromDate || workout.completed) return [];
+    return [{ workout, from, to: addDays(from, days) }];
+  });
+}
+
+/**
+ * Lays the incomplete workouts from `pausedFrom` onward onto training days
+ * (0 = Sunday) starting at `resumeOn`, in their original order. Workouts
+ * that shared a day stay together. Without training days the gaps between
+ * workouts are kept instead.
+ */
+export function planResume(
+  workouts: CalendarWorkout[],
+  pausedFrom: string,
+  resumeOn: string,
+  daysOfWeek: number[],
+): ScheduleChange[] {
+  if (daysOfWeek.length === 0) {
+    return planShift(workouts, pausedFrom, daysBetween(pausedFrom, resumeOn));
+  }
+
+  const paused = workouts
+    .map((workout) => ({ workout, from: workoutDateKey(workout) }))
+    .filter(
+      (entry): entry is { workout: CalendarWorkout; from: string } =>
+        !!entry.from && entry.from >= pausedFrom && !entry.workout.completed,
+    )
+    .sort((a, b) => a.from.localeCompare(b.from));
+
+  const isTrainingDay = (dateKey: string) =>
+    daysOfWeek.includes(new Date(`${dateKey}T00:00:00.000Z`).getUTCDay());
+
+  const changes: ScheduleChange[] = [];
+  let day = resumeOn;
+  let previous: string | null = null;
+  for (const { workout, from } of paused) {
+    if (from !== previous) {
+      if (previous) day = addDays(day, 1);
+      while (!isTrainingDay(day)) day = addDays(day, 1);
+      previous = from;
+    }
+    if (day !== from) changes.push({ workout, from, to: day });
+  }
+  return changes;
+}
@@ -0,0 +1,196 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  addDays,
+  type CalendarWorkout,
+  workoutDateKey,
+} from "@/lib/schedule/calendar";
+import {
+  isStructured,
+  parseWorkout,
+  summarizeSection,
+  visibleSections,
+} from "@/lib/workouts/workoutParser";
+
+// iCalendar (RFC 5545) export of a program's workouts. Each event's UID comes
+// from its workout id, so importing a fresh export after a reschedule updates
+// the events already in the calendar instead of adding copies.
+//
+// This is a one-off export. A subscription feed that calendars poll needs a
+// backend route serving the same text; it isn't built yet (see "Program
+// Calendar Feed" in docs/backend-modifications.md).
+
+export type IcsWorkout = CalendarWorkout & { body?: string | null };
+
+type ProgramCalendarExport = {
+  programName: string;
+  workouts: IcsWorkout[];
+  // Session length for timed workouts; session_details.duration
+  durationMinutes?: number;
+  // DTSTAMP; defaults to now
+  exportedAt?: Date;
+};
+
+const DEFAULT_DURATION_MINUTES = 60;
+const DESCRIPTION_LINES = 6;
+
+export const workoutEventUid = (workoutId: string) =>
+  `workout-${workoutId}@halteres.ai`;
+
+// 2026-10-19T09:30:00.000Z -> 20261019T093000Z
+const formatUtc = (date: Date) =>
+  `${date.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`;
+
+const formatDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets of UTF-8, continuing with a space.
+// Folds fall between code points, so multi-byte characters and emoji stay
+// whole.
+const FOLD_OCTETS = 75;
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0) ?? 0);
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * A short plain-text summary of a workout body: its section summaries when
+ * structured, otherwise its first lines
+ */
+export function describeWorkout(body: string): string {
+  const parsed = parseWorkout(body);
+  const lines = isStructured(parsed)
+    ? visibleSections(parsed).map(summarizeSection)
+    : body
+        .split("\n")
+        .map((line) => line.replace(/[#*_`]/g, "").trim())
+        .filter(Boolean);
+  return lines.slice(0, DESCRIPTION_LINES).join("\n");
+}
+
+// Midnight UTC is how date-only schedules are stored; those become all-day
+// events rather than landing at midnight (or the evening before) locally
+function eventTiming(
+  workout: IcsWorkout,
+  durationMinutes: number,
+): string[] | null {
+  const dateKey = workoutDateKey(workout);
+  if (!dateKey) return null;
+
+  const start = workout.scheduled_date
+    ? new Date(workout.scheduled_date)
+    : null;
+  if (
+    start &&
+    !Number.isNaN(start.getTime()) &&
+    start.toISOString().slice(11, 19) !== "00:00:00"
+  ) {
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    return [`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`];
+  }
+  return [
+    `DTSTART;VALUE=DATE:${formatDate(dateKey)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(dateKey, 1))}`,
+  ];
+}
+
+/**
+ * The .ics text for a program's scheduled workouts; unscheduled ones are
+ * left out
+ */
+export function buildProgramCalendar({
+  programName,
+  workouts,
+  durationMinutes = DEFAULT_DURATION_MINUTES,
+  exportedAt = new Date(),
+}: ProgramCalendarExport): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Halteres//Program Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(programName)}`,
+  ];
+
+  for (const workout of workouts) {
+    const timing = eventTiming(workout, durationMinutes);
+    if (!timing) continue;
+
+    const updatedAt = workout.updated_at ? new Date(workout.updated_at) : null;
+    const modified =
+      updatedAt && !Number.isNaN(updatedAt.getTime()) ? updatedAt : null;
+    const description = workout.body ? describeWorkout(workout.body) : "";
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${workoutEventUid(workout.id)}`,
+      `DTSTAMP:${formatUtc(exportedAt)}`,
+      ...timing,
+      `SUMMARY:${escapeText(workout.title)}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      // Minutes since the epoch: grows with every edit so calendars keep the
+      // newest copy of an event
+      ...(modified
+        ? [
+            `LAST-MODIFIED:${formatUtc(modified)}`,
+            `SEQUENCE:${Math.floor(modified.getTime() / 60000)}`,
+          ]
+        : []),
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Writes a calendar to a .ics file in the cache directory and opens the
+ * share sheet for it, so calendar apps are offered the file to import
+ */
+export async function shareCalendarFile(
+  programName: string,
+  calendar: string,
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing isn't available on this device");
+  }
+
+  const fileName = programName.replace(/[^\w -]+/g, "").trim() || "program";
+  const file = new File(Paths.cache, `${fileName}.ics`);
+  file.create({ overwrite: true });
+  file.write(calendar);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/calendar",
+    UTI: "com.apple.ical.ics",
+    dialogTitle: `${programName} calendar`,
+  });
+}
@@ -0,0 +1,237 @@
+import { dayNameToNumber } from "@/lib/constants/programConfig";
+import {
+  isNetworkError,
+  isOnline,
+  markOffline,
+} from "@/lib/offline/connectivity";
+import {
+  addDays,
+  type CalendarWorkout,
+  daysBetween,
+  planResume,
+  planShift,
+  type ScheduleChange,
+  workoutDateKey,
+} from "@/lib/schedule/calendar";
+import { applyScheduleChanges } from "@/lib/schedule/reschedule";
+import { supabase } from "@/lib/supabase/client";
+
+// Program-level date operations: shifting everything left in a program,
+// pausing it and resuming onto its training days. calendar_data is updated
+// so program weeks (counted from start_date, see lib/generation/programSlots)
+// still cover every workout, then workouts move through applyScheduleChanges
+// like calendar moves.
+//
+// calendar_data has no outbox, so these need a connection: they're refused
+// while offline, and the calendar is written before any workout moves so a
+// dropped connection can't leave moves queued against stale program dates.
+
+const OFFLINE_MESSAGE =
+  "Rescheduling a program needs a connection. Try again once you're back online.";
+
+// Reports network failures as being offline rather than as a raw error
+function checkConnection(error: unknown): never {
+  if (isNetworkError(error)) {
+    markOffline();
+    throw new Error(OFFLINE_MESSAGE);
+  }
+  throw error;
+}
+
+type ProgramCalendar = {
+  start_date?: string;
+  end_date?: string;
+  duration_weeks?: number;
+  // Numbers (0 = Sunday) from generation, names from the builder form
+  days_of_week?: (number | string)[];
+  days_of_week_names?: string[];
+  // Set while paused; workouts from this date wait for a resume
+  paused_from?: string;
+};
+
+type ProgramDates = {
+  calendar: ProgramCalendar;
+  durationWeeks: number;
+  workouts: CalendarWorkout[];
+};
+
+export type ProgramDateResult = {
+  moved: number;
+  queued: number;
+  endDate: string | null;
+};
+
+/**
+ * Training days of a program as day numbers, preferring the names the
+ * builder saves
+ */
+export function trainingDays(calendar: ProgramCalendar): number[] {
+  const days = calendar.days_of_week_names?.length
+    ? calendar.days_of_week_names
+    : (calendar.days_of_week ?? []);
+  const numbers = days
+    .map((day) => (typeof day === "number" ? day : dayNameToNumber[day]))
+    .filter((day): day is number => day !== undefined);
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+/**
+ * calendar_data after `changes`: start_date follows the program's first
+ * workout when it moved, and duration_weeks / end_date grow to cover the
+ * last one. Weeks are never dropped, so partly generated programs keep
+ * their length. The result can pass MAX_PROGRAM_WEEKS; the builder accepts
+ * a saved program's own length.
+ */
+export function rescheduledCalendar<T extends ProgramCalendar>(
+  calendar: T,
+  durationWeeks: number,
+  workouts: CalendarWorkout[],
+  changes: ScheduleChange[],
+): T {
+  const moves = new Map(changes.map((change) => [change.workout.id, change]));
+  const before = workouts
+    .map(workoutDateKey)
+    .filter((date): date is string => !!date)
+    .sort();
+  const after = workouts
+    .map((workout) => moves.get(workout.id)?.to ?? workoutDateKey(workout))
+    .filter((date): date is string => !!date)
+    .sort();
+
+  const startDate = calendar.start_date?.split("T")[0];
+  if (!startDate || after.length === 0) return calendar;
+
+  const firstMoved = changes.some((change) => change.from === before[0]);
+  const start = firstMoved
+    ? addDays(startDate, daysBetween(before[0], after[0]))
+    : startDate;
+  const weeks = Math.max(
+    durationWeeks,
+    Math.floor(daysBetween(start, after[after.length - 1]) / 7) + 1,
+  );
+
+  return {
+    ...calendar,
+    start_date: start,
+    end_date: addDays(start, weeks * 7 - 1),
+    duration_weeks: weeks,
+  };
+}
+
+async function loadProgramDates(programId: string): Promise<ProgramDates> {
+  if (!isOnline()) throw new Error(OFFLINE_MESSAGE);
+
+  const { data: program, error: programError } = await supabase
+    .from("programs")
+    .select("calendar_data, duration_weeks")
+    .eq("id", programId)
+    .single();
+
+  if (programError) checkConnection(programError);
+
+  const { data: workouts, error: workoutsError } = await supabase
+    .from("program_workouts")
+    .select(
+      "id, program_id, entity_id, title, scheduled_date, tags, completed, updated_at",
+    )
+    .eq("program_id", programId)
+    .eq("is_reference", false);
+
+  if (workoutsError) checkConnection(workoutsError);
+
+  const calendar = (program?.calendar_data || {}) as ProgramCalendar;
+  return {
+    calendar,
+    durationWeeks:
+      calendar.duration_weeks || (program?.duration_weeks as number) || 0,
+    workouts: (workouts || []) as CalendarWorkout[],
+  };
+}
+
+async function saveProgramCalendar(
+  programId: string,
+  calendar: ProgramCalendar,
+): Promise<void> {
+  const { error } = await supabase
+    .from("programs")
+    .update({
+      calendar_data: calendar,
+      ...(calendar.duration_weeks
+        ? { duration_weeks: calendar.duration_weeks }
+        : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", programId);
+
+  if (error) checkConnection(error);
+}
+
+async function applyProgramChanges(
+  programId: string,
+  { calendar, durationWeeks, workouts }: ProgramDates,
+  changes: ScheduleChange[],
+  calendarChanges: Partial<ProgramCalendar> = {},
+): Promise<ProgramDateResult> {
+  const updated = {
+    ...rescheduledCalendar(calendar, durationWeeks, workouts, changes),
+    ...calendarChanges,
+  };
+  await saveProgramCalendar(programId, updated);
+  const { queued } = await applyScheduleChanges(changes);
+  return { moved: changes.length, queued, endDate: updated.end_date ?? null };
+}
+
+/**
+ * Moves every incomplete workout on or after `fromDate` by `days`
+ */
+export async function shiftProgram(
+  programId: string,
+  fromDate: string,
+  days: number,
+): Promise<ProgramDateResult> {
+  const dates = await loadProgramDates(programId);
+  return applyProgramChanges(
+    programId,
+    dates,
+    planShift(dates.workouts, fromDate, days),
+  );
+}
+
+/**
+ * Marks a program paused from `fromDate`; nothing moves until it resumes
+ */
+export async function pauseProgram(
+  programId: string,
+  fromDate: string,
+): Promise<void> {
+  const { calendar } = await loadProgramDates(programId);
+  await saveProgramCalendar(programId, { ...calendar, paused_from: fromDate });
+}
+
+/**
+ * Re-spaces the workouts held by a pause onto the program's training days
+ * from `resumeOn`, and clears the pause
+ */
+export async function resumeProgram(
+  programId: string,
+  resumeOn: string,
+): Promise<ProgramDateResult> {
+  const dates = await loadProgramDates(programId);
+  const pausedFrom = dates.calendar.paused_from;
+  if (!pausedFrom) throw new Error("Program is not paused");
+  if (resumeOn < pausedFrom) {
+    throw new Error("Resume date must be on or after the pause date");
+  }
+
+  return applyProgramChanges(
+    programId,
+    dates,
+    planResume(
+      dates.workouts,
+      pausedFrom,
+      resumeOn,
+      trainingDays(dates.calendar),
+    ),
+    { paused_from: undefined },
+  );
+}
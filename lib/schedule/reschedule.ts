@@ -0,0 +1,80 @@
+import { runOrQueueMutation } from "@/lib/offline/outbox";
+import { rescheduledDate, type ScheduleChange } from "@/lib/schedule/calendar";
+import { supabase } from "@/lib/supabase/client";
+
+// program_workouts.scheduled_date stays the source of truth and is written
+// through the outbox, so moves made offline replay like any other edit.
+// Each moved workout also gets a workout_schedule entry noting where it came
+// from, which the calendar shows alongside the workout.
+
+export type ScheduleEntry = {
+  id: string;
+  workout_id: string;
+  program_id: string | null;
+  entity_id: string | null;
+  scheduled_date: string;
+  notes: string | null;
+  updated_at: string | null;
+};
+
+export async function listScheduleEntries(
+  workoutIds: string[],
+): Promise<ScheduleEntry[]> {
+  if (workoutIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("workout_schedule")
+    .select("*")
+    .in("workout_id", workoutIds);
+
+  if (error) throw error;
+  return (data || []) as ScheduleEntry[];
+}
+
+const formatDateKey = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+// Best effort: the move itself has already been made or queued
+async function recordScheduleEntries(changes: ScheduleChange[]): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("workout_schedule").upsert(
+    changes.map(({ workout, from, to }) => ({
+      workout_id: workout.id,
+      program_id: workout.program_id,
+      entity_id: workout.entity_id ?? null,
+      scheduled_date: rescheduledDate(workout.scheduled_date, to),
+      notes: from ? `Moved from ${formatDateKey(from)}` : "",
+      updated_at: now,
+    })),
+    { onConflict: "workout_id" },
+  );
+
+  if (error) console.error("[Schedule] Failed to record moves:", error);
+}
+
+/**
+ * Writes each change's new date, queueing them while offline.
+ * Returns how many were queued rather than saved.
+ */
+export async function applyScheduleChanges(
+  changes: ScheduleChange[],
+): Promise<{ queued: number }> {
+  let queued = 0;
+  for (const { workout, to } of changes) {
+    const result = await runOrQueueMutation({
+      kind: "edit",
+      workoutId: workout.id,
+      programId: workout.program_id,
+      changes: { scheduled_date: rescheduledDate(workout.scheduled_date, to) },
+    });
+    if (result.queued) queued++;
+  }
+
+  if (changes.length > 0 && queued === 0) {
+    await recordScheduleEntries(changes);
+  }
+  return { queued };
+}
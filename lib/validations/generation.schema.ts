@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Events streamed by /api/generate-program-anthropic, one JSON object per SSE frame
+
+export const streamingWorkoutSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  body: z.string().default(""),
+  // Tolerate missing or oddly-shaped optional fields rather than dropping the workout
+  scheduled_date: z.string().optional().catch(undefined),
+  tags: z.array(z.string()).optional().catch(undefined),
+});
+
+export const statusEventSchema = z.object({
+  type: z.literal("status"),
+  message: z.string(),
+  stage: z.string().optional(),
+});
+
+export const workoutChunkEventSchema = z.object({
+  type: z.literal("workout_chunk"),
+  workout: streamingWorkoutSchema,
+});
+
+// The server adds fields here over time, so keep whatever it sends
+export const programMetadataEventSchema = z.looseObject({
+  type: z.literal("program_metadata"),
+  program_overview: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const warningEventSchema = z.object({
+  type: z.literal("warning"),
+  message: z.string(),
+});
+
+export const errorEventSchema = z.object({
+  type: z.literal("error"),
+  message: z.string().default("Generation failed"),
+  code: z.string().optional(),
+});
+
+export const completeEventSchema = z.looseObject({
+  type: z.literal("complete"),
+  workoutsCreated: z.number().optional(),
+});
+
+export const generationEventSchema = z.discriminatedUnion("type", [
+  statusEventSchema,
+  workoutChunkEventSchema,
+  programMetadataEventSchema,
+  warningEventSchema,
+  errorEventSchema,
+  completeEventSchema,
+]);
+
+export type StreamingWorkout = z.infer<typeof streamingWorkoutSchema>;
+export type GenerationEvent = z.infer<typeof generationEventSchema>;
+export type GenerationEventType = GenerationEvent["type"];
+export type StatusEvent = z.infer<typeof statusEventSchema>;
+export type ProgramMetadataEvent = z.infer<typeof programMetadataEventSchema>;
+
+const knownEventTypes = new Set<string>(
+  generationEventSchema.options.map((option) => option.shape.type.value),
+);
+
+export type GenerationWarningKind =
+  | "server" // a `warning` event sent by the backend
+  | "malformed_json" // frame data was not valid JSON
+  | "unknown_event" // JSON with a type we don't handle
+  | "invalid_payload" // known type, but fields failed validation
+  | "unsupported_option"; // the server didn't honour a request option
+
+export type GenerationWarning = {
+  kind: GenerationWarningKind;
+  message: string;
+  eventType?: string;
+  raw?: string;
+};
+
+export type ParsedGenerationEvent =
+  | { ok: true; event: GenerationEvent }
+  | { ok: false; warning: GenerationWarning };
+
+/**
+ * Validates a single SSE frame from the generation stream
+ * Never throws: anything that isn't a well-formed known event comes back as a
+ * typed warning so the caller can surface it instead of silently dropping it.
+ */
+export function parseGenerationEvent(raw: string): ParsedGenerationEvent {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {
+      ok: false,
+      warning: {
+        kind: "malformed_json",
+        message: "Received a frame that is not valid JSON",
+        raw,
+      },
+    };
+  }
+
+  const type =
+    typeof data === "object" && data !== null && "type" in data
+      ? String((data as { type: unknown }).type)
+      : undefined;
+
+  if (!type || !knownEventTypes.has(type)) {
+    return {
+      ok: false,
+      warning: {
+        kind: "unknown_event",
+        message: type
+          ? `Unknown event type "${type}"`
+          : "Received an event without a type",
+        eventType: type,
+        raw,
+      },
+    };
+  }
+
+  const result = generationEventSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      warning: {
+        kind: "invalid_payload",
+        message: `Invalid "${type}" event: ${result.error.issues
+          .map((issue) => `${issue.path.join(".") || "event"} ${issue.message}`)
+          .join("; ")}`,
+        eventType: type,
+        raw,
+      },
+    };
+  }
+
+  return { ok: true, event: result.data };
+}
@@ -1,12 +1,19 @@
 import { z } from "zod";
 
+// Longest program the builder generates; shifting or pausing can stretch a
+// saved program past it
+export const MAX_PROGRAM_WEEKS = 8;
+
 export const programSchema = z.object({
   name: z.string().min(1, "Program name is required"),
   description: z.string().optional(),
   duration_weeks: z
     .number()
     .min(1, "Duration must be at least 1 week")
-    .max(8, "Duration cannot exceed 8 weeks"),
+    .max(
+      MAX_PROGRAM_WEEKS,
+      `Duration cannot exceed ${MAX_PROGRAM_WEEKS} weeks`,
+    ),
   client_id: z.string().min(1, "Please select a client or class"),
 });
 
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// Injuries and movement restrictions, stored on entities.injury_history as
+// { restrictions: [...] } next to any other keys already there
+
+export const bodyAreaEnum = z.enum([
+  "neck",
+  "shoulder",
+  "elbow",
+  "wrist",
+  "upper_back",
+  "lower_back",
+  "hip",
+  "knee",
+  "ankle",
+  "other",
+]);
+
+export const severityEnum = z.enum(["mild", "moderate", "severe"]);
+
+export const sideEnum = z.enum(["left", "right", "both"]);
+
+export const restrictionSchema = z.object({
+  id: z.string().min(1),
+  area: bodyAreaEnum,
+  side: sideEnum.nullable().catch(null),
+  severity: severityEnum,
+  description: z.string().catch(""),
+  // YYYY-MM-DD; no end date means ongoing
+  start_date: z.string().nullable().catch(null),
+  end_date: z.string().nullable().catch(null),
+  avoid_movements: z.array(z.string()).catch([]),
+});
+
+// Entries that don't parse are dropped rather than failing the whole list
+export const injuryHistorySchema = z.object({
+  restrictions: z.array(z.unknown()).catch([]),
+});
+
+export type BodyArea = z.infer<typeof bodyAreaEnum>;
+export type InjurySeverity = z.infer<typeof severityEnum>;
+export type RestrictionSide = z.infer<typeof sideEnum>;
+export type ClientRestriction = z.infer<typeof restrictionSchema>;
+
+const dateKey = z
+  .string()
+  .trim()
+  .regex(/^(\d{4}-\d{2}-\d{2})?$/, "Use the format YYYY-MM-DD");
+
+// The editor form; movements are typed as a comma-separated list
+export const restrictionFormSchema = z
+  .object({
+    area: bodyAreaEnum,
+    side: z.enum(["none", "left", "right", "both"]),
+    severity: severityEnum,
+    description: z.string(),
+    start_date: dateKey,
+    end_date: dateKey,
+    avoid_movements: z.string(),
+  })
+  .refine(
+    (form) =>
+      !form.start_date || !form.end_date || form.end_date >= form.start_date,
+    { message: "End date must be after the start date", path: ["end_date"] },
+  );
+
+export type RestrictionFormInput = z.infer<typeof restrictionFormSchema>;
@@ -0,0 +1,74 @@
+import type { StrengthProfile } from "@/lib/clients/strengthProfile";
+import type { MovementLine } from "@/lib/workouts/workoutParser";
+
+// Turns "@ 80%" into a bar weight using the client's 1RMs. Only the three
+// lifts on the profile are resolved; variations (front squat, RDL, incline
+// bench) have their own maxes and are left as percentages.
+
+export type ProfileLift = "squat_1rm" | "bench_1rm" | "deadlift_1rm";
+
+export type ResolvedLoad = {
+  lift: ProfileLift;
+  oneRepMax: number;
+  percent: number;
+  // Rounded to the nearest plate increment
+  load: number;
+};
+
+const LIFT_PATTERNS: { lift: ProfileLift; match: RegExp; exclude: RegExp }[] = [
+  {
+    lift: "squat_1rm",
+    match: /\bsquats?\b/i,
+    exclude:
+      /\b(front|overhead|ohs|goblet|split|bulgarian|jump|air|pistol|box|zercher|hack|sissy|wall|db|dumbbell|kb|kettlebell)\b/i,
+  },
+  {
+    lift: "bench_1rm",
+    match: /\bbench(\s+press)?\b/i,
+    exclude:
+      /\b(incline|decline|close|db|dumbbell|floor|dips?|jumps?|step|hops?)\b/i,
+  },
+  {
+    lift: "deadlift_1rm",
+    match: /\bdeadlifts?\b/i,
+    exclude:
+      /\b(romanian|rdl|stiff|single|sumo|trap|hex|deficit|db|dumbbell|kb|kettlebell|snatch|clean|high)\b/i,
+  },
+];
+
+const PLATE_INCREMENT_KG = 2.5;
+
+export function liftForMovement(movement: string): ProfileLift | null {
+  const entry = LIFT_PATTERNS.find(
+    ({ match, exclude }) => match.test(movement) && !exclude.test(movement),
+  );
+  return entry?.lift ?? null;
+}
+
+export function roundToPlates(kg: number): number {
+  return Math.round(kg / PLATE_INCREMENT_KG) * PLATE_INCREMENT_KG;
+}
+
+/**
+ * The load for a percentage prescription, or null when the line isn't a
+ * percentage of a lift the client has a max for
+ */
+export function resolvePercentLoad(
+  line: MovementLine,
+  profile: StrengthProfile,
+): ResolvedLoad | null {
+  if (line.load?.type !== "percent") return null;
+
+  const lift = liftForMovement(line.movement);
+  if (!lift) return null;
+
+  const oneRepMax = profile[lift];
+  if (!oneRepMax) return null;
+
+  return {
+    lift,
+    oneRepMax,
+    percent: line.load.value,
+    load: roundToPlates((oneRepMax * line.load.value) / 100),
+  };
+}
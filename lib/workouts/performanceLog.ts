@@ -0,0 +1,281 @@
+import { supabase } from "@/lib/supabase/client";
+import {
+  formatDuration,
+  formatPrescription,
+  type MovementLine,
+  type ParsedWorkout,
+  workoutFormatLabel,
+} from "@/lib/workouts/workoutParser";
+
+// What the athlete actually did, one row per set. Timed blocks (an AMRAP,
+// a For Time piece) get a row of their own holding the time or rounds.
+
+export type LoadUnit = "kg" | "lb";
+
+export type SetLogRow = {
+  id: string;
+  workout_id: string;
+  entity_id: string | null;
+  program_id: string | null;
+  movement: string;
+  // Position of the movement within the workout
+  movement_order: number;
+  set_number: number;
+  reps: number | null;
+  load: number | null;
+  load_unit: LoadUnit | null;
+  rpe: number | null;
+  duration_seconds: number | null;
+  rounds: number | null;
+  notes: string | null;
+  // The prescription it was logged against, e.g. "5 × 5 @ 75%"
+  prescribed: string | null;
+  // Row for a timed block rather than a set
+  is_block: boolean;
+  logged_at: string;
+};
+
+export type LoggedSet = {
+  reps: number | null;
+  load: number | null;
+  rpe: number | null;
+};
+
+export type MovementLog = {
+  movement: string;
+  prescribed: string | null;
+  // Timed blocks log time and rounds instead of sets
+  isBlock: boolean;
+  sets: LoggedSet[];
+  loadUnit: LoadUnit;
+  durationSeconds: number | null;
+  rounds: number | null;
+  notes: string;
+};
+
+export const emptySet = (): LoggedSet => ({
+  reps: null,
+  load: null,
+  rpe: null,
+});
+
+/**
+ * A blank log shaped like the prescription: one set per prescribed set,
+ * reps and absolute loads filled in, and a block entry per timed section.
+ * Percentage loads are filled in too when resolvePercent can turn them into
+ * kilograms for the athlete.
+ */
+export function draftFromWorkout(
+  workout: ParsedWorkout,
+  loadUnit: LoadUnit = "kg",
+  resolvePercent?: (line: MovementLine) => number | null,
+): MovementLog[] {
+  const logs: MovementLog[] = [];
+
+  for (const section of workout.sections) {
+    if (section.format) {
+      logs.push({
+        movement: section.title ?? workoutFormatLabel(section.format),
+        prescribed: workoutFormatLabel(section.format),
+        isBlock: true,
+        sets: [],
+        loadUnit,
+        durationSeconds: null,
+        rounds: null,
+        notes: "",
+      });
+    }
+
+    for (const line of section.lines) {
+      if (line.kind !== "movement") continue;
+
+      const setCount =
+        line.reps && line.reps.length > 1 ? line.reps.length : (line.sets ?? 1);
+      const percentLoad =
+        line.load?.type === "percent" ? (resolvePercent?.(line) ?? null) : null;
+      const load = line.load?.type === "weight" ? line.load.value : percentLoad;
+      const rpe = line.load?.type === "rpe" ? line.load.value : null;
+
+      logs.push({
+        movement: line.movement,
+        prescribed: formatPrescription(line) || null,
+        isBlock: false,
+        sets: Array.from({ length: setCount }, (_, index) => ({
+          reps: line.reps?.[index] ?? line.reps?.[0] ?? null,
+          load,
+          rpe,
+        })),
+        loadUnit:
+          line.load?.type === "weight"
+            ? line.load.unit
+            : percentLoad !== null
+              ? "kg"
+              : loadUnit,
+        durationSeconds: null,
+        rounds: null,
+        notes: line.note ?? "",
+      });
+    }
+  }
+
+  return logs;
+}
+
+export function groupSetLogs(rows: SetLogRow[]): MovementLog[] {
+  const byOrder = new Map<number, SetLogRow[]>();
+  for (const row of rows) {
+    byOrder.set(row.movement_order, [
+      ...(byOrder.get(row.movement_order) ?? []),
+      row,
+    ]);
+  }
+
+  return [...byOrder.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, sets]) => {
+      const ordered = [...sets].sort((a, b) => a.set_number - b.set_number);
+      const first = ordered[0];
+      const isBlock = first.is_block;
+
+      return {
+        movement: first.movement,
+        prescribed: first.prescribed,
+        isBlock,
+        sets: isBlock
+          ? []
+          : ordered.map((row) => ({
+              reps: row.reps,
+              load: row.load,
+              rpe: row.rpe,
+            })),
+        loadUnit: first.load_unit ?? "kg",
+        durationSeconds: first.duration_seconds,
+        rounds: first.rounds,
+        notes: first.notes ?? "",
+      };
+    });
+}
+
+const hasEntry = (log: MovementLog) =>
+  !!log.notes.trim() ||
+  (log.isBlock
+    ? log.durationSeconds !== null || log.rounds !== null
+    : log.sets.some(
+        (set) => set.reps !== null || set.load !== null || set.rpe !== null,
+      ));
+
+export async function listSetLogs(workoutId: string): Promise<SetLogRow[]> {
+  const { data, error } = await supabase
+    .from("workout_set_logs")
+    .select("*")
+    .eq("workout_id", workoutId)
+    .order("movement_order", { ascending: true })
+    .order("set_number", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SetLogRow[];
+}
+
+/**
+ * Replaces the workout's log with the given movements. Movements with
+ * nothing entered are skipped. The new rows go in before the old ones are
+ * removed, so a failed save leaves the previous log in place.
+ */
+export async function saveSetLogs(
+  target: {
+    workoutId: string;
+    programId: string | null;
+    entityId: string | null;
+  },
+  logs: MovementLog[],
+): Promise<void> {
+  const loggedAt = new Date().toISOString();
+  const base = {
+    workout_id: target.workoutId,
+    program_id: target.programId,
+    entity_id: target.entityId,
+    logged_at: loggedAt,
+  };
+
+  const rows = logs.flatMap<Omit<SetLogRow, "id">>((log, movementOrder) => {
+    if (!hasEntry(log)) return [];
+    const shared = {
+      ...base,
+      movement: log.movement,
+      movement_order: movementOrder,
+      prescribed: log.prescribed,
+      is_block: log.isBlock,
+      notes: log.notes.trim() || null,
+    };
+
+    if (log.isBlock) {
+      return [
+        {
+          ...shared,
+          set_number: 1,
+          reps: null,
+          load: null,
+          load_unit: null,
+          rpe: null,
+          duration_seconds: log.durationSeconds,
+          rounds: log.rounds,
+        },
+      ];
+    }
+
+    return log.sets.map((set, index) => ({
+      ...shared,
+      set_number: index + 1,
+      reps: set.reps,
+      load: set.load,
+      load_unit: set.load !== null ? log.loadUnit : null,
+      rpe: set.rpe,
+      duration_seconds: null,
+      rounds: null,
+    }));
+  });
+
+  const previous = await listSetLogs(target.workoutId);
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from("workout_set_logs").insert(rows);
+    if (error) throw error;
+  }
+
+  if (previous.length > 0) {
+    const { error } = await supabase
+      .from("workout_set_logs")
+      .delete()
+      .in(
+        "id",
+        previous.map((row) => row.id),
+      );
+    if (error) throw error;
+  }
+}
+
+/**
+ * One line per movement, e.g. "5 × 100kg, 5 × 100kg, 3 × 105kg @ RPE 9"
+ */
+export function summarizeMovementLog(log: MovementLog): string {
+  if (log.isBlock) {
+    const parts: string[] = [];
+    if (log.durationSeconds !== null) {
+      parts.push(formatDuration(log.durationSeconds));
+    }
+    if (log.rounds !== null) parts.push(`${log.rounds} rounds`);
+    return parts.join(", ");
+  }
+
+  return log.sets
+    .filter((set) => set.reps !== null || set.load !== null)
+    .map((set) => {
+      let text = set.reps !== null ? `${set.reps}` : "";
+      if (set.load !== null) {
+        text += `${text ? " × " : ""}${set.load}${log.loadUnit}`;
+      }
+      if (set.rpe !== null) text += ` @ RPE ${set.rpe}`;
+      return text;
+    })
+    .join(", ");
+}
@@ -0,0 +1,87 @@
+import type { ParsedWorkout } from "@/lib/workouts/workoutParser";
+
+// Class workouts carry a Scaling section with one entry per tier:
+//
+//   Scaling:
+//   RX: As written
+//   Intermediate: Wall Balls (14/10), Hanging Knee Raises
+//   Beginner:
+//   - 20 Wall Balls to a lower target
+//
+// Entries are one line, or the tier label followed by lines of its own.
+
+export type ScalingTier = "rx" | "intermediate" | "beginner";
+
+export const SCALING_TIERS: { tier: ScalingTier; label: string }[] = [
+  { tier: "rx", label: "RX" },
+  { tier: "intermediate", label: "Intermediate" },
+  { tier: "beginner", label: "Beginner" },
+];
+
+export const SCALING_TIER_LABELS = Object.fromEntries(
+  SCALING_TIERS.map(({ tier, label }) => [tier, label]),
+) as Record<ScalingTier, string>;
+
+// The tier a line starts with, and what follows the label
+const TIER_LINE =
+  /^\s*(?:[-*•]\s*)?(?:\*\*|__)?(rx'?d?|intermediate|beginner)(?:\*\*|__)?\s*(?::|-|–)\s*(.*)$/i;
+
+export function parseTierLine(
+  text: string,
+): { tier: ScalingTier; rest: string } | null {
+  const match = text.match(TIER_LINE);
+  if (!match) return null;
+  const label = match[1].toLowerCase();
+  const tier: ScalingTier = label.startsWith("rx")
+    ? "rx"
+    : (label as ScalingTier);
+  return { tier, rest: match[2].replace(/\*\*|__/g, "").trim() };
+}
+
+export type WorkoutScaling = Partial<Record<ScalingTier, string[]>>;
+
+/**
+ * Lines written for each tier in the workout's Scaling sections
+ */
+export function parseScaling(workout: ParsedWorkout): WorkoutScaling {
+  const scaling: WorkoutScaling = {};
+
+  for (const section of workout.sections) {
+    if (section.kind !== "scaling") continue;
+    let current: ScalingTier | null = null;
+
+    for (const line of section.lines) {
+      if (line.kind === "blank") continue;
+      const tierLine = parseTierLine(line.text);
+      if (tierLine) {
+        current = tierLine.tier;
+        scaling[current] = [
+          ...(scaling[current] ?? []),
+          ...(tierLine.rest ? [tierLine.rest] : []),
+        ];
+      } else if (current) {
+        scaling[current]?.push(line.text.replace(/^\s*[-*•]\s+/, "").trim());
+      }
+    }
+  }
+
+  return scaling;
+}
+
+/**
+ * The workout without its Scaling sections, for showing tiers separately
+ */
+export const withoutScaling = (workout: ParsedWorkout): ParsedWorkout => ({
+  sections: workout.sections.filter((section) => section.kind !== "scaling"),
+});
+
+// Request fields asking the generator for a Scaling section in each workout
+export function scalingRequestFields(memberCount: number) {
+  return {
+    programming_mode: "class",
+    class_size: memberCount,
+    scaling_tiers: SCALING_TIERS.map(({ label }) => label),
+    scaling_instructions:
+      'End each workout with a "Scaling:" section giving one line per tier: "RX:", "Intermediate:" and "Beginner:".',
+  };
+}
@@ -0,0 +1,558 @@
+import { workoutFormats } from "@/lib/constants/programConfig";
+import { parseTierLine } from "@/lib/workouts/scalingTiers";
+
+// Parses a generated workout body into sections and lines with sets, reps,
+// loads and formats picked out. Every line keeps its original text, so
+// serializeWorkout(parseWorkout(body)) === body; edited lines are rewritten
+// in a canonical form.
+
+export type WorkoutFormat =
+  | "emom"
+  | "amrap"
+  | "for_time"
+  | "tabata"
+  | "circuit";
+
+export type SectionKind =
+  | "warmup"
+  | "strength"
+  | "metcon"
+  | "skill"
+  | "accessory"
+  | "cooldown"
+  // Per-tier alternatives for class workouts (see lib/workouts/scalingTiers)
+  | "scaling"
+  | "other";
+
+export type LoadPrescription =
+  | { type: "percent"; value: number }
+  | { type: "rpe"; value: number }
+  | { type: "weight"; value: number; unit: "kg" | "lb" }
+  // Men's/women's prescribed load, e.g. "(135/95)"
+  | { type: "rx"; male: number; female: number; unit?: "kg" | "lb" };
+
+export type Distance = { value: number; unit: "m" | "km" | "ft" | "mi" };
+
+export type MovementLine = {
+  kind: "movement";
+  text: string;
+  // Bullet, "Min 1: " or "Tabata " ahead of the movement, kept on rewrite
+  prefix: string;
+  movement: string;
+  // "scheme": "Back Squat 5x5"; "count": "30 Wall Balls"
+  style: "scheme" | "count";
+  sets?: number;
+  // One entry for straight sets, one per set for schemes like 5-3-1
+  reps?: number[];
+  calories?: string;
+  distance?: Distance;
+  durationSeconds?: number;
+  load?: LoadPrescription;
+  minute?: number;
+  note?: string;
+};
+
+export type WorkoutLine =
+  | MovementLine
+  | { kind: "format"; text: string }
+  | { kind: "rest"; text: string; durationSeconds?: number }
+  | { kind: "note"; text: string }
+  | { kind: "blank"; text: string };
+
+export type WorkoutSection = {
+  kind: SectionKind;
+  title: string | null;
+  // Original heading line, or null for text before the first heading
+  heading: string | null;
+  format: WorkoutFormat | null;
+  durationSeconds?: number;
+  timeCapSeconds?: number;
+  rounds?: number;
+  lines: WorkoutLine[];
+};
+
+export type ParsedWorkout = {
+  sections: WorkoutSection[];
+};
+
+const SECTION_KEYWORDS: [RegExp, SectionKind][] = [
+  [/scaling|modifications/i, "scaling"],
+  [/warm[\s-]?up|mobility|prep/i, "warmup"],
+  [/cool[\s-]?down|recovery|stretch/i, "cooldown"],
+  [/strength|lift|power|weightlifting/i, "strength"],
+  [/metcon|conditioning|engine|wod|finisher|partner/i, "metcon"],
+  [/skill|gymnastics|technique/i, "skill"],
+  [/accessory|accessories|core/i, "accessory"],
+];
+
+const BULLET = /^(\s*(?:[-*•]|\d+\.)\s+)/;
+const MINUTE_PREFIX = /^(min(?:ute)?\s*(\d+)\s*:\s*)/i;
+const TABATA_PREFIX = /^(tabata\s+)(?=[a-z])/i;
+
+const TIME = /(\d+):(\d{2})/;
+
+function parseTime(value: string): number | undefined {
+  const clock = value.match(TIME);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const minutes = value.match(/(\d+)\s*(?:min|minutes?|')/i);
+  return minutes ? Number(minutes[1]) * 60 : undefined;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${String(rest).padStart(2, "0")}`;
+}
+
+// Markdown emphasis and heading marks, which generated bodies often use
+const stripMarkdown = (line: string) =>
+  line
+    .replace(/^#+\s*/, "")
+    .replace(/\*\*|__/g, "")
+    .trim();
+
+function sectionKind(title: string): SectionKind {
+  return (
+    SECTION_KEYWORDS.find(([pattern]) => pattern.test(title))?.[1] ?? "other"
+  );
+}
+
+type FormatDirective = Pick<
+  WorkoutSection,
+  "format" | "durationSeconds" | "timeCapSeconds" | "rounds"
+>;
+
+function parseFormatLine(line: string): FormatDirective | null {
+  const cleaned = stripMarkdown(line).replace(/:$/, "").trim();
+
+  const timeCap = cleaned.match(/^time\s*cap\s*:?\s*(.+)$/i);
+  if (timeCap) {
+    const seconds = parseTime(timeCap[1]);
+    return seconds ? { format: null, timeCapSeconds: seconds } : null;
+  }
+
+  // Format lines end with a colon or carry nothing but the format
+  const isDirective = /:$/.test(stripMarkdown(line));
+
+  const emom = cleaned.match(/\bE(?:\d+)?MOM\b(?:\s*(?:x\s*)?(\d+))?/i);
+  if (emom && (isDirective || cleaned.length === emom[0].length)) {
+    return {
+      format: "emom",
+      durationSeconds: emom[1] ? Number(emom[1]) * 60 : undefined,
+    };
+  }
+
+  const amrap =
+    cleaned.match(/\bAMRAP\b(?:\s*(\d+))?/i) ??
+    cleaned.match(/(\d+)\s*(?:min(?:ute)?s?)?\s*AMRAP\b/i);
+  if (amrap && (isDirective || cleaned.length === amrap[0].length)) {
+    return {
+      format: "amrap",
+      durationSeconds: amrap[1] ? Number(amrap[1]) * 60 : undefined,
+    };
+  }
+
+  const rounds = cleaned.match(/^(\d+)\s+rounds?\b/i);
+  const forTime = /\bfor\s+time\b/i.test(cleaned);
+  if (
+    rounds &&
+    (isDirective || /^\d+\s+rounds?(\s+for\s+time)?$/i.test(cleaned))
+  ) {
+    return {
+      format: forTime ? "for_time" : "circuit",
+      rounds: Number(rounds[1]),
+    };
+  }
+
+  if (forTime && isDirective) return { format: "for_time" };
+
+  if (
+    /^tabata\b/i.test(cleaned) &&
+    (isDirective || /^tabata$/i.test(cleaned))
+  ) {
+    return { format: "tabata", durationSeconds: 4 * 60 };
+  }
+
+  return null;
+}
+
+function parseHeading(
+  line: string,
+): { title: string; durationSeconds?: number } | null {
+  const isMarkdownHeading = /^\s*(#+\s|\*\*[^*]+\*\*:?\s*$)/.test(line);
+  const cleaned = stripMarkdown(line);
+  if (!cleaned) return null;
+
+  const endsWithColon = cleaned.endsWith(":");
+  const bare = cleaned.replace(/:$/, "").trim();
+  // A bare "Warm-up" or "Cooldown"; digits mean a movement ("10 Power Cleans")
+  const isKnownSection =
+    sectionKind(bare) !== "other" &&
+    bare.split(/\s+/).length <= 3 &&
+    !/\d/.test(bare);
+
+  if (!isMarkdownHeading && !endsWithColon && !isKnownSection) return null;
+  // "Min 1:" style prefixes aren't headings
+  if (MINUTE_PREFIX.test(cleaned) && !endsWithColon) return null;
+
+  const timed = bare.match(/^(.*?)\s*\(([^)]*)\)$/);
+  if (timed) {
+    const seconds = parseTime(timed[2]);
+    if (seconds) return { title: timed[1].trim(), durationSeconds: seconds };
+  }
+  return { title: bare };
+}
+
+function parseLoad(text: string): { load?: LoadPrescription; rest: string } {
+  const patterns: [RegExp, (m: RegExpMatchArray) => LoadPrescription][] = [
+    [
+      /\s*@\s*RPE\s*(\d+(?:\.\d+)?)/i,
+      (m) => ({ type: "rpe", value: Number(m[1]) }),
+    ],
+    [
+      /\s*@\s*(\d+(?:\.\d+)?)\s*%(?:\s*(?:of\s*)?1\s*RM)?/i,
+      (m) => ({ type: "percent", value: Number(m[1]) }),
+    ],
+    [
+      /\s*@\s*(\d+(?:\.\d+)?)\s*(kg|kgs|lb|lbs)\b/i,
+      (m) => ({
+        type: "weight",
+        value: Number(m[1]),
+        unit: m[2].toLowerCase().startsWith("kg") ? "kg" : "lb",
+      }),
+    ],
+    [
+      /\s*\((\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)\s*(kg|lb|lbs)?\)/i,
+      (m) => ({
+        type: "rx",
+        male: Number(m[1]),
+        female: Number(m[2]),
+        unit: m[3] ? (m[3].toLowerCase() === "kg" ? "kg" : "lb") : undefined,
+      }),
+    ],
+  ];
+
+  for (const [pattern, build] of patterns) {
+    const match = text.match(pattern);
+    if (match) return { load: build(match), rest: text.replace(match[0], "") };
+  }
+  return { rest: text };
+}
+
+function parseMovementLine(text: string): WorkoutLine {
+  let body = text;
+  let prefix = "";
+  let minute: number | undefined;
+
+  const bullet = body.match(BULLET);
+  if (bullet) {
+    prefix += bullet[1];
+    body = body.slice(bullet[1].length);
+  }
+  const minutePrefix = body.match(MINUTE_PREFIX);
+  if (minutePrefix) {
+    prefix += minutePrefix[1];
+    minute = Number(minutePrefix[2]);
+    body = body.slice(minutePrefix[1].length);
+  }
+  const tabata = body.match(TABATA_PREFIX);
+  if (tabata) {
+    prefix += tabata[1];
+    body = body.slice(tabata[1].length);
+  }
+
+  const trimmed = body.trim();
+  if (/^rest\b/i.test(trimmed)) {
+    return { kind: "rest", text, durationSeconds: parseTime(trimmed) };
+  }
+
+  // Trailing notes come after the first comma: "4x6, building"
+  const commaIndex = trimmed.indexOf(",");
+  let main = stripMarkdown(
+    commaIndex >= 0 ? trimmed.slice(0, commaIndex) : trimmed,
+  );
+  const note =
+    commaIndex >= 0 ? trimmed.slice(commaIndex + 1).trim() : undefined;
+
+  const { load, rest } = parseLoad(main);
+  main = rest.trim();
+
+  const line: MovementLine = {
+    kind: "movement",
+    text,
+    prefix,
+    movement: main,
+    style: "count",
+    load,
+    minute,
+    note: note || undefined,
+  };
+
+  const setsReps = main.match(/\s*\b(\d+)\s*[x×]\s*(\d+)\b/);
+  const scheme = main.match(/\s*\b(\d+(?:-\d+){2,})\b/);
+  if (setsReps) {
+    line.style = "scheme";
+    line.sets = Number(setsReps[1]);
+    line.reps = [Number(setsReps[2])];
+    line.movement = main.replace(setsReps[0], "").trim();
+  } else if (scheme) {
+    line.style = "scheme";
+    line.reps = scheme[1].split("-").map(Number);
+    line.sets = line.reps.length;
+    line.movement = main.replace(scheme[0], "").trim();
+  } else {
+    const calories = main.match(
+      /^(\d+(?:\/\d+)?)\s*(?:cal|cals|calories)\b\s*/i,
+    );
+    const distance = main.match(/^(\d+(?:\.\d+)?)\s*(m|km|ft|mi)\b\s*/i);
+    const duration = main.match(/^(\d+:\d{2})\s+/);
+    const count = main.match(/^(\d+)\s+/);
+
+    if (calories) {
+      line.calories = calories[1];
+      line.movement = main.slice(calories[0].length);
+    } else if (distance) {
+      line.distance = {
+        value: Number(distance[1]),
+        unit: distance[2].toLowerCase() as Distance["unit"],
+      };
+      line.movement = main.slice(distance[0].length);
+    } else if (duration) {
+      line.durationSeconds = parseTime(duration[1]);
+      line.movement = main.slice(duration[0].length);
+    } else if (count) {
+      line.reps = [Number(count[1])];
+      line.movement = main.slice(count[0].length);
+    } else if (!load && !tabata && minute === undefined) {
+      // Nothing prescribed: coaching cues, descriptions
+      return { kind: "note", text };
+    }
+  }
+
+  // "3 rounds of 10 air squats" describes a block rather than one movement
+  if (!line.movement || /^rounds?\b/i.test(line.movement)) {
+    return { kind: "note", text };
+  }
+  return line;
+}
+
+const emptySection = (
+  heading: string | null,
+  title: string | null,
+): WorkoutSection => ({
+  kind: title ? sectionKind(title) : "other",
+  title,
+  heading,
+  format: null,
+  lines: [],
+});
+
+const hasContent = (section: WorkoutSection) =>
+  section.lines.some((line) => line.kind !== "blank");
+
+export function parseWorkout(body: string): ParsedWorkout {
+  const sections: WorkoutSection[] = [];
+  let current = emptySection(null, null);
+
+  for (const text of body.split("\n")) {
+    if (!text.trim()) {
+      current.lines.push({ kind: "blank", text });
+      continue;
+    }
+
+    // Scaling entries are kept as written; "Intermediate:" is a tier label,
+    // not a new section
+    if (
+      current.kind === "scaling" &&
+      (parseTierLine(text) || !parseHeading(text))
+    ) {
+      current.lines.push({ kind: "note", text });
+      continue;
+    }
+
+    const directive = parseFormatLine(text);
+    if (directive) {
+      // A new format after movements starts a block of its own
+      if (
+        directive.format &&
+        current.lines.some((line) => line.kind === "movement")
+      ) {
+        sections.push(current);
+        current = emptySection(null, null);
+      }
+      current.format = directive.format ?? current.format;
+      current.durationSeconds =
+        directive.durationSeconds ?? current.durationSeconds;
+      current.timeCapSeconds =
+        directive.timeCapSeconds ?? current.timeCapSeconds;
+      current.rounds = directive.rounds ?? current.rounds;
+      current.lines.push({ kind: "format", text });
+      continue;
+    }
+
+    const heading = parseHeading(text);
+    if (heading) {
+      if (current.heading !== null || current.lines.length > 0) {
+        sections.push(current);
+      }
+      current = emptySection(text, heading.title);
+      current.durationSeconds = heading.durationSeconds;
+      continue;
+    }
+
+    const line = parseMovementLine(text);
+    if (
+      line.kind === "movement" &&
+      /^tabata\s/i.test(line.prefix.replace(BULLET, ""))
+    ) {
+      current.format = current.format ?? "tabata";
+    }
+    current.lines.push(line);
+  }
+  sections.push(current);
+
+  // Untitled blocks with a format are workout pieces, usually the metcon
+  for (const section of sections) {
+    if (section.kind === "other" && section.format) section.kind = "metcon";
+  }
+
+  return { sections };
+}
+
+export function serializeWorkout(workout: ParsedWorkout): string {
+  return workout.sections
+    .flatMap((section) => [
+      ...(section.heading !== null ? [section.heading] : []),
+      ...section.lines.map((line) => line.text),
+    ])
+    .join("\n");
+}
+
+export function formatLoad(load: LoadPrescription): string {
+  switch (load.type) {
+    case "percent":
+      return `@ ${load.value}%`;
+    case "rpe":
+      return `@ RPE ${load.value}`;
+    case "weight":
+      return `@ ${load.value}${load.unit}`;
+    case "rx":
+      return `(${load.male}/${load.female}${load.unit ?? ""})`;
+  }
+}
+
+/**
+ * Sets, reps and load as a short label, e.g. "5 × 5 @ 75%"
+ */
+export function formatPrescription(line: MovementLine): string {
+  const parts: string[] = [];
+  if (line.calories) parts.push(`${line.calories} cal`);
+  if (line.distance) parts.push(`${line.distance.value}${line.distance.unit}`);
+  if (line.durationSeconds) parts.push(formatDuration(line.durationSeconds));
+  if (line.reps) {
+    parts.push(
+      line.reps.length > 1
+        ? line.reps.join("-")
+        : line.sets
+          ? `${line.sets} × ${line.reps[0]}`
+          : `${line.reps[0]}`,
+    );
+  }
+  if (line.load) parts.push(formatLoad(line.load));
+  return parts.join(" ");
+}
+
+function formatMovementLine(line: MovementLine): string {
+  let quantity = "";
+  if (line.calories) quantity = `${line.calories} Cal`;
+  else if (line.distance)
+    quantity = `${line.distance.value}${line.distance.unit}`;
+  else if (line.durationSeconds)
+    quantity = formatDuration(line.durationSeconds);
+
+  let text: string;
+  if (line.style === "scheme" && line.reps) {
+    const scheme =
+      line.reps.length > 1
+        ? line.reps.join("-")
+        : `${line.sets ?? 1}x${line.reps[0]}`;
+    text = `${line.movement} ${scheme}`;
+  } else {
+    const count = quantity || (line.reps ? `${line.reps[0]}` : "");
+    text = count ? `${count} ${line.movement}` : line.movement;
+  }
+
+  if (line.load) text += ` ${formatLoad(line.load)}`;
+  if (line.note) text += `, ${line.note}`;
+  return line.prefix + text;
+}
+
+export type MovementChanges = Partial<
+  Pick<MovementLine, "movement" | "sets" | "reps" | "load" | "note">
+>;
+
+/**
+ * Applies changes to one movement line and rewrites its text, leaving every
+ * other line as it was
+ */
+export function updateMovement(
+  workout: ParsedWorkout,
+  sectionIndex: number,
+  lineIndex: number,
+  changes: MovementChanges,
+): ParsedWorkout {
+  return {
+    sections: workout.sections.map((section, s) =>
+      s !== sectionIndex
+        ? section
+        : {
+            ...section,
+            lines: section.lines.map((line, l) => {
+              if (l !== lineIndex || line.kind !== "movement") return line;
+              const next = { ...line, ...changes };
+              // Sets only read as a scheme ("3x10")
+              if (changes.sets !== undefined && next.reps)
+                next.style = "scheme";
+              return { ...next, text: formatMovementLine(next) };
+            }),
+          },
+    ),
+  };
+}
+
+export function workoutFormatLabel(format: WorkoutFormat): string {
+  return workoutFormats.find((item) => item.value === format)?.label ?? format;
+}
+
+/**
+ * One-line summary for cards, e.g. "Conditioning (For Time): Wall Balls, Toes-to-Bar"
+ */
+export function summarizeSection(section: WorkoutSection): string {
+  const movements = section.lines.filter(
+    (line): line is MovementLine => line.kind === "movement",
+  );
+  const label = [
+    section.title,
+    section.format ? workoutFormatLabel(section.format) : null,
+  ].filter(Boolean);
+  const heading =
+    label.length > 1 ? `${label[0]} (${label[1]})` : (label[0] ?? "");
+
+  // A single lift reads better with its prescription
+  const detail =
+    movements.length === 1
+      ? `${movements[0].movement} ${formatPrescription(movements[0])}`.trim()
+      : movements.map((line) => line.movement).join(", ");
+
+  return heading && detail ? `${heading}: ${detail}` : heading || detail;
+}
+
+export const isStructured = (workout: ParsedWorkout) =>
+  workout.sections.some((section) =>
+    section.lines.some((line) => line.kind === "movement"),
+  );
+
+export const visibleSections = (workout: ParsedWorkout) =>
+  workout.sections.filter(
+    (section) => section.heading !== null || hasContent(section),
+  );
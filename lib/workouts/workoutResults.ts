@@ -0,0 +1,180 @@
+import { supabase } from "@/lib/supabase/client";
+import type { ScalingTier } from "@/lib/workouts/scalingTiers";
+import type { TimerFormat } from "@/lib/workouts/workoutTimer";
+
+// Scores recorded against a workout from the timer: a time for For Time, a
+// rounds-plus-reps count for AMRAP, or just completion for EMOM and Tabata.
+
+export type WorkoutResult = {
+  id: string;
+  workout_id: string;
+  program_id: string | null;
+  // The class member the score belongs to; null for the program's own client
+  entity_id: string | null;
+  tier: ScalingTier | null;
+  format: TimerFormat;
+  // Time taken, or the length of the timed block
+  duration_seconds: number;
+  rounds: number | null;
+  extra_reps: number | null;
+  // Elapsed seconds at each split, For Time only
+  splits: number[];
+  // Stopped by the time cap rather than finished
+  capped: boolean;
+  notes: string | null;
+  recorded_at: string;
+};
+
+export type WorkoutResultInput = Omit<
+  WorkoutResult,
+  "id" | "recorded_at" | "entity_id" | "tier"
+> &
+  Partial<Pick<WorkoutResult, "entity_id" | "tier">>;
+
+export async function listWorkoutResults(
+  workoutId: string,
+): Promise<WorkoutResult[]> {
+  const { data, error } = await supabase
+    .from("workout_results")
+    .select("*")
+    .eq("workout_id", workoutId)
+    .order("recorded_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as WorkoutResult[];
+}
+
+export async function saveWorkoutResult(
+  input: WorkoutResultInput,
+): Promise<WorkoutResult> {
+  const { data, error } = await supabase
+    .from("workout_results")
+    .insert({ ...input, recorded_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as WorkoutResult;
+}
+
+export async function deleteWorkoutResult(resultId: string): Promise<void> {
+  const { error } = await supabase
+    .from("workout_results")
+    .delete()
+    .eq("id", resultId);
+
+  if (error) throw error;
+}
+
+/**
+ * Which of the given workouts have scores or set logs recorded against them
+ * Both cascade from program_workouts, so deleting one of these workouts
+ * takes its history with it.
+ */
+export async function loadLoggedWorkoutIds(
+  workoutIds: string[],
+): Promise<Set<string>> {
+  if (workoutIds.length === 0) return new Set();
+
+  const [results, setLogs] = await Promise.all([
+    supabase
+      .from("workout_results")
+      .select("workout_id")
+      .in("workout_id", workoutIds),
+    supabase
+      .from("workout_set_logs")
+      .select("workout_id")
+      .in("workout_id", workoutIds),
+  ]);
+
+  if (results.error) throw results.error;
+  if (setLogs.error) throw setLogs.error;
+  return new Set(
+    [...(results.data || []), ...(setLogs.data || [])].map(
+      (row) => row.workout_id as string,
+    ),
+  );
+}
+
+/**
+ * The score as a coach would write it: "12:34", "7 rounds + 5", "Capped"
+ */
+export function formatWorkoutResult(result: WorkoutResult): string {
+  const minutes = Math.floor(result.duration_seconds / 60);
+  const seconds = String(result.duration_seconds % 60).padStart(2, "0");
+
+  switch (result.format) {
+    case "for_time":
+      return result.capped
+        ? `Capped at ${minutes}:${seconds}`
+        : `${minutes}:${seconds}`;
+    case "amrap": {
+      const rounds = `${result.rounds ?? 0} round${result.rounds === 1 ? "" : "s"}`;
+      return result.extra_reps ? `${rounds} + ${result.extra_reps}` : rounds;
+    }
+    default:
+      return `Completed ${result.rounds ?? 0} round${result.rounds === 1 ? "" : "s"}`;
+  }
+}
+
+type Score = Pick<
+  WorkoutResult,
+  "duration_seconds" | "rounds" | "extra_reps" | "capped"
+>;
+
+/**
+ * Reads a score typed at the whiteboard: "12:34" for For Time ("cap" when
+ * time-capped), "7+5" or "7" rounds for AMRAP, rounds for EMOM and Tabata.
+ * `blockSeconds` is the length of the timed block, used where the score is
+ * not a time. Returns null when the text doesn't read as a score.
+ */
+export function parseScore(
+  format: TimerFormat,
+  text: string,
+  blockSeconds: number,
+): Score | null {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  if (format === "for_time") {
+    if (/^cap(ped)?$/.test(value)) {
+      return {
+        duration_seconds: blockSeconds,
+        rounds: null,
+        extra_reps: null,
+        capped: true,
+      };
+    }
+    const time = value.match(/^(\d+):(\d{2})$/);
+    if (!time) return null;
+    return {
+      duration_seconds: Number(time[1]) * 60 + Number(time[2]),
+      rounds: null,
+      extra_reps: null,
+      capped: false,
+    };
+  }
+
+  const rounds = value.match(/^(\d+)(?:\s*\+\s*(\d+))?$/);
+  if (!rounds) return null;
+  return {
+    duration_seconds: blockSeconds,
+    rounds: Number(rounds[1]),
+    extra_reps: format === "amrap" && rounds[2] ? Number(rounds[2]) : null,
+    capped: false,
+  };
+}
+
+/**
+ * Orders scores best first: fastest uncapped time, then most rounds and reps
+ */
+export function compareResults(a: WorkoutResult, b: WorkoutResult): number {
+  if (a.format === "for_time") {
+    if (a.capped !== b.capped) return a.capped ? 1 : -1;
+    return a.duration_seconds - b.duration_seconds;
+  }
+  return (
+    (b.rounds ?? 0) - (a.rounds ?? 0) ||
+    (b.extra_reps ?? 0) - (a.extra_reps ?? 0)
+  );
+}
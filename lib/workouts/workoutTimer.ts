@@ -0,0 +1,166 @@
+import type {
+  ParsedWorkout,
+  WorkoutFormat,
+} from "@/lib/workouts/workoutParser";
+
+// Timer settings and the clock maths behind them. The state at any moment is
+// a pure function of elapsed time, so pausing only has to stop the clock.
+
+export type TimerFormat = Exclude<WorkoutFormat, "circuit">;
+
+export type TimerConfig = {
+  format: TimerFormat;
+  // EMOM interval or Tabata work period; AMRAP length; For Time cap (0 = none)
+  workSeconds: number;
+  // Tabata rest period; 0 for the other formats
+  restSeconds: number;
+  // EMOM intervals or Tabata rounds; 1 for AMRAP and For Time
+  rounds: number;
+  countdownSeconds: number;
+};
+
+export type TimerPhase = "countdown" | "work" | "rest" | "done";
+
+export type TimerSnapshot = {
+  phase: TimerPhase;
+  round: number;
+  // Time left in the current phase; null while For Time runs without a cap
+  remainingMs: number | null;
+  // Time since the countdown ended
+  workElapsedMs: number;
+};
+
+export const TIMER_FORMATS: TimerFormat[] = [
+  "emom",
+  "amrap",
+  "for_time",
+  "tabata",
+];
+
+const DEFAULT_COUNTDOWN_SECONDS = 10;
+const TABATA_ROUNDS = 8;
+
+export function defaultTimerConfig(format: TimerFormat): TimerConfig {
+  const base = { format, countdownSeconds: DEFAULT_COUNTDOWN_SECONDS };
+  switch (format) {
+    case "emom":
+      return { ...base, workSeconds: 60, restSeconds: 0, rounds: 10 };
+    case "amrap":
+      return { ...base, workSeconds: 12 * 60, restSeconds: 0, rounds: 1 };
+    case "for_time":
+      return { ...base, workSeconds: 0, restSeconds: 0, rounds: 1 };
+    case "tabata":
+      return {
+        ...base,
+        workSeconds: 20,
+        restSeconds: 10,
+        rounds: TABATA_ROUNDS,
+      };
+  }
+}
+
+/**
+ * Pre-fills the timer from the first timed block in the workout, e.g.
+ * "EMOM 20" becomes 20 one-minute intervals
+ */
+export function timerConfigFromWorkout(
+  workout: ParsedWorkout,
+): TimerConfig | null {
+  const section = workout.sections.find((item) => item.format);
+  if (!section?.format) return null;
+
+  // Rounds of a circuit are timed like For Time
+  const format = section.format === "circuit" ? "for_time" : section.format;
+  const config = defaultTimerConfig(format);
+
+  switch (format) {
+    case "emom":
+      return section.durationSeconds
+        ? { ...config, rounds: Math.round(section.durationSeconds / 60) }
+        : config;
+    case "amrap":
+      return section.durationSeconds
+        ? { ...config, workSeconds: section.durationSeconds }
+        : config;
+    case "for_time":
+      return { ...config, workSeconds: section.timeCapSeconds ?? 0 };
+    case "tabata": {
+      // Each "Tabata <movement>" line is its own 8 rounds
+      const movements = section.lines.filter(
+        (line) => line.kind === "movement",
+      ).length;
+      return { ...config, rounds: TABATA_ROUNDS * Math.max(1, movements) };
+    }
+  }
+}
+
+/**
+ * Length of the whole timed block; for For Time, the cap (0 = none)
+ */
+export const blockSeconds = (config: TimerConfig) =>
+  (config.workSeconds + config.restSeconds) * config.rounds;
+
+export function timerSnapshot(
+  config: TimerConfig,
+  elapsedMs: number,
+): TimerSnapshot {
+  const countdownMs = config.countdownSeconds * 1000;
+  if (elapsedMs < countdownMs) {
+    return {
+      phase: "countdown",
+      round: 1,
+      remainingMs: countdownMs - elapsedMs,
+      workElapsedMs: 0,
+    };
+  }
+
+  const t = elapsedMs - countdownMs;
+  const workMs = config.workSeconds * 1000;
+
+  if (config.format === "for_time" || config.format === "amrap") {
+    // For Time without a cap runs until the athlete stops it
+    if (workMs === 0) {
+      return { phase: "work", round: 1, remainingMs: null, workElapsedMs: t };
+    }
+    return t >= workMs
+      ? { phase: "done", round: 1, remainingMs: 0, workElapsedMs: workMs }
+      : { phase: "work", round: 1, remainingMs: workMs - t, workElapsedMs: t };
+  }
+
+  const cycleMs = workMs + config.restSeconds * 1000;
+  const round = Math.floor(t / cycleMs) + 1;
+  if (round > config.rounds) {
+    return {
+      phase: "done",
+      round: config.rounds,
+      remainingMs: 0,
+      workElapsedMs: cycleMs * config.rounds,
+    };
+  }
+
+  const withinCycle = t % cycleMs;
+  return withinCycle < workMs
+    ? {
+        phase: "work",
+        round,
+        remainingMs: workMs - withinCycle,
+        workElapsedMs: t,
+      }
+    : {
+        phase: "rest",
+        round,
+        remainingMs: cycleMs - withinCycle,
+        workElapsedMs: t,
+      };
+}
+
+// Whole seconds for display; counts down rounding up, so "0:01" shows
+// until the second is actually over
+export function formatClock(ms: number, countingDown: boolean): string {
+  const totalSeconds = countingDown
+    ? Math.ceil(ms / 1000)
+    : Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}